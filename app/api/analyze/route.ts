@@ -0,0 +1,224 @@
+import { NextRequest, NextResponse } from "next/server";
+import { processRoboflowResponse } from "@/lib/roboflow";
+import {
+  ANALYZE_RATE_LIMIT,
+  createRateLimiter,
+  getClientId,
+} from "@/lib/rateLimit";
+import {
+  PoseErrorCode,
+  poseErrorFromResponse,
+  toPoseBackendError,
+} from "@/lib/poseErrors";
+
+const ROBOFLOW_API_URL = process.env.ROBOFLOW_API_URL;
+const API_KEY = process.env.ROBOFLOW_API_KEY;
+
+// A 1280x720 JPEG frame at 0.8 quality is well under 1 MB once base64 encoded
+const MAX_BODY_BYTES = 1_500_000;
+
+
+// Shorter than the browser's own timeout, so it gets a proper error rather than giving up first
+const ROBOFLOW_TIMEOUT_MS = 8_000;
+
+// Status we answer with for each failure the browser needs to tell apart
+const ERROR_STATUSES: Record<PoseErrorCode, number> = {
+  missing_config: 500,
+  auth_failed: 502,
+  rate_limited: 429,
+  timeout: 504,
+  malformed_response: 502,
+  offline: 502,
+  service_error: 502,
+};
+
+// Auto-analyze paces itself well under this, leaving room for retries
+const checkRateLimit = createRateLimiter(
+  ANALYZE_RATE_LIMIT.maxRequests,
+  ANALYZE_RATE_LIMIT.windowMs
+);
+
+// Where the caller's IP can be trusted from. Vercel overwrites x-real-ip on every request
+const CLIENT_ID_OPTIONS = {
+  trustedHeader:
+    process.env.RATE_LIMIT_IP_HEADER ||
+    (process.env.VERCEL ? "x-real-ip" : undefined),
+  trustedProxyHops: Number(process.env.RATE_LIMIT_PROXY_HOPS) || 0,
+};
+
+// Without a trusted source of IPs every caller would share one limit, so the route refuses to run.
+// `next dev` is the exception, where the developer is the only caller
+const IS_DEVELOPMENT = process.env.NODE_ENV === "development";
+const IS_CLIENT_ID_CONFIGURED =
+  !!CLIENT_ID_OPTIONS.trustedHeader || CLIENT_ID_OPTIONS.trustedProxyHops > 0;
+if (!IS_CLIENT_ID_CONFIGURED && !IS_DEVELOPMENT) {
+  console.error(
+    "Can't identify callers for rate limiting, set RATE_LIMIT_IP_HEADER or RATE_LIMIT_PROXY_HOPS"
+  );
+}
+
+/**
+ * Identify the caller for rate limiting purposes, or null if they can't be told apart from others
+ */
+function getRateLimitKey(request: NextRequest): string | null {
+  if (!IS_CLIENT_ID_CONFIGURED) {
+    return IS_DEVELOPMENT ? "development" : null;
+  }
+  return getClientId(request.headers, CLIENT_ID_OPTIONS);
+}
+
+/**
+ * Read a request body as text, or return null once it passes maxBytes without reading the rest
+ */
+async function readBodyWithLimit(
+  request: NextRequest,
+  maxBytes: number
+): Promise<string | null> {
+  if (!request.body) {
+    return "";
+  }
+
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let totalBytes = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    totalBytes += value.byteLength;
+    if (totalBytes > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  const body = new Uint8Array(totalBytes);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return new TextDecoder().decode(body);
+}
+
+function errorResponse(
+  message: string,
+  status: number,
+  headers?: Record<string, string>,
+  code?: PoseErrorCode
+) {
+  return NextResponse.json({ error: message, code }, { status, headers });
+}
+
+/**
+ * Proxy a single camera frame to the Roboflow workflow and return the
+ * normalized pose estimate, keeping the API key on the server
+ */
+export async function POST(request: NextRequest) {
+  if (!IS_CLIENT_ID_CONFIGURED && !IS_DEVELOPMENT) {
+    return errorResponse(
+      "Rate limiting is not configured",
+      500,
+      undefined,
+      "missing_config"
+    );
+  }
+  const rateLimitKey = getRateLimitKey(request);
+  if (!rateLimitKey) {
+    // The trusted header or proxy is missing, so the request didn't come through the deployment's front door
+    return errorResponse("Can't identify the caller", 400);
+  }
+
+  const rateLimit = checkRateLimit(rateLimitKey);
+  if (!rateLimit.allowed) {
+    return errorResponse(
+      "Too many analysis requests, slow down",
+      429,
+      { "Retry-After": String(rateLimit.retryAfterSeconds) },
+      "rate_limited"
+    );
+  }
+
+  // The browser always sends a length, so a request without one is rejected before reading anything
+  const contentLength = request.headers.get("content-length");
+  if (!contentLength) {
+    return errorResponse("Content-Length is required", 411);
+  }
+  if (Number(contentLength) > MAX_BODY_BYTES) {
+    return errorResponse("Image is too large", 413);
+  }
+
+  // The length header can understate the body, so reading stops as soon as it passes the limit
+  const rawBody = await readBodyWithLimit(request, MAX_BODY_BYTES);
+  if (rawBody === null) {
+    return errorResponse("Image is too large", 413);
+  }
+
+  let image: unknown;
+  try {
+    ({ image } = JSON.parse(rawBody));
+  } catch {
+    return errorResponse("Request body must be JSON", 400);
+  }
+
+  if (typeof image !== "string" || image.length === 0) {
+    return errorResponse("Missing base64 image", 400);
+  }
+
+  if (!API_KEY || !ROBOFLOW_API_URL) {
+    console.error("Roboflow API key or URL not configured");
+    return errorResponse(
+      "Analysis service is not configured",
+      500,
+      undefined,
+      "missing_config"
+    );
+  }
+
+  try {
+    const response = await fetch(ROBOFLOW_API_URL, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        api_key: API_KEY,
+        inputs: {
+          image: { type: "base64", value: image },
+        },
+      }),
+      signal: AbortSignal.timeout(ROBOFLOW_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      console.error(
+        `Roboflow API error: ${response.status} ${response.statusText}`
+      );
+      // Roboflow's own messages aren't meant for our users, so only its status is passed on
+      throw poseErrorFromResponse(
+        response.status,
+        null,
+        response.headers.get("Retry-After")
+      );
+    }
+
+    const analysisData: unknown = await response.json().catch(() => null);
+    return NextResponse.json(
+      processRoboflowResponse(analysisData),
+      { headers: { "X-RateLimit-Remaining": String(rateLimit.remaining) } }
+    );
+  } catch (error) {
+    const poseError = toPoseBackendError(error);
+    console.error("Error calling Roboflow API:", poseError);
+    return errorResponse(
+      poseError.code === "service_error"
+        ? "Failed to reach analysis service"
+        : poseError.message,
+      ERROR_STATUSES[poseError.code],
+      poseError.retryAfterMs
+        ? { "Retry-After": String(Math.ceil(poseError.retryAfterMs / 1000)) }
+        : undefined,
+      poseError.code
+    );
+  }
+}
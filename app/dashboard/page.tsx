@@ -0,0 +1,255 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import AppHeader from "@/components/AppHeader";
+import ScoreTrendChart from "@/components/ScoreTrendChart";
+import { getExerciseDefinition } from "@/lib/exerciseRegistry";
+import {
+  buildIssueFrequencies,
+  buildScoreTrends,
+  IssueFrequency,
+  IssueTrend,
+} from "@/lib/progressAnalytics";
+import {
+  listAllEntries,
+  listSessions,
+  SessionEntry,
+  WorkoutSession,
+} from "@/lib/sessionStore";
+
+// Weekly columns shown in the issue table
+const VISIBLE_WEEKS = 6;
+
+const TREND_STYLES: Record<IssueTrend, { label: string; className: string }> = {
+  improving: { label: "Improving", className: "bg-green-50 text-green-700" },
+  resolved: { label: "Resolved", className: "bg-green-50 text-green-700" },
+  worsening: { label: "Getting worse", className: "bg-red-50 text-red-700" },
+  new: { label: "New", className: "bg-amber-50 text-amber-700" },
+  steady: { label: "Steady", className: "bg-gray-50 text-gray-600" },
+};
+
+function exerciseName(exercise: string): string {
+  return getExerciseDefinition(exercise)?.name ?? exercise;
+}
+
+function formatChange(change: number): string {
+  const points = Math.round(change * 100);
+  return `${points > 0 ? "+" : ""}${points}%`;
+}
+
+export default function DashboardPage() {
+  const [sessions, setSessions] = useState<WorkoutSession[]>([]);
+  const [entries, setEntries] = useState<SessionEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [exerciseFilter, setExerciseFilter] = useState("");
+
+  useEffect(() => {
+    Promise.all([listSessions(), listAllEntries()])
+      .then(([storedSessions, storedEntries]) => {
+        setSessions(storedSessions);
+        setEntries(storedEntries);
+      })
+      .catch((err) => {
+        console.error("Error loading progress:", err);
+        setError("Failed to load your progress.");
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const scoreTrends = useMemo(() => buildScoreTrends(sessions), [sessions]);
+  const issueReport = useMemo(
+    () =>
+      buildIssueFrequencies(
+        exerciseFilter
+          ? entries.filter((entry) => entry.result.exercise === exerciseFilter)
+          : entries
+      ),
+    [entries, exerciseFilter]
+  );
+
+  const visibleWeeks = issueReport.weeks.slice(-VISIBLE_WEEKS);
+  const improving = issueReport.issues.filter(
+    (issue) => issue.trend === "improving" || issue.trend === "resolved"
+  );
+  const worsening = issueReport.issues.filter(
+    (issue) => issue.trend === "worsening" || issue.trend === "new"
+  );
+
+  const renderIssueList = (title: string, issues: IssueFrequency[], empty: string) => (
+    <div className="p-6 bg-white border border-gray-200 rounded-2xl shadow-sm">
+      <h4 className="font-semibold mb-3 text-gray-900">{title}</h4>
+      {issues.length > 0 ? (
+        <ul className="space-y-2">
+          {issues.map((issue) => (
+            <li key={issue.code} className="flex items-start justify-between gap-3 text-sm">
+              <span className="text-gray-700">{issue.message}</span>
+              <span
+                className={`shrink-0 text-xs px-2 py-1 rounded-full ${TREND_STYLES[issue.trend].className}`}
+              >
+                {formatChange(issue.change)}
+              </span>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-500">{empty}</p>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-[#E3F4FE] via-[#AABFF8]/60 via-[#DFCCF9]/40 via-[#CBCIFB]/60 to-[#F5EBF2]">
+      <AppHeader />
+
+      <main className="relative max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-12 space-y-8">
+        <div className="text-center">
+          <h2 className="text-3xl font-bold mb-2 text-black">Your Progress</h2>
+          <p className="text-gray-600">
+            Technique scores and recurring faults from the sessions saved on
+            this device
+          </p>
+        </div>
+
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 text-red-700 rounded-lg">
+            {error}
+          </div>
+        )}
+
+        {isLoading ? (
+          <p className="text-center text-sm text-gray-500">Loading progress...</p>
+        ) : sessions.length === 0 ? (
+          <div className="p-8 bg-white border border-gray-200 rounded-2xl text-center text-sm text-gray-500">
+            No sessions yet. Analyze a few sets and your progress will show up
+            here.
+          </div>
+        ) : (
+          <>
+            {/* Score Trends */}
+            <section>
+              <h3 className="text-xl font-semibold mb-4 text-black">
+                Technique Score Over Time
+              </h3>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                {scoreTrends.map((trend) => (
+                  <div
+                    key={trend.exercise}
+                    className="p-6 bg-white border border-gray-200 rounded-2xl shadow-sm"
+                  >
+                    <div className="flex items-center justify-between mb-3">
+                      <h4 className="font-semibold text-gray-900">
+                        {exerciseName(trend.exercise)}
+                      </h4>
+                      {trend.change !== null && (
+                        <span
+                          className={`text-xs px-2 py-1 rounded-full ${
+                            trend.change >= 0
+                              ? "bg-green-50 text-green-700"
+                              : "bg-red-50 text-red-700"
+                          }`}
+                        >
+                          {formatChange(trend.change)} recently
+                        </span>
+                      )}
+                    </div>
+                    <ScoreTrendChart points={trend.points} />
+                    <p className="text-xs text-gray-500 mt-2">
+                      {trend.points.length} sessions
+                    </p>
+                  </div>
+                ))}
+              </div>
+            </section>
+
+            {/* Issue Frequency */}
+            <section className="space-y-6">
+              <div className="flex flex-wrap items-center justify-between gap-4">
+                <h3 className="text-xl font-semibold text-black">
+                  Faults Week Over Week
+                </h3>
+                <label className="flex items-center space-x-2 bg-white border border-gray-300 px-4 py-2 rounded-lg">
+                  <span className="text-sm text-gray-700 font-medium">
+                    Exercise
+                  </span>
+                  <select
+                    value={exerciseFilter}
+                    onChange={(e) => setExerciseFilter(e.target.value)}
+                    className="text-sm text-gray-900 bg-transparent focus:outline-none"
+                  >
+                    <option value="">All</option>
+                    {scoreTrends.map((trend) => (
+                      <option key={trend.exercise} value={trend.exercise}>
+                        {exerciseName(trend.exercise)}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                {renderIssueList(
+                  "Improving",
+                  improving,
+                  "Nothing has improved since last week yet"
+                )}
+                {renderIssueList(
+                  "Getting Worse",
+                  worsening,
+                  "No faults are getting worse"
+                )}
+              </div>
+
+              {issueReport.issues.length > 0 ? (
+                <div className="overflow-x-auto bg-white border border-gray-200 rounded-2xl shadow-sm">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-500 border-b border-gray-200">
+                        <th className="p-4 font-medium">Fault</th>
+                        {visibleWeeks.map((weekStart) => (
+                          <th key={weekStart} className="p-4 font-medium whitespace-nowrap">
+                            Week of {new Date(weekStart).toLocaleDateString()}
+                          </th>
+                        ))}
+                        <th className="p-4 font-medium">Trend</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {issueReport.issues.map((issue) => (
+                        <tr key={issue.code} className="border-b border-gray-100 last:border-0">
+                          <td className="p-4 text-gray-700" title={issue.code}>
+                            {issue.message}
+                          </td>
+                          {issue.weeks.slice(-VISIBLE_WEEKS).map((week) => (
+                            <td
+                              key={week.weekStart}
+                              className="p-4 text-gray-900 whitespace-nowrap"
+                              title={`${week.count} analyses`}
+                            >
+                              {Math.round(week.rate * 100)}%
+                            </td>
+                          ))}
+                          <td className="p-4">
+                            <span
+                              className={`text-xs px-2 py-1 rounded-full whitespace-nowrap ${TREND_STYLES[issue.trend].className}`}
+                            >
+                              {TREND_STYLES[issue.trend].label}
+                            </span>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ) : (
+                <div className="p-8 bg-white border border-gray-200 rounded-2xl text-center text-sm text-gray-500">
+                  No faults recorded - keep it up!
+                </div>
+              )}
+            </section>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,251 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import AppHeader from "@/components/AppHeader";
+import IssueList from "@/components/IssueList";
+import SessionReplay from "@/components/SessionReplay";
+import { ExerciseDefinition } from "@/lib/exerciseDefinitions";
+import { getExerciseDefinition, listExercises } from "@/lib/exerciseRegistry";
+import {
+  deleteSession,
+  getSessionEntries,
+  getSessionRecording,
+  listSessions,
+  SessionEntry,
+  SessionRecording,
+  WorkoutSession,
+} from "@/lib/sessionStore";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  return seconds < 60
+    ? `${seconds}s`
+    : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+export default function HistoryPage() {
+  const [exercises, setExercises] = useState<ExerciseDefinition[]>([]);
+  const [sessions, setSessions] = useState<WorkoutSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [exerciseFilter, setExerciseFilter] = useState("");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [entries, setEntries] = useState<SessionEntry[]>([]);
+  const [recording, setRecording] = useState<SessionRecording | null>(null);
+
+  const loadSessions = useCallback(async () => {
+    try {
+      setError(null);
+      setSessions(
+        await listSessions({
+          exercise: exerciseFilter || undefined,
+          from: fromDate ? new Date(`${fromDate}T00:00`).getTime() : undefined,
+          // Include the whole of the end day
+          to: toDate ? new Date(`${toDate}T00:00`).getTime() + DAY_MS - 1 : undefined,
+        })
+      );
+    } catch (err) {
+      console.error("Error loading sessions:", err);
+      setError("Failed to load your session history.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [exerciseFilter, fromDate, toDate]);
+
+  useEffect(() => {
+    setExercises(listExercises());
+  }, []);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  const toggleSession = async (session: WorkoutSession) => {
+    if (expandedId === session.id) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(session.id);
+    setEntries([]);
+    setRecording(null);
+    try {
+      setEntries(await getSessionEntries(session.id));
+      if (session.hasRecording) {
+        setRecording((await getSessionRecording(session.id)) ?? null);
+      }
+    } catch (err) {
+      console.error("Error loading session entries:", err);
+      setError("Failed to load this session.");
+    }
+  };
+
+  const handleDelete = async (sessionId: string) => {
+    if (!window.confirm("Delete this session? This can't be undone.")) {
+      return;
+    }
+    try {
+      await deleteSession(sessionId);
+      if (expandedId === sessionId) {
+        setExpandedId(null);
+      }
+      await loadSessions();
+    } catch (err) {
+      console.error("Error deleting session:", err);
+      setError("Failed to delete the session.");
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-[#E3F4FE] via-[#AABFF8]/60 via-[#DFCCF9]/40 via-[#CBCIFB]/60 to-[#F5EBF2]">
+      <AppHeader />
+
+      <main className="relative max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-12 space-y-6">
+        <div className="text-center">
+          <h2 className="text-3xl font-bold mb-2 text-black">
+            Session History
+          </h2>
+          <p className="text-gray-600">
+            Every analyzed session is saved on this device
+          </p>
+        </div>
+
+        {/* Filters */}
+        <div className="flex flex-wrap gap-4 p-4 bg-white border border-gray-200 rounded-xl">
+          <label className="flex items-center space-x-2">
+            <span className="text-sm text-gray-700 font-medium">Exercise</span>
+            <select
+              value={exerciseFilter}
+              onChange={(e) => setExerciseFilter(e.target.value)}
+              className="text-sm text-gray-900 bg-transparent focus:outline-none"
+            >
+              <option value="">All</option>
+              {exercises.map((exercise) => (
+                <option key={exercise.id} value={exercise.id}>
+                  {exercise.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center space-x-2">
+            <span className="text-sm text-gray-700 font-medium">From</span>
+            <input
+              type="date"
+              value={fromDate}
+              onChange={(e) => setFromDate(e.target.value)}
+              className="text-sm text-gray-900 bg-transparent focus:outline-none"
+            />
+          </label>
+          <label className="flex items-center space-x-2">
+            <span className="text-sm text-gray-700 font-medium">To</span>
+            <input
+              type="date"
+              value={toDate}
+              onChange={(e) => setToDate(e.target.value)}
+              className="text-sm text-gray-900 bg-transparent focus:outline-none"
+            />
+          </label>
+        </div>
+
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 text-red-700 rounded-lg">
+            {error}
+          </div>
+        )}
+
+        {/* Sessions */}
+        {isLoading ? (
+          <p className="text-center text-sm text-gray-500">Loading sessions...</p>
+        ) : sessions.length === 0 ? (
+          <div className="p-8 bg-white border border-gray-200 rounded-2xl text-center text-sm text-gray-500">
+            No sessions found. Analyze a set and it will show up here.
+          </div>
+        ) : (
+          <ul className="space-y-4">
+            {sessions.map((session) => (
+              <li
+                key={session.id}
+                className="bg-white border border-gray-200 rounded-2xl shadow-sm overflow-hidden"
+              >
+                <div className="flex items-center gap-4 p-4">
+                  {session.thumbnail ? (
+                    <img
+                      src={session.thumbnail}
+                      alt="Session thumbnail"
+                      className="w-24 h-16 object-cover rounded-lg scale-x-[-1]"
+                    />
+                  ) : (
+                    <div className="w-24 h-16 rounded-lg bg-gray-100" />
+                  )}
+                  <button
+                    onClick={() => toggleSession(session)}
+                    className="flex-1 text-left"
+                  >
+                    <p className="font-medium text-gray-900">
+                      {getExerciseDefinition(session.exercise)?.name ??
+                        session.exercise}
+                    </p>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {new Date(session.startTime).toLocaleString()} •{" "}
+                      {formatDuration(session.endTime - session.startTime)} •{" "}
+                      {session.entryCount} analyses
+                      {session.hasRecording && " • 🎥 Recorded"}
+                    </p>
+                  </button>
+                  <span className="text-xs text-gray-500 bg-gray-50 px-2 py-1 rounded-full">
+                    {Math.round(session.averageScore * 100)}%
+                  </span>
+                  <button
+                    onClick={() => handleDelete(session.id)}
+                    className="text-xs text-red-600 hover:underline"
+                  >
+                    Delete
+                  </button>
+                </div>
+
+                {expandedId === session.id && recording && (
+                  <div className="border-t border-gray-200 p-4 bg-gray-50">
+                    <SessionReplay
+                      exercise={session.exercise}
+                      recording={recording}
+                      entries={entries}
+                    />
+                  </div>
+                )}
+
+                {expandedId === session.id && (
+                  <ul className="border-t border-gray-200 p-4 space-y-2 bg-gray-50">
+                    {entries.map((entry, index) => (
+                      <li key={index} className="text-xs text-gray-700">
+                        <span className="text-gray-500">
+                          {formatDuration(entry.timestamp - session.startTime)}
+                        </span>{" "}
+                        {entry.result.missingKeypoints
+                          ? "🔍 Adjust Position"
+                          : entry.result.isGoodPosture
+                          ? "✅ Excellent Form"
+                          : "⚠️ Form Needs Work"}{" "}
+                        ({Math.round(entry.result.score * 100)}%)
+                        {entry.result.detectedIssues.length > 0 && (
+                          <div className="mt-1 ml-4">
+                            <IssueList
+                              issues={entry.result.detectedIssues}
+                              compact
+                            />
+                          </div>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -1,17 +1,34 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import { Camera, Dumbbell, Upload } from "lucide-react";
+import AppHeader from "@/components/AppHeader";
 import PostureCamera from "@/components/PostureCamera";
-import { PostureAnalysisResult } from "@/lib/roboflow";
+import ExerciseEditor from "@/components/ExerciseEditor";
+import VideoAnalyzer from "@/components/VideoAnalyzer";
+import { PostureAnalysisResult } from "@/lib/postureAnalysis";
+import { BUILT_IN_EXERCISES, ExerciseId } from "@/lib/exerciseDefinitions";
+import { listExercises } from "@/lib/exerciseRegistry";
 
 export default function Home() {
   const [selectedExercise, setSelectedExercise] = useState<
-    "squat" | "bench" | "deadlift" | "add"
+    ExerciseId | "add"
   >("squat");
+  // Custom exercises live in local storage, so they're loaded after hydration
+  const [exercises, setExercises] = useState(BUILT_IN_EXERCISES);
+  const [inputMode, setInputMode] = useState<"camera" | "video">("camera");
   const [analysisHistory, setAnalysisHistory] = useState<
     PostureAnalysisResult[]
   >([]);
 
+  useEffect(() => {
+    setExercises(listExercises());
+  }, []);
+
+  const exerciseName =
+    exercises.find((exercise) => exercise.id === selectedExercise)?.name ??
+    selectedExercise;
+
   const handleAnalysisResult = (result: PostureAnalysisResult) => {
     setAnalysisHistory((prev) => [result, ...prev.slice(0, 9)]); // Keep last 10 results
   };
@@ -21,24 +38,7 @@ export default function Home() {
       {/* Background Pattern */}
       <div className="absolute inset-0 bg-[radial-gradient(circle_at_50%_50%,rgba(186,181,242,0.1)_0%,transparent_50%)] pointer-events-none"></div>
 
-      {/* Header */}
-      <header className="relative bg-white/90 backdrop-blur-sm border-b border-gray-200/50">
-        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
-          <div className="flex items-center justify-between">
-            <div className="flex items-center space-x-3">
-              <div className="w-8 h-8 rounded-lg overflow-hidden flex items-center justify-center bg-[#6f29a4]">
-                <img
-                  src="/coachly.png"
-                  alt="Coachly Icon"
-                  className="w-full h-full object-cover"
-                />
-              </div>
-              <h1 className="text-2xl font-bold text-black">Coachly</h1>
-            </div>
-            <p className="text-gray-600 text-sm">AI-Powered Form Analysis</p>
-          </div>
-        </div>
-      </header>
+      <AppHeader />
 
       <main className="relative max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
         {/* Exercise Selection */}
@@ -50,81 +50,111 @@ export default function Home() {
             Choose the exercise you want to analyze
           </p>
           <div className="grid grid-cols-1 md:grid-cols-4 gap-4 max-w-4xl mx-auto">
-            {(["squat", "bench", "deadlift", "add"] as const).map((exercise) => (
-              <button
-                key={exercise}
-                onClick={() => setSelectedExercise(exercise)}
-                className={`p-6 rounded-xl text-center font-medium transition-all border hover:shadow-lg ${
-                  selectedExercise === exercise
-                    ? "bg-[#6f29a4] text-white border-[#6f29a4] shadow-lg"
-                    : "bg-white text-gray-900 border-gray-200 hover:border-[#bab5f2]/50"
-                }`}
-              >
-                <div className="flex justify-center mb-2">
-                  {exercise === "squat" && 
-                  <div className="w-14 h-14 rounded-lg overflow-hidden flex items-center justify-center bg-[#6f29a4]">
-                    <img
-                      src="/squat.png"
-                      alt="Squat Icon"
-                      className="w-full h-full object-cover"
-                    />
-                  </div>
-                      } 
-                      {exercise === "bench" && 
-                      <div className="w-14 h-14 rounded-lg overflow-hidden flex items-center justify-center bg-[#6f29a4]">
-                    <img
-                      src="/bench.png"
-                      alt="Bench Icon"
-                      className="w-full h-full object-cover"
-                    />
-                  </div>
-                      }
-                      {exercise === "deadlift" && 
-                      <div className="w-14 h-14 rounded-lg overflow-hidden flex items-center justify-center bg-[#6f29a4]">
-                    <img
-                      src="/deadlift.png"
-                      alt="Deadlift Icon"
-                      className="w-full h-full object-cover"
-                    />
-                  </div>
-                  }
-                  {exercise === "add" && 
-                      <div className="w-14 h-14 rounded-lg overflow-hidden flex items-center justify-center bg-[#6f29a4]">
+            {[...exercises.map((exercise) => exercise.id), "add"].map((exercise) => {
+              const definition = exercises.find((e) => e.id === exercise);
+              return (
+                <button
+                  key={exercise}
+                  onClick={() => setSelectedExercise(exercise)}
+                  className={`p-6 rounded-xl text-center font-medium transition-all border hover:shadow-lg ${
+                    selectedExercise === exercise
+                      ? "bg-[#6f29a4] text-white border-[#6f29a4] shadow-lg"
+                      : "bg-white text-gray-900 border-gray-200 hover:border-[#bab5f2]/50"
+                  }`}
+                >
+                  <div className="flex justify-center mb-2">
+                    <div className="w-14 h-14 rounded-lg overflow-hidden flex items-center justify-center bg-[#6f29a4]">
+                      {definition?.icon ? (
+                        <img
+                          src={definition.icon}
+                          alt={`${definition.name} Icon`}
+                          className="w-full h-full object-cover"
+                        />
+                      ) : definition ? (
+                        <Dumbbell className="w-7 h-7 text-white" />
+                      ) : (
                         <div className="text-white text-2xl font-bold">+</div>
-                      </div>
-                  }
-                </div>
-                {exercise === "add" ? "Add Exercise" : exercise.charAt(0).toUpperCase() + exercise.slice(1)}
-              </button>
-            ))}
+                      )}
+                    </div>
+                  </div>
+                  {definition ? definition.name : "Add Exercise"}
+                </button>
+              );
+            })}
           </div>
         </div>
 
         {/* Current Exercise Info */}
         <div className="mb-12 p-8 bg-white border border-gray-200 rounded-2xl shadow-sm">
           <h3 className="text-xl font-semibold mb-4 text-center text-black">
-            {selectedExercise === "add" 
-              ? "Add New Exercise" 
-              : `${selectedExercise.charAt(0).toUpperCase() + selectedExercise.slice(1)} Analysis`}
+            {selectedExercise === "add"
+              ? "Add New Exercise"
+              : `${exerciseName} Analysis`}
           </h3>
           <p className="text-gray-600 text-center leading-relaxed">
-            {selectedExercise === "add" 
-              ? "This feature will allow you to add custom exercises in future updates. Stay tuned!"
-              : `Position yourself in front of the camera and perform your ${selectedExercise}. Our AI will analyze your form and provide real-time feedback to help you improve.`}
+            {selectedExercise === "add"
+              ? "Describe the body parts to track, how a rep moves, and the form checks to run. Custom exercises are saved on this device."
+              : inputMode === "video"
+              ? `Upload a recording of your ${exerciseName.toLowerCase()} set. Every sampled frame is analyzed so you can scrub to the reps that need work.`
+              : `Position yourself in front of the camera and perform your ${exerciseName.toLowerCase()}. Our AI will analyze your form and provide real-time feedback to help you improve.`}
           </p>
+          {selectedExercise !== "add" && (
+            <div className="flex justify-center gap-2 mt-6">
+              {(
+                [
+                  ["camera", "Live Camera", Camera],
+                  ["video", "Upload Video", Upload],
+                ] as const
+              ).map(([mode, label, Icon]) => (
+                <button
+                  key={mode}
+                  onClick={() => setInputMode(mode)}
+                  className={`flex items-center space-x-2 px-4 py-2 rounded-lg text-sm font-medium border transition-colors ${
+                    inputMode === mode
+                      ? "bg-[#6f29a4] text-white border-[#6f29a4]"
+                      : "bg-white text-gray-900 border-gray-300 hover:bg-gray-50"
+                  }`}
+                >
+                  <Icon className="w-4 h-4" />
+                  <span>{label}</span>
+                </button>
+              ))}
+            </div>
+          )}
         </div>
 
+        {/* Exercise Editor */}
+        {selectedExercise === "add" && (
+          <div className="mb-12">
+            <ExerciseEditor
+              onSaved={(definition) => {
+                setExercises(listExercises());
+                setSelectedExercise(definition.id);
+              }}
+              onDeleted={() => setExercises(listExercises())}
+            />
+          </div>
+        )}
+
         {/* Posture Camera Component */}
-        {selectedExercise !== "add" && (
+        {selectedExercise !== "add" && inputMode === "camera" && (
           <div className="mb-12">
             <PostureCamera
-              selectedExercise={selectedExercise as "squat" | "bench" | "deadlift"}
+              selectedExercise={selectedExercise}
               onAnalysisResult={handleAnalysisResult}
               analysisHistory={analysisHistory}
+              onExerciseChange={setSelectedExercise}
             />
           </div>
         )}
 
+        {/* Video Upload Component */}
+        {selectedExercise !== "add" && inputMode === "video" && (
+          <div className="mb-12">
+            <VideoAnalyzer selectedExercise={selectedExercise} />
+          </div>
+        )}
+
         {/* Footer */}
         <footer className="mt-20 text-center">
           <p className="text-sm text-gray-500">
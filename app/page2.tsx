@@ -2,7 +2,7 @@
 
 import { useState } from "react";
 import PostureCamera from "@/components/PostureCamera";
-import { PostureAnalysisResult } from "@/lib/roboflow";
+import { PostureAnalysisResult } from "@/lib/postureAnalysis";
 
 export default function Home() {
   const [selectedExercise, setSelectedExercise] = useState<
@@ -0,0 +1,139 @@
+"use client";
+
+import type { MouseEvent } from "react";
+import type { VideoAnalysis } from "@/lib/videoAnalysis";
+import type { PostureAnalysisResult } from "@/lib/postureAnalysis";
+import { formatIssueMessage, TechniqueIssue } from "@/lib/techniqueIssues";
+import { SEVERITY_DOTS } from "@/components/IssueList";
+
+interface AnalysisTimelineProps {
+  analysis: VideoAnalysis;
+  currentTime: number; // Seconds
+  onSeek: (time: number) => void;
+}
+
+/**
+ * Format seconds as m:ss.s
+ */
+export function formatVideoTime(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  const rest = (seconds % 60).toFixed(1).padStart(4, "0");
+  return `${minutes}:${rest}`;
+}
+
+function getBarColor(result: PostureAnalysisResult): string {
+  if (result.detectedIssues.some((issue) => issue.severity === "critical")) {
+    return "bg-red-400";
+  }
+  return result.isGoodPosture ? "bg-green-400" : "bg-amber-400";
+}
+
+/**
+ * Where each issue starts: the first frame it shows up in after a frame without it
+ */
+function getIssueMarkers(
+  entries: VideoAnalysis["entries"]
+): { time: number; issue: TechniqueIssue }[] {
+  return entries.flatMap((entry, index) => {
+    const previousCodes = new Set(
+      entries[index - 1]?.result.detectedIssues.map((issue) => issue.code)
+    );
+    return entry.result.detectedIssues
+      .filter((issue) => !previousCodes.has(issue.code))
+      .map((issue) => ({ time: entry.time, issue }));
+  });
+}
+
+/**
+ * Score per sampled frame, where issues start and the detected reps along the video, click to jump to that moment
+ */
+export default function AnalysisTimeline({
+  analysis,
+  currentTime,
+  onSeek,
+}: AnalysisTimelineProps) {
+  const { duration, entries, reps, framesPerSecond } = analysis;
+  const toPercent = (time: number) => `${(time / duration) * 100}%`;
+  const barWidth = `max(2px, ${100 / (duration * framesPerSecond)}%)`;
+
+  const handleClick = (e: MouseEvent<HTMLDivElement>) => {
+    const bounds = e.currentTarget.getBoundingClientRect();
+    const ratio = (e.clientX - bounds.left) / bounds.width;
+    onSeek(Math.min(Math.max(ratio, 0), 1) * duration);
+  };
+
+  return (
+    <div className="space-y-2">
+      {/* Issue Markers */}
+      <div className="relative h-3">
+        {getIssueMarkers(entries).map(({ time, issue }) => (
+          <button
+            key={`${time}-${issue.code}`}
+            onClick={() => onSeek(time)}
+            title={`${formatVideoTime(time)} • ${formatIssueMessage(issue)}`}
+            className={`absolute top-0.5 w-2 h-2 -ml-1 rounded-full ${SEVERITY_DOTS[issue.severity]}`}
+            style={{ left: toPercent(time) }}
+          />
+        ))}
+      </div>
+
+      {/* Scores */}
+      <div
+        onClick={handleClick}
+        className="relative h-24 bg-gray-50 border border-gray-200 rounded-lg overflow-hidden cursor-pointer"
+      >
+        {entries.map((entry) => (
+          <div
+            key={entry.time}
+            title={`${formatVideoTime(entry.time)} • ${Math.round(
+              entry.result.score * 100
+            )}%`}
+            className={`absolute bottom-0 ${getBarColor(entry.result)}`}
+            style={{
+              left: toPercent(entry.time),
+              width: barWidth,
+              height: `${Math.max(entry.result.score * 100, 4)}%`,
+            }}
+          />
+        ))}
+        <div
+          className="absolute inset-y-0 w-0.5 bg-[#6f29a4] pointer-events-none"
+          style={{ left: toPercent(currentTime) }}
+        />
+      </div>
+
+      {/* Reps */}
+      {reps.length > 0 && (
+        <div className="relative h-6">
+          {reps.map((rep) => (
+            <button
+              key={rep.index}
+              onClick={() => onSeek(rep.startTime / 1000)}
+              title={
+                rep.issues.length > 0
+                  ? rep.issues.map(formatIssueMessage).join("\n")
+                  : "No issues"
+              }
+              className={`absolute inset-y-0 rounded text-xs font-medium text-gray-900 border ${
+                rep.score > 0.6
+                  ? "bg-green-100 border-green-300"
+                  : "bg-amber-100 border-amber-300"
+              }`}
+              style={{
+                left: toPercent(rep.startTime / 1000),
+                width: toPercent((rep.endTime - rep.startTime) / 1000),
+              }}
+            >
+              {rep.index}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="flex justify-between text-xs text-gray-500">
+        <span>{formatVideoTime(0)}</span>
+        <span>{formatVideoTime(duration)}</span>
+      </div>
+    </div>
+  );
+}
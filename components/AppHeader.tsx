@@ -0,0 +1,53 @@
+"use client";
+
+import Link from "next/link";
+import { usePathname } from "next/navigation";
+
+const NAV_LINKS = [
+  { href: "/", label: "Analyze" },
+  { href: "/history", label: "History" },
+  { href: "/dashboard", label: "Progress" },
+];
+
+export default function AppHeader() {
+  const pathname = usePathname();
+
+  return (
+    <header className="relative bg-white/90 backdrop-blur-sm border-b border-gray-200/50">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <div className="w-8 h-8 rounded-lg overflow-hidden flex items-center justify-center bg-[#6f29a4]">
+              <img
+                src="/coachly.png"
+                alt="Coachly Icon"
+                className="w-full h-full object-cover"
+              />
+            </div>
+            <h1 className="text-2xl font-bold text-black">Coachly</h1>
+          </div>
+          <div className="flex items-center space-x-6">
+            <p className="hidden sm:block text-gray-600 text-sm">
+              AI-Powered Form Analysis
+            </p>
+            <nav className="flex items-center space-x-4">
+              {NAV_LINKS.map((link) => (
+                <Link
+                  key={link.href}
+                  href={link.href}
+                  className={`text-sm hover:underline ${
+                    pathname === link.href
+                      ? "text-[#6f29a4] font-medium"
+                      : "text-gray-600"
+                  }`}
+                >
+                  {link.label}
+                </Link>
+              ))}
+            </nav>
+          </div>
+        </div>
+      </div>
+    </header>
+  );
+}
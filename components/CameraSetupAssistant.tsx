@@ -0,0 +1,109 @@
+"use client";
+
+import { ExerciseDefinition } from "@/lib/exerciseDefinitions";
+import {
+  CameraSetupCheck,
+  getSetupViews,
+  READY_CHECKS,
+  SetupView,
+} from "@/lib/cameraSetup";
+
+interface CameraSetupAssistantProps {
+  definition: ExerciseDefinition;
+  check: CameraSetupCheck | null; // Latest check, null until the first frame is checked
+  readyChecks: number;
+  target: SetupView;
+  onTargetChange: (target: SetupView) => void;
+  onSkip: () => void;
+}
+
+const VIEW_LABELS: Record<SetupView, string> = {
+  side: "Side-on",
+  front: "Front-on",
+};
+
+export default function CameraSetupAssistant({
+  definition,
+  check,
+  readyChecks,
+  target,
+  onTargetChange,
+  onSkip,
+}: CameraSetupAssistantProps) {
+  const views = getSetupViews(definition);
+  const steps = [
+    { label: "Whole body in frame", done: !!check?.framed },
+    {
+      label: `Camera ${VIEW_LABELS[target].toLowerCase()}`,
+      done: !!check?.angled,
+    },
+    { label: "Camera level", done: !!check?.level },
+  ];
+
+  return (
+    <div className="p-4 bg-white border border-[#6f29a4]/30 rounded-xl space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h4 className="font-medium text-gray-900">📐 Camera setup</h4>
+          <p className="text-xs text-gray-500 mt-1">
+            Stand in your starting position. Analysis starts once the framing
+            holds for a moment.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {views.length > 1 &&
+            views.map((view) => (
+              <button
+                key={view}
+                onClick={() => onTargetChange(view)}
+                className={`px-3 py-1 text-xs rounded-full border ${
+                  view === target
+                    ? "bg-[#6f29a4] border-[#6f29a4] text-white"
+                    : "bg-white border-gray-300 text-gray-700 hover:bg-gray-50"
+                }`}
+              >
+                {VIEW_LABELS[view]}
+              </button>
+            ))}
+          <button
+            onClick={onSkip}
+            className="text-xs text-gray-500 hover:text-gray-900 underline"
+          >
+            Skip setup
+          </button>
+        </div>
+      </div>
+
+      <ul className="flex flex-wrap gap-2">
+        {steps.map((step) => (
+          <li
+            key={step.label}
+            className={`px-3 py-1 text-xs rounded-full ${
+              step.done
+                ? "bg-green-50 text-green-700"
+                : "bg-gray-100 text-gray-600"
+            }`}
+          >
+            {step.done ? "✓" : "○"} {step.label}
+          </li>
+        ))}
+      </ul>
+
+      {!check ? (
+        <p className="text-sm text-gray-600">Checking the camera...</p>
+      ) : check.status === "ready" ? (
+        <p className="text-sm text-green-700 font-medium">
+          Looks good, hold still ({readyChecks}/{READY_CHECKS})
+        </p>
+      ) : (
+        <ol className="space-y-1 list-decimal list-inside">
+          {check.instructions.map((instruction) => (
+            <li key={instruction} className="text-sm text-gray-900">
+              {instruction}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,564 @@
+"use client";
+
+import { useState } from "react";
+import {
+  ALL_PHASES,
+  ExerciseDefinition,
+  ExerciseRule,
+  JOINT_NAMES,
+  JointName,
+  RULE_METRIC_KINDS,
+  RuleMetric,
+  STANDARD_ANGLES,
+} from "@/lib/exerciseDefinitions";
+import {
+  createExerciseId,
+  deleteCustomExercise,
+  listCustomExercises,
+  saveCustomExercise,
+} from "@/lib/exerciseRegistry";
+import type { MovementPhase } from "@/lib/techniqueAnalysis";
+
+interface ExerciseEditorProps {
+  onSaved?: (definition: ExerciseDefinition) => void;
+  onDeleted?: (id: string) => void;
+}
+
+interface ExerciseDraft {
+  id: string | null; // null until the exercise has been saved
+  name: string;
+  posture: ExerciseDefinition["posture"];
+  bodyParts: JointName[];
+  primaryAngle: ExerciseDefinition["primaryAngle"];
+  rules: ExerciseRule[];
+  needsWork: string;
+  poor: string;
+  tips: string;
+}
+
+const METRIC_LABELS: Record<RuleMetric["kind"], string> = {
+  angle: "Joint angle (°)",
+  vertical_angle: "Lean from vertical (°)",
+  forward_lean: "Forward lean (°, back is negative)",
+  horizontal_distance: "Horizontal distance",
+  forward_offset: "Forward offset",
+  vertical_offset: "Height above",
+  vertical_distance: "Vertical distance",
+  vertical_ratio: "Height ratio",
+};
+
+const PHASE_LABELS: Record<MovementPhase, string> = {
+  setup: "Setup",
+  descent: "Descent",
+  bottom: "Bottom",
+  ascent: "Ascent",
+  lockout: "Lockout",
+};
+
+const ANGLE_NAMES = Object.keys(STANDARD_ANGLES);
+
+const EMPTY_DRAFT: ExerciseDraft = {
+  id: null,
+  name: "",
+  posture: "standing",
+  bodyParts: ["shoulder", "hip", "knee", "ankle"],
+  primaryAngle: { angle: "knee", lockoutAngle: 160, bottomAngle: 110 },
+  rules: [],
+  needsWork: "",
+  poor: "",
+  tips: "",
+};
+
+const inputClass =
+  "w-full px-3 py-2 text-sm text-gray-900 bg-white border border-gray-300 rounded-lg focus:outline-none focus:border-[#6f29a4]";
+
+/**
+ * Default metric for a metric kind, used when a rule's kind is changed
+ */
+function defaultMetric(kind: RuleMetric["kind"]): RuleMetric {
+  switch (kind) {
+    case "angle":
+      return { kind, angle: "knee" };
+    case "vertical_ratio":
+      return { kind, joints: ["hip", "knee", "ankle"] };
+    default:
+      return { kind, from: "hip", to: "shoulder" };
+  }
+}
+
+function toDraft(definition: ExerciseDefinition): ExerciseDraft {
+  return {
+    id: definition.id,
+    name: definition.name,
+    posture: definition.posture,
+    bodyParts: definition.analysisJoints,
+    primaryAngle: definition.primaryAngle,
+    rules: definition.rules,
+    needsWork: definition.feedback.needsWork.join("\n"),
+    poor: definition.feedback.poor.join("\n"),
+    tips: definition.tips.join("\n"),
+  };
+}
+
+function toLines(text: string): string[] {
+  return text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Build a definition from the form, or return the reason it can't be saved
+ */
+function toDefinition(draft: ExerciseDraft): ExerciseDefinition | string {
+  const name = draft.name.trim();
+  if (!name) {
+    return "Give the exercise a name";
+  }
+  const missingAngleJoints = STANDARD_ANGLES[draft.primaryAngle.angle].filter(
+    (joint) => !draft.bodyParts.includes(joint)
+  );
+  if (missingAngleJoints.length > 0) {
+    return `The ${draft.primaryAngle.angle} angle needs these body parts: ${missingAngleJoints.join(", ")}`;
+  }
+  if (draft.primaryAngle.bottomAngle >= draft.primaryAngle.lockoutAngle) {
+    return "The bottom angle must be smaller than the lockout angle";
+  }
+  if (draft.rules.some((rule) => !rule.message.trim() || rule.phases.length === 0)) {
+    return "Every rule needs a message and at least one phase";
+  }
+
+  return {
+    id: draft.id ?? createExerciseId(name),
+    name,
+    builtIn: false,
+    posture: draft.posture,
+    requiredKeypoints: draft.bodyParts.flatMap((joint) =>
+      joint === "nose" ? ["nose"] : [`left_${joint}`, `right_${joint}`]
+    ),
+    analysisJoints: draft.bodyParts,
+    unanalyzableMessage: `Cannot analyze ${name.toLowerCase()} form - key body parts not visible`,
+    angles: STANDARD_ANGLES,
+    primaryAngle: draft.primaryAngle,
+    rules: draft.rules,
+    feedback: { needsWork: toLines(draft.needsWork), poor: toLines(draft.poor) },
+    tips: toLines(draft.tips),
+  };
+}
+
+export default function ExerciseEditor({ onSaved, onDeleted }: ExerciseEditorProps) {
+  const [draft, setDraft] = useState<ExerciseDraft>(EMPTY_DRAFT);
+  const [customExercises, setCustomExercises] = useState(listCustomExercises);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateDraft = (changes: Partial<ExerciseDraft>) => {
+    setDraft((prev) => ({ ...prev, ...changes }));
+  };
+
+  const updateRule = (index: number, changes: Partial<ExerciseRule>) => {
+    setDraft((prev) => ({
+      ...prev,
+      rules: prev.rules.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)),
+    }));
+  };
+
+  const toggleBodyPart = (joint: JointName) => {
+    updateDraft({
+      bodyParts: draft.bodyParts.includes(joint)
+        ? draft.bodyParts.filter((part) => part !== joint)
+        : [...draft.bodyParts, joint],
+    });
+  };
+
+  const addRule = () => {
+    updateDraft({
+      rules: [
+        ...draft.rules,
+        {
+          // Fixed for the rule's lifetime, so issues already saved in history keep pointing at it
+          id: `rule_${crypto.randomUUID().slice(0, 8)}`,
+          phases: [...ALL_PHASES],
+          metric: defaultMetric("vertical_angle"),
+          comparison: "above",
+          threshold: 45,
+          penalty: 0.2,
+          message: "",
+        },
+      ],
+    });
+  };
+
+  const handleSave = () => {
+    const definition = toDefinition(draft);
+    if (typeof definition === "string") {
+      setError(definition);
+      return;
+    }
+
+    try {
+      saveCustomExercise(definition);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save exercise");
+      return;
+    }
+    setError(null);
+    setDraft(EMPTY_DRAFT);
+    setCustomExercises(listCustomExercises());
+    onSaved?.(definition);
+  };
+
+  const handleDelete = (id: string) => {
+    deleteCustomExercise(id);
+    setCustomExercises(listCustomExercises());
+    if (draft.id === id) {
+      setDraft(EMPTY_DRAFT);
+    }
+    onDeleted?.(id);
+  };
+
+  const renderJointSelect = (value: JointName, onChange: (joint: JointName) => void) => (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value as JointName)}
+      className={inputClass}
+    >
+      {JOINT_NAMES.map((joint) => (
+        <option key={joint} value={joint}>
+          {joint}
+        </option>
+      ))}
+    </select>
+  );
+
+  const renderMetricFields = (rule: ExerciseRule, index: number) => {
+    const { metric } = rule;
+    switch (metric.kind) {
+      case "angle":
+        return (
+          <select
+            value={metric.angle}
+            onChange={(e) => updateRule(index, { metric: { ...metric, angle: e.target.value } })}
+            className={inputClass}
+          >
+            {ANGLE_NAMES.map((angle) => (
+              <option key={angle} value={angle}>
+                {angle}
+              </option>
+            ))}
+          </select>
+        );
+      case "vertical_ratio":
+        return (
+          <div className="grid grid-cols-3 gap-2">
+            {metric.joints.map((joint, jointIndex) =>
+              <div key={jointIndex}>
+                {renderJointSelect(joint, (value) => {
+                  const joints = [...metric.joints] as typeof metric.joints;
+                  joints[jointIndex] = value;
+                  updateRule(index, { metric: { ...metric, joints } });
+                })}
+              </div>
+            )}
+          </div>
+        );
+      default:
+        return (
+          <div className="grid grid-cols-2 gap-2">
+            {renderJointSelect(metric.from, (from) => updateRule(index, { metric: { ...metric, from } }))}
+            {renderJointSelect(metric.to, (to) => updateRule(index, { metric: { ...metric, to } }))}
+          </div>
+        );
+    }
+  };
+
+  return (
+    <div className="w-full max-w-4xl mx-auto space-y-8">
+      {/* Saved Custom Exercises */}
+      {customExercises.length > 0 && (
+        <div className="p-6 bg-white border border-gray-200 rounded-2xl">
+          <h4 className="font-semibold mb-4 text-gray-900">Your Exercises</h4>
+          <ul className="space-y-2">
+            {customExercises.map((exercise) => (
+              <li
+                key={exercise.id}
+                className="flex items-center justify-between p-3 bg-gray-50 border border-gray-200 rounded-lg"
+              >
+                <span className="text-sm font-medium text-gray-900">{exercise.name}</span>
+                <div className="space-x-3">
+                  <button
+                    onClick={() => {
+                      setError(null);
+                      setDraft(toDraft(exercise));
+                    }}
+                    className="text-xs text-[#6f29a4] hover:underline"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => handleDelete(exercise.id)}
+                    className="text-xs text-red-600 hover:underline"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="p-6 bg-white border border-gray-200 rounded-2xl space-y-6">
+        <h4 className="font-semibold text-gray-900">
+          {draft.id ? `Edit ${draft.name}` : "New Exercise"}
+        </h4>
+
+        {/* Basics */}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <label className="block">
+            <span className="text-sm text-gray-700 font-medium">Name</span>
+            <input
+              value={draft.name}
+              onChange={(e) => updateDraft({ name: e.target.value })}
+              placeholder="e.g. Goblet Squat"
+              className={`${inputClass} mt-1`}
+            />
+          </label>
+          <label className="block">
+            <span className="text-sm text-gray-700 font-medium">Body position</span>
+            <select
+              value={draft.posture}
+              onChange={(e) => updateDraft({ posture: e.target.value as ExerciseDraft["posture"] })}
+              className={`${inputClass} mt-1`}
+            >
+              <option value="standing">Standing</option>
+              <option value="lying">Lying on a bench</option>
+            </select>
+          </label>
+        </div>
+
+        {/* Required Body Parts */}
+        <div>
+          <p className="text-sm text-gray-700 font-medium mb-2">Body parts that must be visible</p>
+          <div className="flex flex-wrap gap-3">
+            {JOINT_NAMES.map((joint) => (
+              <label key={joint} className="flex items-center space-x-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={draft.bodyParts.includes(joint)}
+                  onChange={() => toggleBodyPart(joint)}
+                  className="w-4 h-4 text-[#6f29a4] focus:ring-[#6f29a4] border-gray-300 rounded"
+                />
+                <span>{joint}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        {/* Rep Tracking */}
+        <div>
+          <p className="text-sm text-gray-700 font-medium mb-2">Rep tracking</p>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 items-end">
+            <label className="block">
+              <span className="text-xs text-gray-500">Joint angle</span>
+              <select
+                value={draft.primaryAngle.angle}
+                onChange={(e) =>
+                  updateDraft({ primaryAngle: { ...draft.primaryAngle, angle: e.target.value } })
+                }
+                className={`${inputClass} mt-1`}
+              >
+                {ANGLE_NAMES.map((angle) => (
+                  <option key={angle} value={angle}>
+                    {angle}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="block">
+              <span className="text-xs text-gray-500">Lockout at or above (°)</span>
+              <input
+                type="number"
+                value={draft.primaryAngle.lockoutAngle}
+                onChange={(e) =>
+                  updateDraft({ primaryAngle: { ...draft.primaryAngle, lockoutAngle: Number(e.target.value) } })
+                }
+                className={`${inputClass} mt-1`}
+              />
+            </label>
+            <label className="block">
+              <span className="text-xs text-gray-500">Bottom at or below (°)</span>
+              <input
+                type="number"
+                value={draft.primaryAngle.bottomAngle}
+                onChange={(e) =>
+                  updateDraft({ primaryAngle: { ...draft.primaryAngle, bottomAngle: Number(e.target.value) } })
+                }
+                className={`${inputClass} mt-1`}
+              />
+            </label>
+            <label className="flex items-center space-x-2 text-sm text-gray-700 pb-2">
+              <input
+                type="checkbox"
+                checked={!!draft.primaryAngle.bottomIsSetup}
+                onChange={(e) =>
+                  updateDraft({ primaryAngle: { ...draft.primaryAngle, bottomIsSetup: e.target.checked } })
+                }
+                className="w-4 h-4 text-[#6f29a4] focus:ring-[#6f29a4] border-gray-300 rounded"
+              />
+              <span>Starts from the bottom</span>
+            </label>
+          </div>
+        </div>
+
+        {/* Rules */}
+        <div>
+          <p className="text-sm text-gray-700 font-medium mb-1">Form checks</p>
+          <p className="text-xs text-gray-500 mb-3">
+            Distances are measured in torso lengths (shoulder to hip), angles in degrees
+          </p>
+          <div className="space-y-4">
+            {draft.rules.map((rule, index) => (
+              <div key={rule.id} className="p-4 bg-gray-50 border border-gray-200 rounded-xl space-y-3">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  <select
+                    value={rule.metric.kind}
+                    onChange={(e) =>
+                      updateRule(index, { metric: defaultMetric(e.target.value as RuleMetric["kind"]) })
+                    }
+                    className={inputClass}
+                  >
+                    {RULE_METRIC_KINDS.map((kind) => (
+                      <option key={kind} value={kind}>
+                        {METRIC_LABELS[kind]}
+                      </option>
+                    ))}
+                  </select>
+                  {renderMetricFields(rule, index)}
+                </div>
+                <div className="grid grid-cols-3 gap-3">
+                  <select
+                    value={rule.comparison}
+                    onChange={(e) =>
+                      updateRule(index, { comparison: e.target.value as ExerciseRule["comparison"] })
+                    }
+                    className={inputClass}
+                  >
+                    <option value="above">Flag above</option>
+                    <option value="below">Flag below</option>
+                  </select>
+                  <input
+                    type="number"
+                    step="any"
+                    value={rule.threshold}
+                    onChange={(e) => updateRule(index, { threshold: Number(e.target.value) })}
+                    title="Threshold"
+                    className={inputClass}
+                  />
+                  <input
+                    type="number"
+                    step="0.05"
+                    min="0"
+                    max="1"
+                    value={rule.penalty}
+                    onChange={(e) => updateRule(index, { penalty: Number(e.target.value) })}
+                    title="Score penalty"
+                    className={inputClass}
+                  />
+                </div>
+                <div className="flex flex-wrap gap-3">
+                  {ALL_PHASES.map((phase) => (
+                    <label key={phase} className="flex items-center space-x-2 text-xs text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={rule.phases.includes(phase)}
+                        onChange={() =>
+                          updateRule(index, {
+                            phases: rule.phases.includes(phase)
+                              ? rule.phases.filter((p) => p !== phase)
+                              : [...rule.phases, phase],
+                          })
+                        }
+                        className="w-4 h-4 text-[#6f29a4] focus:ring-[#6f29a4] border-gray-300 rounded"
+                      />
+                      <span>{PHASE_LABELS[phase]}</span>
+                    </label>
+                  ))}
+                </div>
+                <div className="flex gap-3">
+                  <input
+                    value={rule.message}
+                    onChange={(e) => updateRule(index, { message: e.target.value })}
+                    placeholder="Message shown when this check fails, {measured} and {threshold} are filled in"
+                    className={inputClass}
+                  />
+                  <button
+                    onClick={() =>
+                      updateDraft({ rules: draft.rules.filter((_, i) => i !== index) })
+                    }
+                    className="px-3 text-xs text-red-600 hover:underline"
+                  >
+                    Remove
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+          <button
+            onClick={addRule}
+            className="mt-3 px-4 py-2 text-sm text-[#6f29a4] border border-[#6f29a4] rounded-lg hover:bg-[#6f29a4]/5 transition-colors"
+          >
+            Add check
+          </button>
+        </div>
+
+        {/* Feedback and Tips */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {(
+            [
+              ["needsWork", "Feedback when form needs work"],
+              ["poor", "Extra feedback when form is poor"],
+              ["tips", "Tips"],
+            ] as const
+          ).map(([field, label]) => (
+            <label key={field} className="block">
+              <span className="text-sm text-gray-700 font-medium">{label}</span>
+              <textarea
+                value={draft[field]}
+                onChange={(e) => updateDraft({ [field]: e.target.value })}
+                placeholder="One per line"
+                rows={4}
+                className={`${inputClass} mt-1`}
+              />
+            </label>
+          ))}
+        </div>
+
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">
+            {error}
+          </div>
+        )}
+
+        <div className="flex gap-3">
+          <button
+            onClick={handleSave}
+            className="px-6 py-3 bg-[#6f29a4] text-white rounded-lg hover:bg-[#6f29a4]/90 transition-colors font-medium"
+          >
+            {draft.id ? "Save Changes" : "Save Exercise"}
+          </button>
+          {draft.id && (
+            <button
+              onClick={() => {
+                setError(null);
+                setDraft(EMPTY_DRAFT);
+              }}
+              className="px-6 py-3 text-gray-900 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors font-medium"
+            >
+              Cancel
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
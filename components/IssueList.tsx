@@ -0,0 +1,62 @@
+"use client";
+
+import {
+  formatIssueMessage,
+  IssueSeverity,
+  TechniqueIssue,
+} from "@/lib/techniqueIssues";
+
+interface IssueListProps {
+  issues: TechniqueIssue[];
+  compact?: boolean; // Smaller text and no measurements, for lists of reps or entries
+}
+
+export const SEVERITY_DOTS: Record<IssueSeverity, string> = {
+  critical: "bg-red-500",
+  warning: "bg-amber-500",
+  info: "bg-gray-400",
+};
+
+const UNIT_LABELS = {
+  degrees: "°",
+  torso_lengths: " torso lengths",
+  ratio: "",
+};
+
+function formatMeasurement(issue: TechniqueIssue): string | null {
+  if (issue.measured === undefined || issue.threshold === undefined) {
+    return null;
+  }
+  const unit = issue.unit ? UNIT_LABELS[issue.unit] : "";
+  const digits = issue.unit === "degrees" ? 0 : 2;
+  return `Measured ${issue.measured.toFixed(digits)}${unit}, limit ${issue.threshold.toFixed(digits)}${unit}`;
+}
+
+export default function IssueList({ issues, compact = false }: IssueListProps) {
+  return (
+    <ul className={compact ? "space-y-1" : "space-y-2"}>
+      {issues.map((issue) => {
+        const measurement = compact ? null : formatMeasurement(issue);
+        return (
+          <li
+            key={issue.code}
+            className={`flex items-start gap-2 text-gray-700 ${compact ? "text-xs" : "text-sm"}`}
+            title={issue.code}
+          >
+            <span
+              className={`mt-1.5 w-2 h-2 shrink-0 rounded-full ${SEVERITY_DOTS[issue.severity]}`}
+            />
+            <span>
+              {formatIssueMessage(issue)}
+              {measurement && (
+                <span className="block text-xs text-gray-500">
+                  {measurement}
+                </span>
+              )}
+            </span>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
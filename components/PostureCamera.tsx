@@ -1,31 +1,196 @@
 "use client";
 
-import { useRef, useEffect, useState, useCallback } from "react";
 import {
-  analyzePosture,
-  captureImageFromVideo,
+  MouseEvent,
+  useRef,
+  useEffect,
+  useState,
+  useCallback,
+  useMemo,
+} from "react";
+import {
+  analyzePoseEstimate,
+  analyzePoseStream,
+  createPoseStream,
   PostureAnalysisResult,
   getExerciseTips,
-} from "@/lib/roboflow";
+} from "@/lib/postureAnalysis";
+import {
+  DetectedPerson,
+  getPoseProvider,
+  POSE_PROVIDERS,
+  PoseProviderId,
+} from "@/lib/poseProvider";
+import {
+  createLifterTracker,
+  getDetectedPeople,
+  lockOntoPerson,
+  trackLifter,
+  unlockLifter,
+} from "@/lib/lifterTracking";
+import { toImagePoint } from "@/lib/skeletonDrawing";
+import { BarPathPoint, extendBarTrail } from "@/lib/barPath";
+import { getCameraGuidance } from "@/lib/symmetryAnalysis";
+import {
+  CameraSetupCheck,
+  checkCameraSetup,
+  createCameraSetup,
+  SETUP_CHECK_INTERVAL_MS,
+  SetupView,
+  updateCameraSetup,
+} from "@/lib/cameraSetup";
+import {
+  createRepTracker,
+  KeypointFrame,
+  updateRepTracker,
+} from "@/lib/repDetection";
+import {
+  addRecognitionFrame,
+  isRecognizable,
+  recognizeExercise,
+} from "@/lib/exerciseRecognition";
+import type { ExerciseId } from "@/lib/exerciseDefinitions";
+import { getPoseErrorMessage, isFatalPoseError } from "@/lib/poseErrors";
+import { getExerciseDefinition } from "@/lib/exerciseRegistry";
+import {
+  createThumbnail,
+  recordSessionEntry,
+  saveSessionRecording,
+  startSession,
+  WorkoutSession,
+} from "@/lib/sessionStore";
+import {
+  isRecordingSupported,
+  SessionRecorder,
+  startRecording,
+} from "@/lib/sessionRecorder";
+import {
+  beginRequest,
+  canStartRequest,
+  completeRequest,
+  createFrameScheduler,
+  createMotionDetector,
+  failRequest,
+  FrameSchedulerStats,
+  getSchedulerStats,
+  scheduleNextFrame,
+} from "@/lib/frameScheduler";
+import {
+  cancelCues,
+  createVoiceCueState,
+  DEFAULT_VOICE_CUE_SETTINGS,
+  loadVoiceCueSettings,
+  saveVoiceCueSettings,
+  selectVoiceCue,
+  speakCue,
+  VoiceCueSettings,
+} from "@/lib/voiceCues";
+import IssueList from "@/components/IssueList";
+import RepCounter from "@/components/RepCounter";
+import CameraSetupAssistant from "@/components/CameraSetupAssistant";
+import SkeletonOverlay from "@/components/SkeletonOverlay";
+import VoiceCueControls from "@/components/VoiceCueControls";
+
+// The preview is mirrored, so a lifter facing right in the analyzed frame appears to face left
+const PREVIEW_FACING = { left: "right", right: "left" } as const;
+
+// Recognized movement must be at least this clear before the analyzer is switched automatically
+const AUTO_SELECT_CONFIDENCE = 0.55;
 
 interface PostureCameraProps {
-  selectedExercise: "squat" | "bench" | "deadlift";
+  selectedExercise: ExerciseId;
   onAnalysisResult?: (result: PostureAnalysisResult) => void;
   analysisHistory?: PostureAnalysisResult[];
+  onExerciseChange?: (exercise: ExerciseId) => void;
 }
 
 export default function PostureCamera({
   selectedExercise,
   onAnalysisResult,
   analysisHistory = [],
+  onExerciseChange,
 }: PostureCameraProps) {
   const videoRef = useRef<HTMLVideoElement>(null);
   const [isStreamActive, setIsStreamActive] = useState(false);
-  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [inFlightCount, setInFlightCount] = useState(0);
+  const [schedulerStats, setSchedulerStats] =
+    useState<FrameSchedulerStats | null>(null);
   const [analysisResult, setAnalysisResult] =
     useState<PostureAnalysisResult | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [autoAnalyze, setAutoAnalyze] = useState(false);
+  const [poseProviderId, setPoseProviderId] =
+    useState<PoseProviderId>("roboflow");
+  const [repState, setRepState] = useState(() =>
+    createRepTracker(selectedExercise)
+  );
+  // Read while analyzing, so a finished rep can be stored with the frame that completed it
+  const repStateRef = useRef(repState);
+  const [recognitionFrames, setRecognitionFrames] = useState<KeypointFrame[]>(
+    []
+  );
+  const [autoDetectExercise, setAutoDetectExercise] = useState(false);
+  const [showSkeleton, setShowSkeleton] = useState(true);
+  const [voiceSettings, setVoiceSettings] = useState<VoiceCueSettings>(
+    DEFAULT_VOICE_CUE_SETTINGS
+  );
+  const voiceCueStateRef = useRef(createVoiceCueState());
+  const [canRecord, setCanRecord] = useState(false);
+  const [recordSession, setRecordSession] = useState(false);
+  // Started with the first analysis of each exercise, ended when the camera stops or the exercise changes
+  const sessionRef = useRef<Promise<WorkoutSession> | null>(null);
+  // Records alongside the session and is saved to it when the session ends
+  const recorderRef = useRef<SessionRecorder | null>(null);
+  const schedulerRef = useRef(createFrameScheduler());
+  // Bumped whenever the camera stops, so responses for an old stream are dropped
+  const streamGenerationRef = useRef(0);
+  // Keypoint smoothing and issue persistence across the frames of one set
+  const poseStreamRef = useRef(createPoseStream());
+  // Which of the people in view is the lifter, followed from frame to frame
+  const lifterTrackerRef = useRef(createLifterTracker());
+  const [people, setPeople] = useState<DetectedPerson[]>([]);
+  const [isLifterLocked, setIsLifterLocked] = useState(false);
+  // Recent bar positions, drawn over the preview
+  const [barTrail, setBarTrail] = useState<BarPathPoint[]>([]);
+  // Framing is checked before each set, and analysis only runs once it holds
+  const [setupState, setSetupState] = useState(createCameraSetup);
+  const [setupCheck, setSetupCheck] = useState<CameraSetupCheck | null>(null);
+  const [setupView, setSetupView] = useState<SetupView>("side");
+  const isAnalyzing = inFlightCount > 0;
+
+  // Start counting a new set from the first rep
+  const resetRepTracker = useCallback(() => {
+    repStateRef.current = createRepTracker(selectedExercise);
+    setRepState(repStateRef.current);
+  }, [selectedExercise]);
+
+  const resetCameraSetup = useCallback(() => {
+    setSetupState(createCameraSetup());
+    setSetupCheck(null);
+  }, []);
+
+  // Stop recording and attach the video to the current session, if anything was analyzed
+  const finishRecording = useCallback(() => {
+    const recorder = recorderRef.current;
+    const session = sessionRef.current;
+    recorderRef.current = null;
+    if (!recorder) return;
+
+    recorder
+      .stop()
+      .then(async (video) => {
+        if (!session) return;
+        const { id } = await session;
+        await saveSessionRecording({
+          sessionId: id,
+          startTime: recorder.startTime,
+          duration: Date.now() - recorder.startTime,
+          mimeType: recorder.mimeType,
+          video,
+        });
+      })
+      .catch((err) => console.error("Failed to save recording:", err));
+  }, []);
 
   // Start camera stream
   const startCamera = useCallback(async () => {
@@ -51,51 +216,319 @@ export default function PostureCamera({
 
   // Stop camera stream
   const stopCamera = useCallback(() => {
+    finishRecording();
     if (videoRef.current?.srcObject) {
       const stream = videoRef.current.srcObject as MediaStream;
       stream.getTracks().forEach((track) => track.stop());
       videoRef.current.srcObject = null;
     }
     setIsStreamActive(false);
-  }, []);
+    setRecognitionFrames([]);
+    streamGenerationRef.current += 1;
+    schedulerRef.current = createFrameScheduler();
+    setSchedulerStats(null);
+    poseStreamRef.current = createPoseStream();
+    lifterTrackerRef.current = createLifterTracker();
+    setPeople([]);
+    setIsLifterLocked(false);
+    setBarTrail([]);
+    resetCameraSetup();
+    sessionRef.current = null;
+    cancelCues();
+  }, [finishRecording, resetCameraSetup]);
 
   // Analyze current frame
   const analyzeCurrentFrame = useCallback(async () => {
     if (!videoRef.current || !isStreamActive) return;
 
-    setIsAnalyzing(true);
+    const timestamp = Date.now();
+    const generation = streamGenerationRef.current;
+    const request = beginRequest(schedulerRef.current);
+    schedulerRef.current = request.state;
+    setInFlightCount(request.state.inFlight);
     setError(null);
 
     try {
-      const base64Image = captureImageFromVideo(videoRef.current);
-      const result = await analyzePosture(
-        base64Image,
-        "base64",
-        selectedExercise
+      const pose = await getPoseProvider(poseProviderId).estimatePose(
+        videoRef.current
       );
+      // The camera stopped while this frame was being analyzed
+      if (generation !== streamGenerationRef.current) return;
+
+      const completion = completeRequest(
+        schedulerRef.current,
+        request.requestId,
+        timestamp
+      );
+      schedulerRef.current = completion.state;
+      setSchedulerStats(getSchedulerStats(completion.state));
+      // A newer frame has already been shown, so this one would jump backwards in time
+      if (completion.isStale) return;
+
+      // Only the lifter is analyzed, whoever else walks into view
+      const tracked = trackLifter(lifterTrackerRef.current, pose, timestamp);
+      lifterTrackerRef.current = tracked.state;
+      setPeople(getDetectedPeople(pose));
+
+      // Single frames analyzed by hand are judged on their own
+      let result: PostureAnalysisResult;
+      if (autoAnalyze) {
+        const analysis = analyzePoseStream(
+          poseStreamRef.current,
+          tracked.pose,
+          timestamp,
+          selectedExercise
+        );
+        poseStreamRef.current = analysis.state;
+        result = analysis.result;
+      } else {
+        result = analyzePoseEstimate(tracked.pose, selectedExercise);
+      }
+
+      const { bar } = result;
+      if (bar) {
+        setBarTrail((prev) => extendBarTrail(prev, { ...bar, timestamp }));
+      }
+
+      if (result.keypoints) {
+        const frame = {
+          timestamp,
+          keypoints: result.keypoints,
+          imageSize: result.imageSize,
+          bar,
+        };
+        const previousReps = repStateRef.current.reps;
+        const nextRepState = updateRepTracker(repStateRef.current, frame);
+        repStateRef.current = nextRepState;
+        setRepState(nextRepState);
+        setRecognitionFrames((prev) => addRecognitionFrame(prev, frame));
+        if (nextRepState.reps.length > previousReps.length) {
+          const completedRep = nextRepState.reps[nextRepState.reps.length - 1];
+          result = { ...result, completedRep };
+        }
+      }
 
       setAnalysisResult(result);
       onAnalysisResult?.(result);
+
+      const { state: cueState, cue } = selectVoiceCue(
+        voiceCueStateRef.current,
+        result.detectedIssues,
+        timestamp
+      );
+      if (cue && speakCue(cue, voiceSettings)) {
+        voiceCueStateRef.current = cueState;
+      }
+
+      // History is a bonus, so storage failures don't interrupt the analysis
+      if (!sessionRef.current) {
+        sessionRef.current = startSession(
+          selectedExercise,
+          createThumbnail(videoRef.current)
+        );
+      }
+      sessionRef.current
+        .then((session) => recordSessionEntry(session.id, result, timestamp))
+        .catch((err) => console.error("Failed to save session:", err));
     } catch (err) {
+      if (generation !== streamGenerationRef.current) return;
+      schedulerRef.current = failRequest(schedulerRef.current);
       console.error("Analysis error:", err);
-      setError("Failed to analyze posture. Please try again.");
+      setError(getPoseErrorMessage(err));
+      // Retrying every frame won't fix a bad key or a lost connection
+      if (isFatalPoseError(err)) {
+        setAutoAnalyze(false);
+      }
     } finally {
-      setIsAnalyzing(false);
+      setInFlightCount(schedulerRef.current.inFlight);
     }
-  }, [isStreamActive, onAnalysisResult, selectedExercise]);
+  }, [
+    isStreamActive,
+    autoAnalyze,
+    onAnalysisResult,
+    selectedExercise,
+    poseProviderId,
+    voiceSettings,
+  ]);
 
-  // Auto-analyze effect
+  // Saved voice settings and recording support are only known in the browser
   useEffect(() => {
-    if (!autoAnalyze || !isStreamActive) return;
+    setVoiceSettings(loadVoiceCueSettings());
+    setCanRecord(isRecordingSupported());
+  }, []);
+
+  // Tapping a person in the preview locks analysis onto them
+  const handlePreviewClick = (event: MouseEvent<HTMLDivElement>) => {
+    const imageSize = analysisResult?.imageSize;
+    if (!isStreamActive || !imageSize || people.length === 0) return;
+
+    const rect = event.currentTarget.getBoundingClientRect();
+    const point = toImagePoint(
+      { x: event.clientX - rect.left, y: event.clientY - rect.top },
+      { width: rect.width, height: rect.height },
+      { imageSize, mirrored: true }
+    );
+    const next = lockOntoPerson(
+      lifterTrackerRef.current,
+      people,
+      point,
+      Date.now()
+    );
+    if (next === lifterTrackerRef.current) return;
+
+    lifterTrackerRef.current = next;
+    setIsLifterLocked(true);
+    setBarTrail([]);
+    // Smoothing from the previous person would drag the skeleton across the frame
+    poseStreamRef.current = createPoseStream();
+  };
+
+  const handleUnlockLifter = () => {
+    lifterTrackerRef.current = unlockLifter(lifterTrackerRef.current);
+    setIsLifterLocked(false);
+  };
+
+  const handleVoiceSettingsChange = (settings: VoiceCueSettings) => {
+    if (settings.muted) {
+      cancelCues();
+    }
+    setVoiceSettings(settings);
+    saveVoiceCueSettings(settings);
+  };
 
-    const interval = setInterval(() => {
-      if (!isAnalyzing) {
+  // Each run of auto-analyze smooths its own stream of frames
+  useEffect(() => {
+    poseStreamRef.current = createPoseStream();
+  }, [autoAnalyze]);
+
+  // Check the framing every so often until it's good enough to analyze
+  useEffect(() => {
+    if (!isStreamActive || setupState.isArmed) return;
+
+    let cancelled = false;
+    let timeout: ReturnType<typeof setTimeout>;
+    const detectMotion = createMotionDetector();
+    const check = async () => {
+      const definition = getExerciseDefinition(selectedExercise);
+      if (!videoRef.current || !definition) return;
+
+      // Checks go through the scheduler like analyzed frames, so they share its rate limit budget
+      const next = scheduleNextFrame(
+        schedulerRef.current,
+        detectMotion(videoRef.current)
+      );
+      const request = beginRequest(next.state);
+      schedulerRef.current = request.state;
+      const startedAt = Date.now();
+      try {
+        const pose = await getPoseProvider(poseProviderId).estimatePose(
+          videoRef.current
+        );
+        if (cancelled) return;
+        schedulerRef.current = completeRequest(
+          schedulerRef.current,
+          request.requestId,
+          startedAt
+        ).state;
+        const result = checkCameraSetup(pose, definition, setupView);
+        setSetupCheck(result);
+        setSetupState((prev) => updateCameraSetup(prev, result));
+      } catch (err) {
+        if (cancelled) return;
+        schedulerRef.current = failRequest(schedulerRef.current);
+        console.error("Camera setup error:", err);
+        setError(getPoseErrorMessage(err));
+        if (isFatalPoseError(err)) return;
+      }
+      timeout = setTimeout(
+        check,
+        Math.max(SETUP_CHECK_INTERVAL_MS, next.delayMs)
+      );
+    };
+    check();
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [
+    isStreamActive,
+    setupState.isArmed,
+    selectedExercise,
+    setupView,
+    poseProviderId,
+  ]);
+
+  // Auto-analyze, sampling faster while the lifter moves
+  useEffect(() => {
+    if (!autoAnalyze || !isStreamActive || !setupState.isArmed) return;
+
+    const detectMotion = createMotionDetector();
+    let timeout: ReturnType<typeof setTimeout>;
+    const tick = () => {
+      const motion = videoRef.current ? detectMotion(videoRef.current) : null;
+      const next = scheduleNextFrame(schedulerRef.current, motion);
+      schedulerRef.current = next.state;
+      if (canStartRequest(next.state)) {
         analyzeCurrentFrame();
       }
-    }, 3000); // Analyze every 3 seconds
+      timeout = setTimeout(tick, next.delayMs);
+    };
+    tick();
+
+    return () => clearTimeout(timeout);
+  }, [autoAnalyze, isStreamActive, setupState.isArmed, analyzeCurrentFrame]);
+
+  const recognition = useMemo(
+    () => recognizeExercise(recognitionFrames),
+    [recognitionFrames]
+  );
+  const detectedExercise =
+    recognition.exercise !== "unknown" &&
+    recognition.exercise !== selectedExercise &&
+    isRecognizable(selectedExercise)
+      ? getExerciseDefinition(recognition.exercise)
+      : undefined;
 
-    return () => clearInterval(interval);
-  }, [autoAnalyze, isStreamActive, isAnalyzing, analyzeCurrentFrame]);
+  // Switch the analyzer to the recognized lift
+  useEffect(() => {
+    if (
+      autoDetectExercise &&
+      detectedExercise &&
+      recognition.confidence >= AUTO_SELECT_CONFIDENCE
+    ) {
+      onExerciseChange?.(detectedExercise.id);
+    }
+  }, [autoDetectExercise, detectedExercise, recognition, onExerciseChange]);
+
+  // Start a fresh set when the exercise changes
+  useEffect(() => {
+    finishRecording();
+    resetRepTracker();
+    sessionRef.current = null;
+    voiceCueStateRef.current = createVoiceCueState();
+    poseStreamRef.current = createPoseStream();
+    setBarTrail([]);
+    resetCameraSetup();
+  }, [selectedExercise, finishRecording, resetRepTracker, resetCameraSetup]);
+
+  // Record while the camera runs, restarting for each new session
+  useEffect(() => {
+    const stream = videoRef.current?.srcObject;
+    if (!recordSession || !isStreamActive || !(stream instanceof MediaStream)) {
+      finishRecording();
+      return;
+    }
+    if (!recorderRef.current) {
+      try {
+        recorderRef.current = startRecording(stream);
+      } catch (err) {
+        console.error("Failed to start recording:", err);
+        setError("Recording isn't available in this browser.");
+        setRecordSession(false);
+      }
+    }
+  }, [recordSession, isStreamActive, selectedExercise, finishRecording]);
 
   // Cleanup on unmount
   useEffect(() => {
@@ -105,11 +538,31 @@ export default function PostureCamera({
   }, [stopCamera]);
 
   const exerciseTips = getExerciseTips(selectedExercise);
+  const exerciseDefinition = getExerciseDefinition(selectedExercise);
+  const exerciseName = exerciseDefinition?.name ?? selectedExercise;
+  const tracksBar = !!exerciseDefinition?.barPath;
 
   return (
     <div className="w-full max-w-6xl mx-auto space-y-8">
       {/* Camera Controls */}
       <div className="flex flex-wrap gap-4 justify-center">
+        <label className="flex items-center space-x-2 bg-white border border-gray-300 px-4 py-3 rounded-lg">
+          <span className="text-sm text-gray-700 font-medium">Backend</span>
+          <select
+            value={poseProviderId}
+            onChange={(e) =>
+              setPoseProviderId(e.target.value as PoseProviderId)
+            }
+            title={getPoseProvider(poseProviderId).description}
+            className="text-sm text-gray-900 bg-transparent focus:outline-none"
+          >
+            {POSE_PROVIDERS.map((provider) => (
+              <option key={provider.id} value={provider.id}>
+                {provider.label}
+              </option>
+            ))}
+          </select>
+        </label>
         {!isStreamActive ? (
           <button
             onClick={startCamera}
@@ -131,7 +584,7 @@ export default function PostureCamera({
             </button>
             <button
               onClick={analyzeCurrentFrame}
-              disabled={isAnalyzing}
+              disabled={isAnalyzing || !setupState.isArmed}
               className="px-6 py-3 bg-[#6f29a4] text-white rounded-lg hover:bg-[#6f29a4]/90 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors font-medium"
             >
               {isAnalyzing ? "Analyzing..." : "Analyze Posture"}
@@ -141,12 +594,54 @@ export default function PostureCamera({
                 type="checkbox"
                 checked={autoAnalyze}
                 onChange={(e) => setAutoAnalyze(e.target.checked)}
+                disabled={!setupState.isArmed}
                 className="w-4 h-4 text-[#6f29a4] focus:ring-[#6f29a4] border-gray-300 rounded"
               />
               <span className="text-sm text-gray-700 font-medium">
                 Auto-analyze
               </span>
             </label>
+            <label className="flex items-center space-x-2 bg-white border border-gray-300 px-4 py-3 rounded-lg">
+              <input
+                type="checkbox"
+                checked={showSkeleton}
+                onChange={(e) => setShowSkeleton(e.target.checked)}
+                className="w-4 h-4 text-[#6f29a4] focus:ring-[#6f29a4] border-gray-300 rounded"
+              />
+              <span className="text-sm text-gray-700 font-medium">
+                Skeleton
+              </span>
+            </label>
+            {canRecord && (
+              <label className="flex items-center space-x-2 bg-white border border-gray-300 px-4 py-3 rounded-lg">
+                <input
+                  type="checkbox"
+                  checked={recordSession}
+                  onChange={(e) => setRecordSession(e.target.checked)}
+                  className="w-4 h-4 text-[#6f29a4] focus:ring-[#6f29a4] border-gray-300 rounded"
+                />
+                <span className="text-sm text-gray-700 font-medium">
+                  {recordSession ? "🔴 Recording" : "Record"}
+                </span>
+              </label>
+            )}
+            <VoiceCueControls
+              settings={voiceSettings}
+              onChange={handleVoiceSettingsChange}
+            />
+            {onExerciseChange && (
+              <label className="flex items-center space-x-2 bg-white border border-gray-300 px-4 py-3 rounded-lg">
+                <input
+                  type="checkbox"
+                  checked={autoDetectExercise}
+                  onChange={(e) => setAutoDetectExercise(e.target.checked)}
+                  className="w-4 h-4 text-[#6f29a4] focus:ring-[#6f29a4] border-gray-300 rounded"
+                />
+                <span className="text-sm text-gray-700 font-medium">
+                  Detect exercise
+                </span>
+              </label>
+            )}
           </>
         )}
       </div>
@@ -158,6 +653,51 @@ export default function PostureCamera({
         </div>
       )}
 
+      {/* Camera Setup */}
+      {isStreamActive && !setupState.isArmed && exerciseDefinition && (
+        <CameraSetupAssistant
+          definition={exerciseDefinition}
+          check={setupCheck}
+          readyChecks={setupState.readyChecks}
+          target={setupView}
+          onTargetChange={(view) => {
+            setSetupView(view);
+            resetCameraSetup();
+          }}
+          onSkip={() => setSetupState((prev) => ({ ...prev, isArmed: true }))}
+        />
+      )}
+
+      {/* Nobody in Frame */}
+      {!error &&
+        isStreamActive &&
+        analysisResult &&
+        !analysisResult.keypoints?.length && (
+          <div className="p-4 bg-amber-50 border border-amber-200 text-amber-800 rounded-lg">
+            No person detected. Step into the frame so your whole body is
+            visible.
+          </div>
+        )}
+
+      {/* Exercise Mismatch Warning */}
+      {detectedExercise && !autoDetectExercise && (
+        <div className="flex flex-wrap items-center justify-between gap-3 p-4 bg-amber-50 border border-amber-200 text-amber-800 rounded-lg">
+          <span>
+            This looks like {detectedExercise.name.toLowerCase()} (
+            {Math.round(recognition.confidence * 100)}% confident), but{" "}
+            {exerciseName.toLowerCase()} is selected.
+          </span>
+          {onExerciseChange && (
+            <button
+              onClick={() => onExerciseChange(detectedExercise.id)}
+              className="px-4 py-2 text-sm bg-white border border-amber-300 rounded-lg hover:bg-amber-100 transition-colors font-medium"
+            >
+              Switch to {detectedExercise.name}
+            </button>
+          )}
+        </div>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Left Section: Cameras and History */}
         <div className="lg:col-span-2 space-y-6">
@@ -167,7 +707,10 @@ export default function PostureCamera({
             <div className="space-y-4">
               <h3 className="text-lg font-semibold text-black">Live Camera</h3>
               <div
+                onClick={handlePreviewClick}
                 className={`relative aspect-video bg-gray-900 rounded-xl overflow-hidden border-4 transition-all duration-300 ${
+                  people.length > 1 ? "cursor-pointer" : ""
+                } ${
                   analysisResult?.missingKeypoints
                     ? "border-red-400 shadow-red-200 shadow-lg"
                     : analysisResult?.isGoodPosture === false
@@ -184,12 +727,67 @@ export default function PostureCamera({
                   muted
                   className="w-full h-full object-cover scale-x-[-1]"
                 />
+                {showSkeleton &&
+                  isStreamActive &&
+                  analysisResult?.keypoints &&
+                  analysisResult.imageSize && (
+                    <SkeletonOverlay
+                      keypoints={analysisResult.keypoints}
+                      imageSize={analysisResult.imageSize}
+                      issues={analysisResult.detectedIssues}
+                      otherPeople={people
+                        .filter(
+                          (person) =>
+                            person.detectionId !== analysisResult.detectionId
+                        )
+                        .map((person) => person.box)}
+                      barPath={tracksBar ? barTrail : undefined}
+                      mirrored
+                    />
+                  )}
+                {isStreamActive && isLifterLocked ? (
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleUnlockLifter();
+                    }}
+                    className="absolute top-2 right-2 px-2 py-1 rounded-md bg-[#6f29a4] text-white text-xs hover:bg-[#6f29a4]/90"
+                  >
+                    🎯 Lifter locked • Unlock
+                  </button>
+                ) : (
+                  isStreamActive &&
+                  people.length > 1 && (
+                    <div className="absolute top-2 right-2 px-2 py-1 rounded-md bg-black/60 text-white text-xs pointer-events-none">
+                      {people.length} people in view • Tap the lifter
+                    </div>
+                  )
+                )}
+                {autoAnalyze && isStreamActive && schedulerStats && (
+                  <div className="absolute top-2 left-2 px-2 py-1 rounded-md bg-black/60 text-white text-xs">
+                    {schedulerStats.latencyMs !== null &&
+                      `${Math.round(schedulerStats.latencyMs)} ms • `}
+                    {schedulerStats.fps.toFixed(1)} fps •{" "}
+                    {schedulerStats.isMoving ? "moving" : "resting"}
+                  </div>
+                )}
+                {isStreamActive && setupState.isArmed && (
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      resetCameraSetup();
+                    }}
+                    className="absolute bottom-2 left-2 px-2 py-1 rounded-md bg-black/60 text-white text-xs hover:bg-black/70"
+                  >
+                    📐 Redo camera setup
+                  </button>
+                )}
                 {!isStreamActive && (
                   <div className="absolute inset-0 flex items-center justify-center text-white bg-black/20">
                     <p className="text-sm">Camera not active</p>
                   </div>
                 )}
-                {isAnalyzing && (
+                {isAnalyzing && !autoAnalyze && (
                   <div className="absolute inset-0 bg-black/60 flex items-center justify-center">
                     <div className="text-white text-center">
                       <div className="animate-spin w-6 h-6 border-2 border-white border-t-transparent rounded-full mx-auto mb-2"></div>
@@ -293,9 +891,16 @@ export default function PostureCamera({
 
         {/* Right Section: Analysis Results */}
         <div className="space-y-4">
-          <h3 className="text-lg font-semibold text-black">Analysis Results</h3>
+          <h3 className="text-lg font-semibold text-black">
+            {autoAnalyze ? "Set Tracking" : "Analysis Results"}
+          </h3>
 
-          {analysisResult ? (
+          {autoAnalyze ? (
+            <RepCounter
+              repState={repState}
+              onReset={resetRepTracker}
+            />
+          ) : analysisResult ? (
             <div className="space-y-4">
               {/* Posture Status */}
               <div
@@ -327,9 +932,25 @@ export default function PostureCamera({
                 </div>
                 <p className="text-sm mt-2 text-gray-600">
                   Confidence: {Math.round(analysisResult.confidence * 100)}%
+                  {analysisResult.facing &&
+                    analysisResult.view !== "front" && (
+                      <span className="block text-xs text-gray-500 mt-1">
+                        {analysisResult.facing === "unknown"
+                          ? "Facing direction unclear, turn side-on to the camera"
+                          : `Facing ${PREVIEW_FACING[analysisResult.facing]} in the preview`}
+                      </span>
+                    )}
                   {analysisResult.missingKeypoints && (
                     <span className="block text-red-600 font-medium mt-1">
                       Some key body parts are not visible
+                      {isStreamActive && (
+                        <button
+                          onClick={resetCameraSetup}
+                          className="block text-xs text-gray-600 hover:text-gray-900 underline font-normal mt-1"
+                        >
+                          Run camera setup to fix the framing
+                        </button>
+                      )}
                     </span>
                   )}
                 </p>
@@ -363,13 +984,7 @@ export default function PostureCamera({
                   <h4 className="font-medium mb-2 text-gray-900">
                     Areas for Improvement
                   </h4>
-                  <ul className="space-y-1">
-                    {analysisResult.detectedIssues.map((issue, index) => (
-                      <li key={index} className="text-sm text-gray-700">
-                        • {issue}
-                      </li>
-                    ))}
-                  </ul>
+                  <IssueList issues={analysisResult.detectedIssues} />
                 </div>
               )}
             </div>
@@ -391,7 +1006,8 @@ export default function PostureCamera({
                 </svg>
               </div>
               <p className="text-sm">
-                Click "Analyze Posture" or enable auto-analyze to see results
+                Click &quot;Analyze Posture&quot; or enable auto-analyze to
+                track your reps
               </p>
             </div>
           )}
@@ -399,9 +1015,7 @@ export default function PostureCamera({
           {/* Exercise Tips */}
           <div className="p-4 bg-gray-50 border border-gray-200 rounded-xl">
             <h4 className="font-medium mb-2 text-gray-900">
-              Tips for{" "}
-              {selectedExercise.charAt(0).toUpperCase() +
-                selectedExercise.slice(1)}
+              Tips for {exerciseName}
             </h4>
             <ul className="space-y-1">
               {exerciseTips.map((tip, index) => (
@@ -410,6 +1024,15 @@ export default function PostureCamera({
                 </li>
               ))}
             </ul>
+            {exerciseDefinition && (
+              <p className="text-xs text-gray-500 mt-3">
+                📐{" "}
+                {getCameraGuidance(
+                  exerciseDefinition,
+                  analysisResult?.view ?? "unknown"
+                )}
+              </p>
+            )}
           </div>
         </div>
       </div>
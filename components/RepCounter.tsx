@@ -0,0 +1,129 @@
+"use client";
+
+import { RepPhase, RepTrackerState } from "@/lib/repDetection";
+import { describeBarPath } from "@/lib/barPath";
+import {
+  FATIGUE_VELOCITY_LOSS,
+  formatTempo,
+  RepTempo,
+} from "@/lib/repTempo";
+import IssueList from "@/components/IssueList";
+
+interface RepCounterProps {
+  repState: RepTrackerState;
+  onReset: () => void;
+}
+
+const PHASE_LABELS: Record<RepPhase, string> = {
+  lockout: "Lockout",
+  eccentric: "Lowering",
+  bottom: "Bottom",
+  concentric: "Driving up",
+};
+
+/**
+ * Concentric speeds in torso lengths per second, when the lift could be followed
+ */
+function describeVelocity(tempo: RepTempo): string | null {
+  if (tempo.meanVelocity === null || tempo.peakVelocity === null) {
+    return null;
+  }
+  const mean = tempo.meanVelocity.toFixed(2);
+  const peak = tempo.peakVelocity.toFixed(2);
+  return `${mean} mean / ${peak} peak torso/s`;
+}
+
+export default function RepCounter({ repState, onReset }: RepCounterProps) {
+  const { reps, phase, currentAngle } = repState;
+  const velocityLoss = reps[reps.length - 1]?.velocityLoss;
+  const isFatigued =
+    velocityLoss !== undefined && velocityLoss >= FATIGUE_VELOCITY_LOSS;
+
+  return (
+    <div className="space-y-4">
+      {/* Live Counter */}
+      <div className="p-4 bg-white border border-gray-200 rounded-xl">
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-sm text-gray-600">Reps</p>
+            <p className="text-4xl font-bold text-[#6f29a4]">{reps.length}</p>
+          </div>
+          <div className="text-right">
+            <p className="text-sm font-medium text-gray-900">
+              {phase ? PHASE_LABELS[phase] : "Waiting for lockout"}
+            </p>
+            <p className="text-xs text-gray-500 mt-1">
+              {currentAngle !== null
+                ? `Joint angle ${Math.round(currentAngle)}°`
+                : "Joint not visible"}
+            </p>
+          </div>
+        </div>
+        {velocityLoss !== undefined && (
+          <p
+            className={`mt-3 text-xs ${
+              isFatigued ? "text-amber-700 font-medium" : "text-gray-500"
+            }`}
+          >
+            Velocity loss {Math.round(velocityLoss * 100)}% from fastest rep
+            {isFatigued && " • Reps are slowing, the set is near failure"}
+          </p>
+        )}
+        {reps.length > 0 && (
+          <button
+            onClick={onReset}
+            className="mt-3 text-xs text-gray-500 hover:text-gray-900 underline"
+          >
+            Reset set
+          </button>
+        )}
+      </div>
+
+      {/* Per-Rep Breakdown */}
+      {reps.length > 0 ? (
+        <ul className="space-y-2">
+          {[...reps].reverse().map((rep) => (
+            <li
+              key={rep.index}
+              className={`p-4 rounded-xl border ${
+                rep.score > 0.6
+                  ? "bg-green-50 border-green-200"
+                  : "bg-amber-50 border-amber-200"
+              }`}
+            >
+              <div className="flex items-center justify-between mb-1">
+                <span className="font-medium text-gray-900 text-sm">
+                  Rep {rep.index}
+                </span>
+                <span className="text-xs text-gray-500 bg-white px-2 py-1 rounded-full">
+                  {Math.round(rep.score * 100)}%
+                </span>
+              </div>
+              <p className="text-xs text-gray-500">
+                {((rep.endTime - rep.startTime) / 1000).toFixed(1)}s • bottom{" "}
+                {Math.round(rep.bottomAngle)}°
+                {rep.barPath && ` • ${describeBarPath(rep.barPath)}`}
+              </p>
+              {rep.tempo && (
+                <p className="text-xs text-gray-500">
+                  Tempo {formatTempo(rep.tempo)}
+                  {describeVelocity(rep.tempo) &&
+                    ` • ${describeVelocity(rep.tempo)}`}
+                </p>
+              )}
+              {rep.issues.length > 0 && (
+                <div className="mt-2">
+                  <IssueList issues={rep.issues} compact />
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <div className="p-4 bg-gray-50 border border-gray-200 rounded-xl text-center text-sm text-gray-500">
+          Start your set, each completed rep will be scored here
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+"use client";
+
+import { ScorePoint } from "@/lib/progressAnalytics";
+
+interface ScoreTrendChartProps {
+  points: ScorePoint[];
+}
+
+const WIDTH = 320;
+const HEIGHT = 140;
+const PADDING = { top: 10, right: 10, bottom: 20, left: 32 };
+
+// Score lines drawn across the chart for reference
+const GRID_SCORES = [0, 0.6, 1];
+
+export default function ScoreTrendChart({ points }: ScoreTrendChartProps) {
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const firstTime = points[0]?.time ?? 0;
+  const timeSpan = (points[points.length - 1]?.time ?? 0) - firstTime;
+
+  const x = (time: number) =>
+    PADDING.left +
+    (timeSpan > 0 ? ((time - firstTime) / timeSpan) * plotWidth : plotWidth / 2);
+  const y = (score: number) => PADDING.top + (1 - score) * plotHeight;
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      className="w-full h-auto"
+      role="img"
+      aria-label="Technique score over time"
+    >
+      {GRID_SCORES.map((score) => (
+        <g key={score}>
+          <line
+            x1={PADDING.left}
+            x2={WIDTH - PADDING.right}
+            y1={y(score)}
+            y2={y(score)}
+            className={score === 0.6 ? "stroke-green-300" : "stroke-gray-200"}
+            strokeDasharray={score === 0.6 ? "4 4" : undefined}
+          />
+          <text
+            x={PADDING.left - 6}
+            y={y(score) + 3}
+            textAnchor="end"
+            className="fill-gray-400 text-[9px]"
+          >
+            {Math.round(score * 100)}%
+          </text>
+        </g>
+      ))}
+
+      {points.length > 0 && (
+        <>
+          <text
+            x={PADDING.left}
+            y={HEIGHT - 4}
+            className="fill-gray-400 text-[9px]"
+          >
+            {new Date(firstTime).toLocaleDateString()}
+          </text>
+          <text
+            x={WIDTH - PADDING.right}
+            y={HEIGHT - 4}
+            textAnchor="end"
+            className="fill-gray-400 text-[9px]"
+          >
+            {new Date(firstTime + timeSpan).toLocaleDateString()}
+          </text>
+        </>
+      )}
+
+      <polyline
+        points={points.map((point) => `${x(point.time)},${y(point.score)}`).join(" ")}
+        fill="none"
+        className="stroke-[#6f29a4]"
+        strokeWidth={2}
+      />
+      {points.map((point) => (
+        <circle
+          key={point.sessionId}
+          cx={x(point.time)}
+          cy={y(point.score)}
+          r={3}
+          className="fill-[#6f29a4]"
+        >
+          <title>
+            {new Date(point.time).toLocaleString()}: {Math.round(point.score * 100)}%
+          </title>
+        </circle>
+      ))}
+    </svg>
+  );
+}
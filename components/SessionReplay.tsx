@@ -0,0 +1,113 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import type { ExerciseId } from "@/lib/exerciseDefinitions";
+import type { SessionEntry, SessionRecording } from "@/lib/sessionStore";
+import {
+  buildRecordingTimeline,
+  getBarTrailAtTime,
+  getEntryAtTime,
+} from "@/lib/videoAnalysis";
+import { getExerciseDefinition } from "@/lib/exerciseRegistry";
+import AnalysisTimeline, {
+  formatVideoTime,
+} from "@/components/AnalysisTimeline";
+import IssueList from "@/components/IssueList";
+import SkeletonOverlay from "@/components/SkeletonOverlay";
+
+interface SessionReplayProps {
+  exercise: ExerciseId;
+  recording: SessionRecording;
+  entries: SessionEntry[];
+}
+
+/**
+ * Plays back a recorded session with its analysis overlaid at the matching time
+ */
+export default function SessionReplay({
+  exercise,
+  recording,
+  entries,
+}: SessionReplayProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [videoUrl, setVideoUrl] = useState<string | null>(null);
+  const [currentTime, setCurrentTime] = useState(0);
+
+  const timeline = useMemo(
+    () => buildRecordingTimeline(exercise, recording, entries),
+    [exercise, recording, entries]
+  );
+  const currentEntry = getEntryAtTime(timeline, currentTime);
+  const tracksBar = !!getExerciseDefinition(exercise)?.barPath;
+
+  useEffect(() => {
+    const url = URL.createObjectURL(recording.video);
+    setVideoUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [recording]);
+
+  const seekTo = (time: number) => {
+    if (videoRef.current) {
+      videoRef.current.currentTime = time;
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Mirrored like the live preview the set was filmed with */}
+      <div className="relative aspect-video bg-gray-900 rounded-xl overflow-hidden">
+        {videoUrl && (
+          <video
+            ref={videoRef}
+            src={videoUrl}
+            controls
+            playsInline
+            muted
+            onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+            className="w-full h-full object-contain scale-x-[-1]"
+          />
+        )}
+        {currentEntry?.result.keypoints && currentEntry.result.imageSize && (
+          <SkeletonOverlay
+            keypoints={currentEntry.result.keypoints}
+            imageSize={currentEntry.result.imageSize}
+            issues={currentEntry.result.detectedIssues}
+            barPath={
+              tracksBar ? getBarTrailAtTime(timeline, currentTime) : undefined
+            }
+            fit="contain"
+            mirrored
+          />
+        )}
+      </div>
+
+      <AnalysisTimeline
+        analysis={timeline}
+        currentTime={currentTime}
+        onSeek={seekTo}
+      />
+
+      {currentEntry ? (
+        <div className="p-4 bg-white border border-gray-200 rounded-xl">
+          <div className="flex items-center justify-between mb-2">
+            <span className="font-medium text-gray-900 text-sm">
+              Frame at {formatVideoTime(currentEntry.time)}
+            </span>
+            <span className="text-xs text-gray-500 bg-gray-50 px-2 py-1 rounded-full">
+              {Math.round(currentEntry.result.score * 100)}%
+            </span>
+          </div>
+          {currentEntry.result.detectedIssues.length > 0 ? (
+            <IssueList issues={currentEntry.result.detectedIssues} compact />
+          ) : (
+            <p className="text-xs text-gray-600">No issues detected</p>
+          )}
+        </div>
+      ) : (
+        <p className="text-xs text-gray-500 text-center">
+          Play or scrub the recording to see the analysis at each moment
+        </p>
+      )}
+    </div>
+  );
+}
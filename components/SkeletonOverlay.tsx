@@ -0,0 +1,53 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { drawSkeleton, SkeletonDrawingOptions } from "@/lib/skeletonDrawing";
+import type { KeypointData } from "@/lib/techniqueAnalysis";
+
+interface SkeletonOverlayProps extends SkeletonDrawingOptions {
+  keypoints: KeypointData[];
+}
+
+/**
+ * Canvas laid over a video that draws the latest detected skeleton
+ */
+export default function SkeletonOverlay({
+  keypoints,
+  ...options
+}: SkeletonOverlayProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawRef = useRef<() => void>(() => {});
+
+  drawRef.current = () => {
+    if (canvasRef.current) {
+      drawSkeleton(canvasRef.current, keypoints, options);
+    }
+  };
+
+  // Redraw whenever a new pose comes in
+  useEffect(() => {
+    drawRef.current();
+  });
+
+  // Match the canvas resolution to its displayed size
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const observer = new ResizeObserver(() => {
+      const ratio = window.devicePixelRatio || 1;
+      canvas.width = Math.round(canvas.clientWidth * ratio);
+      canvas.height = Math.round(canvas.clientHeight * ratio);
+      drawRef.current();
+    });
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, []);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="absolute inset-0 w-full h-full pointer-events-none"
+    />
+  );
+}
@@ -0,0 +1,356 @@
+"use client";
+
+import { ChangeEvent, useEffect, useRef, useState } from "react";
+import {
+  getPoseProvider,
+  POSE_PROVIDERS,
+  PoseProviderId,
+} from "@/lib/poseProvider";
+import {
+  analyzeVideo,
+  DEFAULT_VIDEO_SAMPLE_RATE,
+  getBarTrailAtTime,
+  getEntryAtTime,
+  VIDEO_SAMPLE_RATES,
+  VideoAnalysis,
+} from "@/lib/videoAnalysis";
+import type { ExerciseId } from "@/lib/exerciseDefinitions";
+import { getPoseErrorMessage } from "@/lib/poseErrors";
+import { getExerciseDefinition } from "@/lib/exerciseRegistry";
+import { describeBarPath } from "@/lib/barPath";
+import { formatTempo } from "@/lib/repTempo";
+import AnalysisTimeline, {
+  formatVideoTime,
+} from "@/components/AnalysisTimeline";
+import IssueList from "@/components/IssueList";
+import SkeletonOverlay from "@/components/SkeletonOverlay";
+
+interface VideoAnalyzerProps {
+  selectedExercise: ExerciseId;
+}
+
+export default function VideoAnalyzer({
+  selectedExercise,
+}: VideoAnalyzerProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const [videoUrl, setVideoUrl] = useState<string | null>(null);
+  const [poseProviderId, setPoseProviderId] =
+    useState<PoseProviderId>("roboflow");
+  const [framesPerSecond, setFramesPerSecond] = useState(
+    DEFAULT_VIDEO_SAMPLE_RATE
+  );
+  const [analysis, setAnalysis] = useState<VideoAnalysis | null>(null);
+  const [progress, setProgress] = useState({ sampled: 0, total: 0 });
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [showSkeleton, setShowSkeleton] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    abortRef.current?.abort();
+    setVideoUrl(URL.createObjectURL(file));
+    setAnalysis(null);
+    setCurrentTime(0);
+    setError(null);
+  };
+
+  const handleAnalyze = async () => {
+    const video = videoRef.current;
+    if (!video || !Number.isFinite(video.duration)) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsAnalyzing(true);
+    setAnalysis(null);
+    setError(null);
+
+    try {
+      const result = await analyzeVideo(
+        getPoseProvider(poseProviderId),
+        video,
+        selectedExercise,
+        {
+          framesPerSecond,
+          signal: controller.signal,
+          onProgress: (partial, sampled, total) => {
+            if (controller.signal.aborted) return;
+            setAnalysis(partial);
+            setProgress({ sampled, total });
+          },
+        }
+      );
+      if (result.entries.length === 0 && result.failedFrames > 0) {
+        setError("Failed to analyze the video. Please try again.");
+      }
+    } catch (err) {
+      console.error("Video analysis error:", err);
+      setError(getPoseErrorMessage(err));
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
+  const seekTo = (time: number) => {
+    if (videoRef.current) {
+      videoRef.current.currentTime = time;
+    }
+  };
+
+  // Analysis is specific to the exercise it was run for
+  useEffect(() => {
+    abortRef.current?.abort();
+    setAnalysis(null);
+  }, [selectedExercise]);
+
+  // Release the previous file when a new one is chosen or on unmount
+  useEffect(() => {
+    return () => {
+      if (videoUrl) {
+        URL.revokeObjectURL(videoUrl);
+      }
+    };
+  }, [videoUrl]);
+
+  // Stop analyzing on unmount
+  useEffect(() => {
+    return () => abortRef.current?.abort();
+  }, []);
+
+  const currentEntry = analysis
+    ? getEntryAtTime(analysis, currentTime)
+    : undefined;
+  const tracksBar = !!getExerciseDefinition(selectedExercise)?.barPath;
+
+  return (
+    <div className="w-full max-w-6xl mx-auto space-y-8">
+      {/* Upload Controls */}
+      <div className="flex flex-wrap gap-4 justify-center">
+        <label className="px-6 py-3 bg-white text-gray-900 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors font-medium cursor-pointer">
+          {videoUrl ? "Choose Another Video" : "Choose Video"}
+          <input
+            type="file"
+            accept="video/mp4,video/webm,video/quicktime"
+            onChange={handleFileChange}
+            disabled={isAnalyzing}
+            className="hidden"
+          />
+        </label>
+        <label className="flex items-center space-x-2 bg-white border border-gray-300 px-4 py-3 rounded-lg">
+          <span className="text-sm text-gray-700 font-medium">Backend</span>
+          <select
+            value={poseProviderId}
+            onChange={(e) =>
+              setPoseProviderId(e.target.value as PoseProviderId)
+            }
+            disabled={isAnalyzing}
+            title={getPoseProvider(poseProviderId).description}
+            className="text-sm text-gray-900 bg-transparent focus:outline-none"
+          >
+            {POSE_PROVIDERS.map((provider) => (
+              <option key={provider.id} value={provider.id}>
+                {provider.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center space-x-2 bg-white border border-gray-300 px-4 py-3 rounded-lg">
+          <span className="text-sm text-gray-700 font-medium">Sample</span>
+          <select
+            value={framesPerSecond}
+            onChange={(e) => setFramesPerSecond(Number(e.target.value))}
+            disabled={isAnalyzing}
+            className="text-sm text-gray-900 bg-transparent focus:outline-none"
+          >
+            {VIDEO_SAMPLE_RATES.map((rate) => (
+              <option key={rate} value={rate}>
+                {rate} frame{rate === 1 ? "" : "s"} per second
+              </option>
+            ))}
+          </select>
+        </label>
+        {videoUrl &&
+          (isAnalyzing ? (
+            <button
+              onClick={() => abortRef.current?.abort()}
+              className="px-6 py-3 bg-white text-gray-900 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors font-medium"
+            >
+              Stop ({progress.sampled}/{progress.total})
+            </button>
+          ) : (
+            <button
+              onClick={handleAnalyze}
+              className="px-6 py-3 bg-[#6f29a4] text-white rounded-lg hover:bg-[#6f29a4]/90 transition-colors font-medium"
+            >
+              {analysis ? "Analyze Again" : "Analyze Video"}
+            </button>
+          ))}
+        {analysis && (
+          <label className="flex items-center space-x-2 bg-white border border-gray-300 px-4 py-3 rounded-lg">
+            <input
+              type="checkbox"
+              checked={showSkeleton}
+              onChange={(e) => setShowSkeleton(e.target.checked)}
+              className="w-4 h-4 text-[#6f29a4] focus:ring-[#6f29a4] border-gray-300 rounded"
+            />
+            <span className="text-sm text-gray-700 font-medium">Skeleton</span>
+          </label>
+        )}
+      </div>
+
+      {/* Error Display */}
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 text-red-700 rounded-lg">
+          {error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Left Section: Video and Timeline */}
+        <div className="lg:col-span-2 space-y-6">
+          <div className="relative aspect-video bg-gray-900 rounded-xl overflow-hidden border-4 border-gray-200">
+            {videoUrl ? (
+              <video
+                ref={videoRef}
+                src={videoUrl}
+                controls={!isAnalyzing}
+                playsInline
+                muted
+                onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+                className="w-full h-full object-contain"
+              />
+            ) : (
+              <div className="absolute inset-0 flex items-center justify-center text-white">
+                <p className="text-sm">
+                  Upload an MP4 or WebM of your set, filmed side-on
+                </p>
+              </div>
+            )}
+            {showSkeleton &&
+              currentEntry?.result.keypoints &&
+              currentEntry.result.imageSize && (
+                <SkeletonOverlay
+                  keypoints={currentEntry.result.keypoints}
+                  imageSize={currentEntry.result.imageSize}
+                  issues={currentEntry.result.detectedIssues}
+                  barPath={
+                    tracksBar && analysis
+                      ? getBarTrailAtTime(analysis, currentTime)
+                      : undefined
+                  }
+                  fit="contain"
+                />
+              )}
+          </div>
+
+          {analysis && (
+            <div className="bg-white border border-gray-200 rounded-2xl shadow-sm p-6 space-y-4">
+              <div className="flex items-center justify-between">
+                <h3 className="text-lg font-semibold text-black">Timeline</h3>
+                <span className="text-xs text-gray-500">
+                  {analysis.entries.length} frames analyzed
+                  {analysis.failedFrames > 0 &&
+                    `, ${analysis.failedFrames} failed`}
+                </span>
+              </div>
+              <AnalysisTimeline
+                analysis={analysis}
+                currentTime={currentTime}
+                onSeek={seekTo}
+              />
+            </div>
+          )}
+        </div>
+
+        {/* Right Section: Frame and Rep Results */}
+        <div className="space-y-4">
+          <h3 className="text-lg font-semibold text-black">
+            {currentEntry
+              ? `Frame at ${formatVideoTime(currentEntry.time)}`
+              : "Analysis Results"}
+          </h3>
+
+          {currentEntry ? (
+            <div
+              className={`p-4 rounded-xl border ${
+                currentEntry.result.missingKeypoints
+                  ? "bg-red-50 border-red-200"
+                  : currentEntry.result.isGoodPosture
+                  ? "bg-green-50 border-green-200"
+                  : "bg-amber-50 border-amber-200"
+              }`}
+            >
+              <div className="flex items-center justify-between mb-2">
+                <span className="font-medium text-gray-900">
+                  {currentEntry.result.missingKeypoints
+                    ? "🔍 Not fully in frame"
+                    : currentEntry.result.isGoodPosture
+                    ? "✅ Excellent Form"
+                    : "⚠️ Form Needs Attention"}
+                </span>
+                <span className="text-xs text-gray-500 bg-white px-2 py-1 rounded-full">
+                  {Math.round(currentEntry.result.score * 100)}%
+                </span>
+              </div>
+              {currentEntry.result.detectedIssues.length > 0 ? (
+                <IssueList issues={currentEntry.result.detectedIssues} />
+              ) : (
+                <p className="text-sm text-gray-600">No issues detected</p>
+              )}
+            </div>
+          ) : (
+            <div className="p-8 bg-gray-50 border border-gray-200 rounded-xl text-center text-gray-500">
+              <p className="text-sm">
+                {analysis
+                  ? "Click the timeline or play the video to see each analyzed frame"
+                  : "Analyze a video to see scores and issues over time"}
+              </p>
+            </div>
+          )}
+
+          {/* Per-Rep Breakdown */}
+          {analysis && analysis.reps.length > 0 && (
+            <ul className="space-y-2">
+              {analysis.reps.map((rep) => (
+                <li
+                  key={rep.index}
+                  className={`p-4 rounded-xl border ${
+                    rep.score > 0.6
+                      ? "bg-green-50 border-green-200"
+                      : "bg-amber-50 border-amber-200"
+                  }`}
+                >
+                  <div className="flex items-center justify-between mb-1">
+                    <button
+                      onClick={() => seekTo(rep.startTime / 1000)}
+                      className="font-medium text-gray-900 text-sm hover:underline"
+                    >
+                      Rep {rep.index} at {formatVideoTime(rep.startTime / 1000)}
+                    </button>
+                    <span className="text-xs text-gray-500 bg-white px-2 py-1 rounded-full">
+                      {Math.round(rep.score * 100)}%
+                    </span>
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    {((rep.endTime - rep.startTime) / 1000).toFixed(1)}s •
+                    bottom {Math.round(rep.bottomAngle)}°
+                    {rep.barPath && ` • ${describeBarPath(rep.barPath)}`}
+                    {rep.tempo && ` • tempo ${formatTempo(rep.tempo)}`}
+                  </p>
+                  {rep.issues.length > 0 && (
+                    <div className="mt-2">
+                      <IssueList issues={rep.issues} compact />
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Volume2, VolumeX } from "lucide-react";
+import {
+  isSpeechSupported,
+  VOICE_CUE_RATE_RANGE,
+  VoiceCueSettings,
+} from "@/lib/voiceCues";
+
+interface VoiceCueControlsProps {
+  settings: VoiceCueSettings;
+  onChange: (settings: VoiceCueSettings) => void;
+}
+
+export default function VoiceCueControls({
+  settings,
+  onChange,
+}: VoiceCueControlsProps) {
+  const [isSupported, setIsSupported] = useState(false);
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+
+  // Voices load asynchronously in most browsers
+  useEffect(() => {
+    if (!isSpeechSupported()) return;
+    setIsSupported(true);
+
+    const loadVoices = () => setVoices(window.speechSynthesis.getVoices());
+    loadVoices();
+    window.speechSynthesis.addEventListener("voiceschanged", loadVoices);
+    return () =>
+      window.speechSynthesis.removeEventListener("voiceschanged", loadVoices);
+  }, []);
+
+  if (!isSupported) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 bg-white border border-gray-300 px-4 py-2 rounded-lg">
+      <button
+        onClick={() => onChange({ ...settings, muted: !settings.muted })}
+        title={settings.muted ? "Unmute voice cues" : "Mute voice cues"}
+        className="flex items-center space-x-2 text-sm text-gray-700 font-medium"
+      >
+        {settings.muted ? (
+          <VolumeX className="w-4 h-4 text-gray-400" />
+        ) : (
+          <Volume2 className="w-4 h-4 text-[#6f29a4]" />
+        )}
+        <span>Voice cues</span>
+      </button>
+      {!settings.muted && (
+        <>
+          <select
+            value={settings.voiceURI ?? ""}
+            onChange={(e) =>
+              onChange({ ...settings, voiceURI: e.target.value || null })
+            }
+            className="max-w-40 text-sm text-gray-900 bg-transparent focus:outline-none"
+          >
+            <option value="">Default voice</option>
+            {voices.map((voice) => (
+              <option key={voice.voiceURI} value={voice.voiceURI}>
+                {voice.name} ({voice.lang})
+              </option>
+            ))}
+          </select>
+          <label className="flex items-center space-x-2 text-xs text-gray-500">
+            <span>Rate</span>
+            <input
+              type="range"
+              min={VOICE_CUE_RATE_RANGE.min}
+              max={VOICE_CUE_RATE_RANGE.max}
+              step={0.1}
+              value={settings.rate}
+              onChange={(e) =>
+                onChange({ ...settings, rate: Number(e.target.value) })
+              }
+              className="w-20 accent-[#6f29a4]"
+            />
+            <span>{settings.rate.toFixed(1)}×</span>
+          </label>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+/**
+ * Bar path tracking for Coachly
+ * Follows the end of the barbell from frame to frame, using a plate detected by the workflow when there is one
+ * and the lifter's hands otherwise, and measures how far the bar strays from vertical over each rep
+ */
+
+import type { BarPathCheck, ExerciseDefinition } from './exerciseDefinitions';
+import type { KeypointData } from './techniqueAnalysis';
+import { severityForPenalty, TechniqueIssue } from './techniqueIssues';
+
+export interface BarPosition {
+  x: number; // Image pixels
+  y: number;
+  source: 'plate' | 'wrists'; // A plate detected by the workflow, or the midpoint of the hands holding the bar
+}
+
+export interface BarPathPoint extends BarPosition {
+  timestamp: number;
+}
+
+export interface BarPathSummary {
+  verticalDeviation: number; // Furthest the bar strayed sideways from a vertical line through its start, in torso lengths
+  horizontalDrift: number; // Sideways distance between where the bar started and finished, in torso lengths
+}
+
+// Workflow detection classes that mark the end of the bar
+const PLATE_CLASSES = ['plate', 'weight_plate', 'barbell'];
+
+// Hands below this confidence aren't trusted to locate the bar
+const MIN_WRIST_CONFIDENCE = 0.5;
+
+// A rep's path needs at least this many points to be measured
+const MIN_PATH_POINTS = 3;
+
+// How much of the path is drawn over the video
+export const BAR_TRAIL_MS = 4000;
+
+const CHECK_METRICS: Record<BarPathCheck['metric'], keyof BarPathSummary> = {
+  vertical_deviation: 'verticalDeviation',
+  horizontal_drift: 'horizontalDrift'
+};
+
+/**
+ * Whether a workflow detection class marks the end of the bar
+ */
+export function isPlateClass(className: string): boolean {
+  return PLATE_CLASSES.includes(className.toLowerCase());
+}
+
+/**
+ * Where the bar is in a frame: the detected plate if there is one, otherwise between the lifter's hands
+ */
+export function locateBar(keypoints: KeypointData[], plate?: BarPosition): BarPosition | null {
+  if (plate) {
+    return plate;
+  }
+  const wrists = keypoints.filter(
+    kp => (kp.class === 'left_wrist' || kp.class === 'right_wrist') && kp.confidence >= MIN_WRIST_CONFIDENCE
+  );
+  if (wrists.length === 0) {
+    return null;
+  }
+  return {
+    x: wrists.reduce((sum, kp) => sum + kp.x, 0) / wrists.length,
+    y: wrists.reduce((sum, kp) => sum + kp.y, 0) / wrists.length,
+    source: 'wrists'
+  };
+}
+
+/**
+ * Add the bar's latest position to the trail drawn over the video, dropping points too old to show
+ */
+export function extendBarTrail(trail: BarPathPoint[], point: BarPathPoint): BarPathPoint[] {
+  return [...trail, point].filter(({ timestamp }) => point.timestamp - timestamp <= BAR_TRAIL_MS);
+}
+
+/**
+ * Measure a rep's bar path, given the lifter's torso length in pixels
+ * Returns null if too little of the path was seen to judge it
+ */
+export function summarizeBarPath(points: BarPathPoint[], bodyScale: number): BarPathSummary | null {
+  if (points.length < MIN_PATH_POINTS || bodyScale <= 0) {
+    return null;
+  }
+  const start = points[0];
+  const end = points[points.length - 1];
+  return {
+    verticalDeviation: Math.max(...points.map(point => Math.abs(point.x - start.x))) / bodyScale,
+    horizontalDrift: Math.abs(end.x - start.x) / bodyScale
+  };
+}
+
+/**
+ * Run an exercise's bar path checks against a rep's path, returning the issues and what they cost the rep's score
+ */
+export function checkBarPath(
+  definition: ExerciseDefinition,
+  summary: BarPathSummary
+): { issues: TechniqueIssue[]; penalty: number } {
+  const failed = (definition.barPath ?? []).filter(check => summary[CHECK_METRICS[check.metric]] > check.threshold);
+  return {
+    issues: failed.map(check => ({
+      code: `${definition.id}.${check.id}`,
+      severity: severityForPenalty(check.penalty),
+      joints: ['left_wrist', 'right_wrist'],
+      measured: summary[CHECK_METRICS[check.metric]],
+      threshold: check.threshold,
+      unit: 'torso_lengths',
+      cue: check.cue,
+      message: check.message
+    })),
+    penalty: failed.reduce((sum, check) => sum + check.penalty, 0)
+  };
+}
+
+/**
+ * Short description of a rep's bar path for rep lists
+ */
+export function describeBarPath(summary: BarPathSummary): string {
+  return `bar off vertical ${Math.round(summary.verticalDeviation * 100)}% of torso`;
+}
@@ -0,0 +1,284 @@
+/**
+ * Camera setup for Coachly
+ * Checks the framing before a set - the exercise's keypoints in frame, the camera side-on or front-on as needed,
+ * and level - and turns anything wrong into a concrete instruction. Analysis is armed once the framing holds
+ */
+
+import type { ExerciseDefinition } from './exerciseDefinitions';
+import type { PoseEstimate } from './poseProvider';
+import {
+  CameraView,
+  determineCameraView,
+  determineFacingDirection,
+  getBodyScale,
+  KeypointData
+} from './techniqueAnalysis';
+
+export type SetupView = Exclude<CameraView, 'unknown'>;
+
+export interface CameraSetupCheck {
+  status: 'no_person' | 'adjust' | 'ready';
+  view: CameraView;
+  framed: boolean; // Required keypoints visible, the lifter centred at a good distance
+  angled: boolean; // Filmed from the target angle
+  level: boolean; // Upright in the frame (flat, lying down), or not measurable
+  missingKeypoints: string[]; // Required keypoints that aren't visible
+  instructions: string[]; // What to change, most important first
+}
+
+export interface CameraSetupState {
+  readyChecks: number; // Consecutive checks that found the framing acceptable
+  isArmed: boolean; // Analysis may start, until the setup is reset
+}
+
+// Keypoints below this confidence don't count as in frame
+const MIN_CONFIDENCE = 0.5;
+
+// Consecutive good checks needed, so one lucky frame doesn't arm analysis
+export const READY_CHECKS = 3;
+
+// Shortest gap between camera checks while setting up, the frame scheduler stretches it while the lifter is still
+export const SETUP_CHECK_INTERVAL_MS = 800;
+
+// Rough body proportions and phone camera optics, only used to turn framing into distances to move
+const TORSO_M = 0.5;
+const BODY_TO_TORSO = 3.5; // Head to feet
+const CAMERA_FOV_DEGREES = 60;
+
+// Share of the frame the lifter's body should fill along its length
+const MIN_FILL = 0.4;
+const MAX_FILL = 0.9;
+const TARGET_FILL = 0.7;
+
+// Keypoints this close to the frame's edge, as a share of its size, may have others cut off beyond them
+const EDGE_MARGIN = 0.03;
+
+// Furthest the lifter may stand from the middle of the frame, as a share of its width
+const MAX_OFF_CENTRE = 0.2;
+
+const MAX_TILT_DEGREES = 10;
+
+// Shoulder width in torso lengths when facing the camera, to estimate how far the lifter is turned
+const FRONT_ON_SHOULDER_WIDTH = 0.8;
+
+/**
+ * Create a new setup, not yet armed
+ */
+export function createCameraSetup(): CameraSetupState {
+  return { readyChecks: 0, isArmed: false };
+}
+
+/**
+ * Count a check toward arming analysis. Any check that needs an adjustment starts the count again
+ */
+export function updateCameraSetup(state: CameraSetupState, check: CameraSetupCheck): CameraSetupState {
+  if (state.isArmed) {
+    return state;
+  }
+  const readyChecks = check.status === 'ready' ? state.readyChecks + 1 : 0;
+  return { readyChecks, isArmed: readyChecks >= READY_CHECKS };
+}
+
+/**
+ * Camera angles an exercise can be analyzed from: side-on always, front-on when it has symmetry checks
+ */
+export function getSetupViews(definition: ExerciseDefinition): SetupView[] {
+  return definition.symmetry?.length ? ['side', 'front'] : ['side'];
+}
+
+/**
+ * Check one frame's framing for an exercise filmed from the target angle
+ */
+export function checkCameraSetup(
+  pose: PoseEstimate,
+  definition: ExerciseDefinition,
+  target: SetupView
+): CameraSetupCheck {
+  const { keypoints, imageSize } = pose;
+  const visible = keypoints.filter(kp => kp.confidence >= MIN_CONFIDENCE);
+  if (visible.length === 0) {
+    return {
+      status: 'no_person',
+      view: 'unknown',
+      framed: false,
+      angled: false,
+      level: false,
+      missingKeypoints: definition.requiredKeypoints,
+      instructions: ["Step into the frame so the camera can see your whole body"]
+    };
+  }
+
+  const view = determineCameraView(keypoints, imageSize);
+  // An inclined torso gives nothing flat to level the camera against, so the check is skipped
+  const tilt = definition.inclinedTorso ? null : measureTilt(visible, definition.posture);
+  const missingKeypoints = findMissingKeypoints(visible, definition.requiredKeypoints, target);
+
+  const framing = imageSize ? getFramingInstructions(visible, missingKeypoints, definition.posture, imageSize) : [];
+  if (missingKeypoints.length > 0 && framing.length === 0) {
+    framing.push(`Make sure nothing blocks the camera's view of your ${describeJoints(missingKeypoints)}`);
+  }
+  const angled = view === target;
+  const level = tilt === null || tilt <= MAX_TILT_DEGREES;
+
+  const instructions = [...framing];
+  if (!angled) {
+    instructions.push(getTurnInstruction(keypoints, imageSize, definition.posture, target));
+  }
+  if (!level) {
+    instructions.push(
+      definition.posture === 'lying'
+        ? `Level the phone, the bench looks tilted about ${Math.round(tilt)}°`
+        : `Stand tall, then level the phone until you look upright (about ${Math.round(tilt)}° off)`
+    );
+  }
+
+  return {
+    status: instructions.length > 0 ? 'adjust' : 'ready',
+    view,
+    framed: framing.length === 0,
+    angled,
+    level,
+    missingKeypoints,
+    instructions
+  };
+}
+
+/**
+ * Required keypoints that aren't visible. Side-on, a joint only needs to be seen on one side
+ */
+function findMissingKeypoints(visible: KeypointData[], required: string[], target: SetupView): string[] {
+  const isVisible = (name: string) => visible.some(kp => kp.class === name);
+  return required.filter(name => {
+    if (isVisible(name)) {
+      return false;
+    }
+    if (target === 'front') {
+      return true;
+    }
+    const joint = name.replace(/^(left|right)_/, '');
+    return !isVisible(`left_${joint}`) && !isVisible(`right_${joint}`);
+  });
+}
+
+/**
+ * Body parts for instructions, e.g. ['left_ankle', 'right_ankle', 'nose'] -> "ankles and head"
+ */
+function describeJoints(keypoints: string[]): string {
+  const joints = [...new Set(keypoints.map(name => name.replace(/^(left|right)_/, '')))].map(joint =>
+    joint === 'nose' ? 'head' : `${joint}s`
+  );
+  return joints.length > 1 ? `${joints.slice(0, -1).join(', ')} and ${joints[joints.length - 1]}` : joints[0];
+}
+
+/**
+ * Distances to move so the lifter fills the frame without being cut off, and stands in its middle
+ */
+function getFramingInstructions(
+  visible: KeypointData[],
+  missingKeypoints: string[],
+  posture: ExerciseDefinition['posture'],
+  imageSize: { width: number; height: number }
+): string[] {
+  const torsoPx = getBodyScale(visible, imageSize);
+  // Standing lifters fill the frame's height, lying ones its width
+  const fill = (torsoPx * BODY_TO_TORSO) / (posture === 'lying' ? imageSize.width : imageSize.height);
+  // The camera sees TORSO_M * BODY_TO_TORSO / fill metres along the body at the lifter's distance, and that
+  // width grows with distance by 2 tan(fov / 2), which gives how far to move to reach the target fill
+  const span = 2 * Math.tan((CAMERA_FOV_DEGREES * Math.PI) / 360);
+  const stepBack = ((TORSO_M * BODY_TO_TORSO) / span) * (1 / TARGET_FILL - 1 / fill);
+
+  if (fill > MAX_FILL) {
+    return [`Step back about ${formatDistance(stepBack)} so your whole body fits in the frame`];
+  }
+  if (fill < MIN_FILL) {
+    return [`Step closer, about ${formatDistance(-stepBack)}, so the camera can see you clearly`];
+  }
+
+  const instructions: string[] = [];
+  const xs = visible.map(kp => kp.x);
+  const ys = visible.map(kp => kp.y);
+  if (missingKeypoints.length > 0) {
+    if (Math.max(...ys) > imageSize.height * (1 - EDGE_MARGIN)) {
+      instructions.push(`Tilt the phone down to get your ${describeJoints(missingKeypoints)} in frame`);
+    } else if (Math.min(...ys) < imageSize.height * EDGE_MARGIN) {
+      instructions.push(`Tilt the phone up to get your ${describeJoints(missingKeypoints)} in frame`);
+    }
+  }
+
+  const offCentre = (Math.min(...xs) + Math.max(...xs)) / 2 - imageSize.width / 2;
+  if (Math.abs(offCentre) > imageSize.width * MAX_OFF_CENTRE) {
+    // The preview is mirrored, so the right of the analyzed frame is its left
+    const edge = offCentre > 0 ? 'left' : 'right';
+    const metres = (Math.abs(offCentre) / torsoPx) * TORSO_M;
+    instructions.push(`Move about ${formatDistance(metres)} toward the middle, you're near the ${edge} of the preview`);
+  }
+  return instructions;
+}
+
+/**
+ * How far and which way to turn (or, lying down, move the phone) so the camera sees the lifter from the target angle
+ */
+function getTurnInstruction(
+  keypoints: KeypointData[],
+  imageSize: { width: number; height: number } | undefined,
+  posture: ExerciseDefinition['posture'],
+  target: SetupView
+): string {
+  // Shoulder width shrinks with the sine of the angle turned away from the camera
+  const left = keypoints.find(kp => kp.class === 'left_shoulder' && kp.confidence >= MIN_CONFIDENCE);
+  const right = keypoints.find(kp => kp.class === 'right_shoulder' && kp.confidence >= MIN_CONFIDENCE);
+  let degrees = 90;
+  if (left && right) {
+    const width = Math.hypot(left.x - right.x, left.y - right.y) / getBodyScale(keypoints, imageSize);
+    const fromSide = (Math.asin(Math.min(1, width / FRONT_ON_SHOULDER_WIDTH)) * 180) / Math.PI;
+    degrees = target === 'side' ? fromSide : 90 - fromSide;
+  }
+  const turn = `${Math.max(15, Math.round(degrees / 15) * 15)}°`;
+
+  // Facing the right of the analyzed frame, a lifter turning to their right comes round toward the camera.
+  // The turn is named from the lifter's side, which the mirrored preview doesn't swap
+  const facing = determineFacingDirection(keypoints, posture, imageSize);
+  const opposite = facing === 'right' ? 'left' : 'right';
+  const way = facing === 'unknown' ? '' : ` to your ${target === 'front' ? facing : opposite}`;
+
+  if (posture === 'lying') {
+    return target === 'side'
+      ? `Move the phone about ${turn} around the bench so it films you from the side`
+      : `Move the phone about ${turn} around the bench so it films you from your feet`;
+  }
+  return target === 'side'
+    ? `Turn about ${turn}${way} so your side faces the camera`
+    : `Turn about ${turn}${way} so you face the camera`;
+}
+
+/**
+ * Angle of the hip-to-shoulder line from upright, or from flat for lifts done lying down
+ */
+function measureTilt(visible: KeypointData[], posture: ExerciseDefinition['posture']): number | null {
+  const midpoint = (joint: string) => {
+    const points = visible.filter(kp => kp.class === `left_${joint}` || kp.class === `right_${joint}`);
+    if (points.length === 0) {
+      return null;
+    }
+    return {
+      x: points.reduce((sum, kp) => sum + kp.x, 0) / points.length,
+      y: points.reduce((sum, kp) => sum + kp.y, 0) / points.length
+    };
+  };
+  const hips = midpoint('hip');
+  const shoulders = midpoint('shoulder');
+  if (!hips || !shoulders) {
+    return null;
+  }
+
+  // Image y grows downwards
+  const fromUpright = Math.abs((Math.atan2(shoulders.x - hips.x, hips.y - shoulders.y) * 180) / Math.PI);
+  return posture === 'lying' ? Math.abs(90 - fromUpright) : fromUpright;
+}
+
+/**
+ * A distance to move, rounded to the nearest half metre
+ */
+function formatDistance(metres: number): string {
+  return `${Math.max(0.5, Math.round(metres * 2) / 2)} m`;
+}
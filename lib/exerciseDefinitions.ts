@@ -0,0 +1,922 @@
+/**
+ * Exercise definitions for Coachly
+ * Each exercise is described as data (keypoints, angles, phase-tagged rules, feedback and tips)
+ * and evaluated by the generic rule engine in techniqueAnalysis.ts
+ */
+
+import type { MovementPhase } from './techniqueAnalysis';
+
+export type ExerciseId = string;
+
+// Body parts without the left_/right_ prefix; all but the nose are read from the visible side
+export type JointName = 'nose' | 'ear' | 'shoulder' | 'elbow' | 'wrist' | 'hip' | 'knee' | 'ankle' | 'toe';
+
+export const JOINT_NAMES: JointName[] = ['nose', 'ear', 'shoulder', 'elbow', 'wrist', 'hip', 'knee', 'ankle', 'toe'];
+
+// Angles measured at the middle joint
+export const STANDARD_ANGLES: Record<string, [JointName, JointName, JointName]> = {
+  knee: ['ankle', 'knee', 'hip'],
+  hip: ['knee', 'hip', 'shoulder'],
+  elbow: ['shoulder', 'elbow', 'wrist'],
+  shoulder: ['hip', 'shoulder', 'elbow']
+};
+
+/**
+ * What a rule measures. Distances are in torso lengths, angles in degrees.
+ */
+export type RuleMetric =
+  // Angle at a named joint from the exercise's `angles`
+  | { kind: 'angle'; angle: string }
+  // Angle between the segment from -> to and straight up
+  | { kind: 'vertical_angle'; from: JointName; to: JointName }
+  // Degrees the segment from -> to leans forward of straight up, negative leaning back (needs a known facing direction)
+  | { kind: 'forward_lean'; from: JointName; to: JointName }
+  // Horizontal distance between two joints, ignoring direction
+  | { kind: 'horizontal_distance'; from: JointName; to: JointName }
+  // How far `to` sits in front of `from`, negative when behind (needs a known facing direction)
+  | { kind: 'forward_offset'; from: JointName; to: JointName }
+  // How far `to` sits above `from`, negative when below
+  | { kind: 'vertical_offset'; from: JointName; to: JointName }
+  // Vertical distance between two joints, ignoring direction
+  | { kind: 'vertical_distance'; from: JointName; to: JointName }
+  // (a.y - b.y) / (b.y - c.y) for joints [a, b, c], e.g. hip height relative to shin length
+  | { kind: 'vertical_ratio'; joints: [JointName, JointName, JointName] };
+
+export const RULE_METRIC_KINDS: RuleMetric['kind'][] = [
+  'angle',
+  'vertical_angle',
+  'forward_lean',
+  'horizontal_distance',
+  'forward_offset',
+  'vertical_offset',
+  'vertical_distance',
+  'vertical_ratio'
+];
+
+export interface ExerciseRule {
+  id: string; // Unique within the exercise
+  phases: MovementPhase[]; // Phases the rule is checked in
+  metric: RuleMetric;
+  comparison: 'above' | 'below'; // The issue fires when the measured value is above/below the threshold
+  threshold: number;
+  penalty: number; // Subtracted from the exercise's score multiplier when the issue fires
+  cue?: string; // A few words to speak during a set, e.g. "Chest up"
+  message: string;
+}
+
+/**
+ * A check on the bar's path over a whole rep. Distances are in torso lengths
+ */
+export interface BarPathCheck {
+  id: string; // Unique within the exercise, alongside the rule ids
+  // vertical_deviation: furthest the bar strays sideways from where the rep started
+  // horizontal_drift: how far the bar finishes the rep from where it started
+  metric: 'vertical_deviation' | 'horizontal_drift';
+  threshold: number; // The issue fires when the measured value is above this
+  penalty: number; // Subtracted from the rep's score when the issue fires
+  cue?: string;
+  message: string;
+}
+
+/**
+ * A left/right comparison, checked when the camera faces the lifter and both sides are visible
+ */
+export interface SymmetryCheck {
+  id: string; // Unique within the exercise, alongside the rule ids
+  // knee_valgus: how much narrower the knees are than the ankles, as a fraction of ankle width
+  // hip_shift: sideways distance from the middle of the hips to the middle of the feet, in torso lengths
+  // shoulder_tilt / wrist_tilt: height difference between the left and right joint, in torso lengths
+  metric: 'knee_valgus' | 'hip_shift' | 'shoulder_tilt' | 'wrist_tilt';
+  threshold: number; // The issue fires when the measured value is above this
+  penalty: number; // Subtracted from the exercise's score multiplier when the issue fires
+  cue?: string;
+  message: string;
+}
+
+export interface ExerciseDefinition {
+  id: ExerciseId;
+  name: string;
+  icon?: string; // Image under public/
+  builtIn?: boolean;
+  posture: 'standing' | 'lying'; // Lying lifts face the direction of the head
+  inclinedTorso?: boolean; // Lying lifts whose torso isn't flat at the start (e.g. shoulders on a bench, hips down)
+  requiredKeypoints: string[]; // Full keypoint names that must be in frame
+  analysisJoints: JointName[]; // Joints on the visible side needed to analyze form at all
+  unanalyzableMessage: string; // Issue reported when the analysis joints aren't visible
+  angles: Record<string, [JointName, JointName, JointName]>; // Joint angles to measure
+  primaryAngle: {
+    angle: string; // Angle from `angles` that tracks progress through a rep
+    lockoutAngle: number; // At or above this the lifter is locked out
+    bottomAngle: number; // At or below this the lifter has reached the bottom
+    bottomIsSetup?: boolean; // The lift starts from the bottom (e.g. deadlift from the floor)
+  };
+  rules: ExerciseRule[];
+  barPath?: BarPathCheck[]; // Barbell lifts only
+  symmetry?: SymmetryCheck[]; // Run instead of the rules when the camera faces the lifter
+  velocityJoint?: JointName; // Joint whose speed is measured for lifts that don't move a bar, e.g. shoulders in a pull-up
+  feedback: {
+    needsWork: string[]; // Shown when the score is below 0.8
+    poor: string[]; // Added when the score is below 0.6
+  };
+  tips: string[];
+}
+
+export const ALL_PHASES: MovementPhase[] = ['setup', 'descent', 'bottom', 'ascent', 'lockout'];
+const MOVING_PHASES: MovementPhase[] = ['descent', 'bottom', 'ascent'];
+
+export const BUILT_IN_EXERCISES: ExerciseDefinition[] = [
+  {
+    id: 'squat',
+    name: 'Squat',
+    icon: '/squat.png',
+    builtIn: true,
+    posture: 'standing',
+    requiredKeypoints: ['left_shoulder', 'right_shoulder', 'left_hip', 'right_hip', 'left_knee', 'right_knee', 'left_ankle', 'right_ankle'],
+    analysisJoints: ['ankle', 'knee', 'hip', 'shoulder'],
+    unanalyzableMessage: "Cannot analyze squat form - key body parts not visible",
+    angles: { knee: STANDARD_ANGLES.knee, hip: STANDARD_ANGLES.hip },
+    primaryAngle: { angle: 'knee', lockoutAngle: 160, bottomAngle: 110 },
+    rules: [
+      {
+        // Significant forward lean indicates heels lifting
+        id: 'heels_lifting',
+        phases: MOVING_PHASES,
+        metric: { kind: 'horizontal_distance', from: 'ankle', to: 'knee' },
+        comparison: 'above',
+        threshold: 0.35,
+        penalty: 0.25,
+        cue: "Heels down",
+        message: "Weight may be shifting to toes - focus on keeping heels down"
+      },
+      {
+        id: 'knee_forward',
+        phases: MOVING_PHASES,
+        metric: { kind: 'forward_offset', from: 'ankle', to: 'knee' },
+        comparison: 'above',
+        threshold: 0.45,
+        penalty: 0.2,
+        cue: "Sit back",
+        message: "Knees are tracking too far forward - sit back more into the squat"
+      },
+      {
+        // "Good morning" squat: hips rising faster than chest
+        id: 'chest_collapse',
+        phases: MOVING_PHASES,
+        metric: { kind: 'vertical_angle', from: 'hip', to: 'shoulder' },
+        comparison: 'above',
+        threshold: 45,
+        penalty: 0.3,
+        cue: "Chest up",
+        message: "Chest is collapsing forward - keep your torso more upright"
+      },
+      {
+        // Thighs parallel puts the knee at roughly 90-100°
+        id: 'depth',
+        phases: ['bottom'],
+        metric: { kind: 'angle', angle: 'knee' },
+        comparison: 'above',
+        threshold: 100,
+        penalty: 0.1,
+        cue: "Deeper",
+        message: "Try to squat deeper - aim for thighs parallel to the ground"
+      },
+      {
+        id: 'butt_wink',
+        phases: ['bottom'],
+        metric: { kind: 'angle', angle: 'hip' },
+        comparison: 'below',
+        threshold: 70,
+        penalty: 0.15,
+        cue: "Not so deep",
+        message: "Excessive hip flexion detected - avoid excessive 'butt wink'"
+      },
+      {
+        id: 'head_position',
+        phases: ALL_PHASES,
+        metric: { kind: 'vertical_distance', from: 'shoulder', to: 'nose' },
+        comparison: 'above',
+        threshold: 0.55,
+        penalty: 0.1,
+        cue: "Neutral head",
+        message: "Maintain neutral head position - avoid looking too far up or down"
+      }
+    ],
+    symmetry: [
+      {
+        id: 'knee_valgus',
+        metric: 'knee_valgus',
+        threshold: 0.25,
+        penalty: 0.3,
+        cue: "Knees out",
+        message: "Knees are caving inward - push them out in line with your toes"
+      },
+      {
+        id: 'hip_shift',
+        metric: 'hip_shift',
+        threshold: 0.15,
+        penalty: 0.2,
+        cue: "Stay centered",
+        message: "Hips are shifting to one side - keep your weight even over both feet"
+      },
+      {
+        id: 'uneven_shoulders',
+        metric: 'shoulder_tilt',
+        threshold: 0.12,
+        penalty: 0.15,
+        cue: "Level the bar",
+        message: "One shoulder is lower than the other - keep the bar level across your back"
+      }
+    ],
+    feedback: {
+      needsWork: [
+        "Focus on the ankle → knee → hip → chest alignment",
+        "Keep your weight on your heels throughout the movement",
+        "Maintain an upright chest and avoid leaning forward"
+      ],
+      poor: [
+        "Work on hip and ankle mobility to improve squat depth",
+        "Practice bodyweight squats to master the movement pattern"
+      ]
+    },
+    tips: [
+      "Keep your chest up and shoulders back",
+      "Ensure knees track over your toes",
+      "Maintain a neutral spine throughout the movement",
+      "Descend until thighs are parallel to the floor",
+      "Drive through your heels when standing up"
+    ]
+  },
+  {
+    id: 'bench',
+    name: 'Bench',
+    icon: '/bench.png',
+    builtIn: true,
+    posture: 'lying',
+    requiredKeypoints: ['left_shoulder', 'right_shoulder', 'left_elbow', 'right_elbow', 'left_wrist', 'right_wrist'],
+    analysisJoints: ['shoulder', 'elbow', 'wrist'],
+    unanalyzableMessage: "Cannot analyze bench form - arm positions not clearly visible",
+    angles: { elbow: STANDARD_ANGLES.elbow },
+    primaryAngle: { angle: 'elbow', lockoutAngle: 150, bottomAngle: 100 },
+    rules: [
+      {
+        // Shoulders should be retracted, not shrugged up
+        id: 'shoulders_shrugged',
+        phases: ALL_PHASES,
+        metric: { kind: 'vertical_offset', from: 'hip', to: 'shoulder' },
+        comparison: 'above',
+        threshold: 0.85,
+        penalty: 0.2,
+        cue: "Shoulders down",
+        message: "Shoulders may be shrugged up - retract and depress shoulder blades"
+      },
+      {
+        // Arms are straight at lockout, so elbow position is judged at the bottom
+        id: 'elbows_flared',
+        phases: ['bottom'],
+        metric: { kind: 'angle', angle: 'elbow' },
+        comparison: 'above',
+        threshold: 100,
+        penalty: 0.25,
+        cue: "Tuck your elbows",
+        message: "Elbows flared too wide - bring them closer to your body"
+      },
+      {
+        id: 'elbows_tucked',
+        phases: ['bottom'],
+        metric: { kind: 'angle', angle: 'elbow' },
+        comparison: 'below',
+        threshold: 45,
+        penalty: 0.15,
+        cue: "Elbows out a bit",
+        message: "Elbows tucked too tight - allow for slight flare"
+      },
+      {
+        // Wrist should be stacked over forearm
+        id: 'wrist_alignment',
+        phases: ALL_PHASES,
+        metric: { kind: 'horizontal_distance', from: 'elbow', to: 'wrist' },
+        comparison: 'above',
+        threshold: 0.2,
+        penalty: 0.2,
+        cue: "Stack your wrists",
+        message: "Wrist alignment could be improved - keep wrists straight and stacked"
+      },
+      {
+        // In side view, bar should descend toward lower chest area
+        id: 'bar_path',
+        phases: MOVING_PHASES,
+        metric: { kind: 'forward_offset', from: 'shoulder', to: 'wrist' },
+        comparison: 'above',
+        threshold: 0.3,
+        penalty: 0.3,
+        cue: "Lower chest",
+        message: "Bar path may be too far toward your face - aim for lower chest"
+      },
+      {
+        id: 'back_arch',
+        phases: ALL_PHASES,
+        metric: { kind: 'horizontal_distance', from: 'hip', to: 'shoulder' },
+        comparison: 'above',
+        threshold: 0.45,
+        penalty: 0.15,
+        cue: "Less arch",
+        message: "Excessive back arch detected - maintain moderate natural arch"
+      },
+      {
+        id: 'head_lifted',
+        phases: ALL_PHASES,
+        metric: { kind: 'vertical_offset', from: 'nose', to: 'shoulder' },
+        comparison: 'above',
+        threshold: 0.3,
+        penalty: 0.1,
+        cue: "Head down",
+        message: "Keep your head on the bench - avoid lifting it during the press"
+      }
+    ],
+    barPath: [
+      {
+        // The bar normally curves slightly from the lower chest back over the shoulders, so only a wide path fires
+        id: 'bar_path_wander',
+        metric: 'vertical_deviation',
+        threshold: 0.6,
+        penalty: 0.2,
+        cue: "Lower chest",
+        message: "Bar path wandered during the rep - touch your lower chest and press back over your shoulders"
+      },
+      {
+        id: 'bar_drift',
+        metric: 'horizontal_drift',
+        threshold: 0.35,
+        penalty: 0.15,
+        cue: "Same groove",
+        message: "Bar finished the rep away from where it started - lock out over your shoulders every rep"
+      }
+    ],
+    symmetry: [
+      {
+        id: 'uneven_bar',
+        metric: 'wrist_tilt',
+        threshold: 0.1,
+        penalty: 0.25,
+        cue: "Press evenly",
+        message: "Bar is tilted - one hand is lower, press evenly with both arms"
+      },
+      {
+        id: 'uneven_shoulders',
+        metric: 'shoulder_tilt',
+        threshold: 0.12,
+        penalty: 0.15,
+        cue: "Both shoulders down",
+        message: "One shoulder is lifting off the bench - keep both shoulder blades pinned"
+      }
+    ],
+    feedback: {
+      needsWork: [
+        "Focus on shoulder → elbow → wrist → bar path alignment",
+        "Retract your shoulder blades and maintain stability",
+        "Keep your wrists straight and stacked over your forearms"
+      ],
+      poor: [
+        "Work on shoulder mobility and scapular stability",
+        "Practice the movement with lighter weight or just the bar"
+      ]
+    },
+    tips: [
+      "Keep your feet firmly planted on the ground",
+      "Maintain a slight arch in your lower back",
+      "Keep your shoulder blades pulled together",
+      "Lower the bar to your chest with control",
+      "Press the bar in a straight line above your chest"
+    ]
+  },
+  {
+    id: 'deadlift',
+    name: 'Deadlift',
+    icon: '/deadlift.png',
+    builtIn: true,
+    posture: 'standing',
+    requiredKeypoints: ['left_shoulder', 'right_shoulder', 'left_hip', 'right_hip', 'left_knee', 'right_knee', 'left_ankle', 'right_ankle'],
+    analysisJoints: ['ankle', 'knee', 'hip', 'shoulder'],
+    unanalyzableMessage: "Cannot analyze deadlift form - key body parts not visible",
+    angles: { knee: STANDARD_ANGLES.knee, hip: STANDARD_ANGLES.hip },
+    primaryAngle: { angle: 'hip', lockoutAngle: 160, bottomAngle: 120, bottomIsSetup: true },
+    rules: [
+      {
+        // Bar sits over the ankles, shoulder should be over or slightly in front of it
+        id: 'bar_far',
+        phases: ['setup', 'ascent'],
+        metric: { kind: 'forward_offset', from: 'ankle', to: 'shoulder' },
+        comparison: 'below',
+        threshold: -0.15,
+        penalty: 0.3,
+        cue: "Bar close",
+        message: "Bar appears too far from your body - keep it close to your shins"
+      },
+      {
+        id: 'hips_high',
+        phases: ['setup'],
+        metric: { kind: 'vertical_ratio', joints: ['hip', 'knee', 'ankle'] },
+        comparison: 'above',
+        threshold: 2.5,
+        penalty: 0.2,
+        cue: "Hips down",
+        message: "Hips may be too high - lower them to engage your legs more"
+      },
+      {
+        id: 'hips_low',
+        phases: ['setup'],
+        metric: { kind: 'vertical_ratio', joints: ['hip', 'knee', 'ankle'] },
+        comparison: 'below',
+        threshold: 0.8,
+        penalty: 0.2,
+        cue: "Hips up",
+        message: "Hips may be too low - this isn't a squat, raise them slightly"
+      },
+      {
+        id: 'spine_rounded',
+        phases: ['setup', 'descent', 'ascent'],
+        metric: { kind: 'vertical_angle', from: 'shoulder', to: 'hip' },
+        comparison: 'above',
+        threshold: 60,
+        penalty: 0.4,
+        cue: "Flat back",
+        message: "Spine appears rounded - keep your chest up and shoulders back"
+      },
+      {
+        // Knees straighten at lockout anyway, they shouldn't be locked before the pull
+        id: 'knees_locked',
+        phases: ['setup'],
+        metric: { kind: 'angle', angle: 'knee' },
+        comparison: 'above',
+        threshold: 160,
+        penalty: 0.15,
+        cue: "Soft knees",
+        message: "Knees appear locked - maintain slight bend to engage leg muscles"
+      },
+      {
+        id: 'looking_up',
+        phases: ALL_PHASES,
+        metric: { kind: 'vertical_angle', from: 'nose', to: 'shoulder' },
+        comparison: 'above',
+        threshold: 45,
+        penalty: 0.1,
+        cue: "Chin down",
+        message: "Avoid looking up excessively - maintain neutral neck position"
+      },
+      {
+        id: 'looking_down',
+        phases: ALL_PHASES,
+        metric: { kind: 'vertical_angle', from: 'nose', to: 'shoulder' },
+        comparison: 'below',
+        threshold: 15,
+        penalty: 0.1,
+        cue: "Eyes forward",
+        message: "Avoid looking down - keep your head in neutral position"
+      }
+    ],
+    barPath: [
+      {
+        id: 'bar_path_wander',
+        metric: 'vertical_deviation',
+        threshold: 0.25,
+        penalty: 0.25,
+        cue: "Bar close",
+        message: "Bar swung away from a straight vertical path - drag it up your shins and thighs"
+      },
+      {
+        id: 'bar_drift',
+        metric: 'horizontal_drift',
+        threshold: 0.15,
+        penalty: 0.15,
+        cue: "Over midfoot",
+        message: "Bar finished the rep away from where it started - keep it over your midfoot"
+      }
+    ],
+    symmetry: [
+      {
+        id: 'knee_valgus',
+        metric: 'knee_valgus',
+        threshold: 0.25,
+        penalty: 0.25,
+        cue: "Knees out",
+        message: "Knees are caving inward - push them out against your arms"
+      },
+      {
+        id: 'hip_shift',
+        metric: 'hip_shift',
+        threshold: 0.15,
+        penalty: 0.2,
+        cue: "Stay centered",
+        message: "Hips are shifting to one side - push evenly through both feet"
+      },
+      {
+        id: 'uneven_bar',
+        metric: 'wrist_tilt',
+        threshold: 0.1,
+        penalty: 0.2,
+        cue: "Level the bar",
+        message: "Bar is tilted - pull evenly with both arms"
+      }
+    ],
+    feedback: {
+      needsWork: [
+        "Keep the bar path close to your body throughout the lift",
+        "Maintain a neutral spine - avoid rounding your back",
+        "Focus on the ankle → knee → hip → chest chain alignment"
+      ],
+      poor: [
+        "Work on hip hinge mobility and posterior chain strength",
+        "Consider starting with lighter weight to perfect your form"
+      ]
+    },
+    tips: [
+      "Keep the bar close to your body throughout",
+      "Maintain a neutral spine - no rounding",
+      "Engage your lats to keep the bar close",
+      "Drive through your heels and squeeze your glutes",
+      "Keep your shoulders back and chest up"
+    ]
+  },
+  {
+    id: 'overhead_press',
+    name: 'Overhead Press',
+    builtIn: true,
+    posture: 'standing',
+    requiredKeypoints: ['left_shoulder', 'right_shoulder', 'left_elbow', 'right_elbow', 'left_wrist', 'right_wrist', 'left_hip', 'right_hip'],
+    analysisJoints: ['wrist', 'elbow', 'shoulder', 'hip'],
+    unanalyzableMessage: "Cannot analyze overhead press form - arms and torso not clearly visible",
+    angles: { elbow: STANDARD_ANGLES.elbow, shoulder: STANDARD_ANGLES.shoulder, knee: STANDARD_ANGLES.knee },
+    primaryAngle: { angle: 'elbow', lockoutAngle: 160, bottomAngle: 90 },
+    rules: [
+      {
+        // Leaning back turns the press into an incline press and loads the lower back
+        id: 'leaning_back',
+        phases: ALL_PHASES,
+        metric: { kind: 'forward_lean', from: 'hip', to: 'shoulder' },
+        comparison: 'below',
+        threshold: -20,
+        penalty: 0.3,
+        cue: "Squeeze your glutes",
+        message: "Leaning back too far - squeeze your glutes and brace your core"
+      },
+      {
+        // Arms straight but out in front rather than overhead
+        id: 'incomplete_lockout',
+        phases: ['lockout'],
+        metric: { kind: 'angle', angle: 'shoulder' },
+        comparison: 'below',
+        threshold: 150,
+        penalty: 0.2,
+        cue: "Head through",
+        message: "Finish with the bar directly overhead - push your head through at the top"
+      },
+      {
+        id: 'bar_forward',
+        phases: ['ascent', 'lockout'],
+        metric: { kind: 'forward_offset', from: 'shoulder', to: 'wrist' },
+        comparison: 'above',
+        threshold: 0.3,
+        penalty: 0.2,
+        cue: "Bar back",
+        message: "Bar is drifting forward - press in a straight line over mid-foot"
+      },
+      {
+        // Elbows should start slightly in front of the bar, not behind it
+        id: 'elbows_behind',
+        phases: ['bottom'],
+        metric: { kind: 'forward_offset', from: 'wrist', to: 'elbow' },
+        comparison: 'below',
+        threshold: -0.15,
+        penalty: 0.15,
+        cue: "Elbows forward",
+        message: "Elbows are behind the bar - bring them slightly forward in the rack position"
+      },
+      {
+        // A knee dip turns a strict press into a push press
+        id: 'leg_drive',
+        phases: MOVING_PHASES,
+        metric: { kind: 'angle', angle: 'knee' },
+        comparison: 'below',
+        threshold: 160,
+        penalty: 0.15,
+        cue: "Lock your legs",
+        message: "Knees are bending - keep your legs locked for a strict press"
+      }
+    ],
+    feedback: {
+      needsWork: [
+        "Keep your ribs down and glutes tight to avoid leaning back",
+        "Press the bar in a straight line and move your head out of the way",
+        "Stack the bar over your shoulders and mid-foot at lockout"
+      ],
+      poor: [
+        "Work on thoracic and shoulder mobility to get the bar overhead",
+        "Practice with a lighter weight or dumbbells to groove the pattern"
+      ]
+    },
+    tips: [
+      "Start with the bar on your front shoulders and elbows slightly forward",
+      "Squeeze your glutes and brace your core before each rep",
+      "Tuck your chin back as the bar passes your face",
+      "Push your head through once the bar clears it",
+      "Lock out with the bar over your shoulders and mid-foot"
+    ]
+  },
+  {
+    id: 'barbell_row',
+    name: 'Barbell Row',
+    builtIn: true,
+    posture: 'standing',
+    requiredKeypoints: ['left_shoulder', 'right_shoulder', 'left_elbow', 'right_elbow', 'left_wrist', 'right_wrist', 'left_hip', 'right_hip', 'left_knee', 'right_knee'],
+    analysisJoints: ['wrist', 'elbow', 'shoulder', 'hip'],
+    unanalyzableMessage: "Cannot analyze row form - arms and torso not clearly visible",
+    angles: { elbow: STANDARD_ANGLES.elbow, shoulder: STANDARD_ANGLES.shoulder, knee: STANDARD_ANGLES.knee },
+    // Rows start with the arms straight, so lockout is the hang and "bottom" is the bar at the torso
+    primaryAngle: { angle: 'elbow', lockoutAngle: 150, bottomAngle: 90 },
+    rules: [
+      {
+        // Standing up turns the row into a shrug and hides weak pulls
+        id: 'torso_upright',
+        phases: ALL_PHASES,
+        metric: { kind: 'vertical_angle', from: 'hip', to: 'shoulder' },
+        comparison: 'below',
+        threshold: 30,
+        penalty: 0.3,
+        cue: "Stay bent over",
+        message: "Torso is too upright - hinge further forward and hold that angle"
+      },
+      {
+        // Upper arm should finish roughly in line with the torso
+        id: 'short_pull',
+        phases: ['bottom'],
+        metric: { kind: 'angle', angle: 'shoulder' },
+        comparison: 'above',
+        threshold: 50,
+        penalty: 0.2,
+        cue: "Pull higher",
+        message: "Pull higher - drive your elbows back until the bar touches your torso"
+      },
+      {
+        id: 'forearms_angled',
+        phases: ['descent', 'bottom', 'ascent'],
+        metric: { kind: 'horizontal_distance', from: 'elbow', to: 'wrist' },
+        comparison: 'above',
+        threshold: 0.25,
+        penalty: 0.15,
+        cue: "Drive your elbows",
+        message: "Keep your forearms vertical - pull with your elbows, not your hands"
+      },
+      {
+        id: 'knees_locked',
+        phases: ALL_PHASES,
+        metric: { kind: 'angle', angle: 'knee' },
+        comparison: 'above',
+        threshold: 170,
+        penalty: 0.1,
+        cue: "Soft knees",
+        message: "Knees appear locked - keep a slight bend to take load off your lower back"
+      },
+      {
+        id: 'looking_up',
+        phases: ALL_PHASES,
+        metric: { kind: 'vertical_angle', from: 'shoulder', to: 'nose' },
+        comparison: 'below',
+        threshold: 20,
+        penalty: 0.1,
+        cue: "Neutral neck",
+        message: "Avoid craning your neck up - keep your head in line with your spine"
+      }
+    ],
+    feedback: {
+      needsWork: [
+        "Hold your hinge angle - don't stand up to finish the rep",
+        "Lead the pull with your elbows and keep your forearms vertical",
+        "Brace your core so your lower back stays neutral"
+      ],
+      poor: [
+        "Work on hip hinge strength so you can hold the bent-over position",
+        "Lower the weight until you can touch the bar to your torso every rep"
+      ]
+    },
+    tips: [
+      "Hinge at the hips until your torso is close to parallel with the floor",
+      "Keep a slight bend in your knees and a neutral spine",
+      "Pull the bar to your lower chest or upper belly",
+      "Squeeze your shoulder blades together at the top",
+      "Lower the bar under control to a full arm extension"
+    ]
+  },
+  {
+    id: 'lunge',
+    name: 'Lunge / Split Squat',
+    builtIn: true,
+    posture: 'standing',
+    requiredKeypoints: ['left_shoulder', 'right_shoulder', 'left_hip', 'right_hip', 'left_knee', 'right_knee', 'left_ankle', 'right_ankle'],
+    analysisJoints: ['ankle', 'knee', 'hip', 'shoulder'],
+    unanalyzableMessage: "Cannot analyze lunge form - key body parts not visible",
+    angles: { knee: STANDARD_ANGLES.knee, hip: STANDARD_ANGLES.hip },
+    primaryAngle: { angle: 'knee', lockoutAngle: 160, bottomAngle: 110 },
+    velocityJoint: 'hip',
+    rules: [
+      {
+        id: 'torso_lean',
+        phases: MOVING_PHASES,
+        metric: { kind: 'vertical_angle', from: 'hip', to: 'shoulder' },
+        comparison: 'above',
+        threshold: 30,
+        penalty: 0.25,
+        cue: "Stay tall",
+        message: "Torso is leaning forward - stay tall with your chest up"
+      },
+      {
+        // Only the front leg's knee can end up in front of its ankle
+        id: 'knee_forward',
+        phases: MOVING_PHASES,
+        metric: { kind: 'forward_offset', from: 'ankle', to: 'knee' },
+        comparison: 'above',
+        threshold: 0.45,
+        penalty: 0.2,
+        cue: "Longer stride",
+        message: "Front knee is travelling well past your toes - take a longer stride"
+      },
+      {
+        id: 'depth',
+        phases: ['bottom'],
+        metric: { kind: 'angle', angle: 'knee' },
+        comparison: 'above',
+        threshold: 100,
+        penalty: 0.15,
+        cue: "Deeper",
+        message: "Go lower - drop until your back knee is just above the floor"
+      },
+      {
+        id: 'head_position',
+        phases: ALL_PHASES,
+        metric: { kind: 'vertical_distance', from: 'shoulder', to: 'nose' },
+        comparison: 'above',
+        threshold: 0.55,
+        penalty: 0.1,
+        cue: "Look ahead",
+        message: "Maintain neutral head position - look straight ahead"
+      }
+    ],
+    feedback: {
+      needsWork: [
+        "Drop straight down between your feet rather than lunging forward",
+        "Keep your torso upright and your core braced",
+        "Keep your front heel planted as you drive back up"
+      ],
+      poor: [
+        "Hold onto a support for balance while you learn the movement",
+        "Work on hip flexor and ankle mobility to reach full depth"
+      ]
+    },
+    tips: [
+      "Take a stride long enough that your front shin stays close to vertical",
+      "Keep your weight over your front heel and mid-foot",
+      "Lower your back knee straight down toward the floor",
+      "Keep your hips square and your chest up",
+      "Drive through your front heel to stand back up"
+    ]
+  },
+  {
+    id: 'hip_thrust',
+    name: 'Hip Thrust',
+    builtIn: true,
+    // Upper back on the bench, so the head marks the direction the lifter faces
+    posture: 'lying',
+    inclinedTorso: true,
+    requiredKeypoints: ['left_shoulder', 'right_shoulder', 'left_hip', 'right_hip', 'left_knee', 'right_knee', 'left_ankle', 'right_ankle'],
+    analysisJoints: ['ankle', 'knee', 'hip', 'shoulder'],
+    unanalyzableMessage: "Cannot analyze hip thrust form - key body parts not visible",
+    angles: { knee: STANDARD_ANGLES.knee, hip: STANDARD_ANGLES.hip },
+    primaryAngle: { angle: 'hip', lockoutAngle: 160, bottomAngle: 110 },
+    velocityJoint: 'hip',
+    rules: [
+      {
+        // Hips driven above the shoulder-knee line means the lower back is arching
+        id: 'overextension',
+        phases: ['lockout'],
+        metric: { kind: 'vertical_offset', from: 'shoulder', to: 'hip' },
+        comparison: 'above',
+        threshold: 0.3,
+        penalty: 0.25,
+        cue: "Ribs down",
+        message: "Lower back is overarching at the top - keep your ribs down and tuck your chin"
+      },
+      {
+        // Shins should be vertical at the top, which puts the knee near 90°
+        id: 'feet_close',
+        phases: ['lockout'],
+        metric: { kind: 'angle', angle: 'knee' },
+        comparison: 'below',
+        threshold: 70,
+        penalty: 0.15,
+        cue: "Feet out",
+        message: "Feet are too close to your hips - move them out so your shins are vertical at the top"
+      },
+      {
+        id: 'feet_far',
+        phases: ['lockout'],
+        metric: { kind: 'angle', angle: 'knee' },
+        comparison: 'above',
+        threshold: 110,
+        penalty: 0.15,
+        cue: "Feet in",
+        message: "Feet are too far away - bring them closer so your shins are vertical at the top"
+      },
+      {
+        id: 'shallow_bottom',
+        phases: ['bottom'],
+        metric: { kind: 'angle', angle: 'hip' },
+        comparison: 'above',
+        threshold: 100,
+        penalty: 0.1,
+        cue: "All the way down",
+        message: "Lower your hips further between reps for a full range of motion"
+      }
+    ],
+    feedback: {
+      needsWork: [
+        "Drive through your heels and finish with a strong glute squeeze",
+        "Keep your chin tucked and ribs down at the top",
+        "Set your feet so your shins are vertical at lockout"
+      ],
+      poor: [
+        "Practice glute bridges on the floor to learn the hip extension",
+        "Reduce the weight until you can lock out without arching your back"
+      ]
+    },
+    tips: [
+      "Rest the bench just below your shoulder blades",
+      "Place your feet about shoulder-width apart, flat on the floor",
+      "Keep your chin tucked and eyes forward, not at the ceiling",
+      "Drive through your heels until your hips are level with your shoulders and knees",
+      "Pause and squeeze your glutes at the top of each rep"
+    ]
+  },
+  {
+    id: 'pull_up',
+    name: 'Pull-Up',
+    builtIn: true,
+    posture: 'standing',
+    requiredKeypoints: ['left_shoulder', 'right_shoulder', 'left_elbow', 'right_elbow', 'left_wrist', 'right_wrist', 'left_hip', 'right_hip'],
+    analysisJoints: ['wrist', 'elbow', 'shoulder'],
+    unanalyzableMessage: "Cannot analyze pull-up form - arms not clearly visible",
+    angles: { elbow: STANDARD_ANGLES.elbow, knee: STANDARD_ANGLES.knee },
+    // The dead hang counts as lockout and the top of the pull as the bottom of the rep
+    primaryAngle: { angle: 'elbow', lockoutAngle: 150, bottomAngle: 80 },
+    // The hands hang from a fixed bar, so the body's speed is taken from the shoulders
+    velocityJoint: 'shoulder',
+    rules: [
+      {
+        id: 'chin_below_bar',
+        phases: ['bottom'],
+        metric: { kind: 'vertical_offset', from: 'wrist', to: 'nose' },
+        comparison: 'below',
+        threshold: 0,
+        penalty: 0.25,
+        cue: "Chin over the bar",
+        message: "Pull higher - get your chin over the bar"
+      },
+      {
+        id: 'swinging',
+        phases: MOVING_PHASES,
+        metric: { kind: 'vertical_angle', from: 'hip', to: 'shoulder' },
+        comparison: 'above',
+        threshold: 25,
+        penalty: 0.2,
+        cue: "No swinging",
+        message: "Body is swinging - brace your core and avoid kipping"
+      },
+      {
+        id: 'leg_kick',
+        phases: MOVING_PHASES,
+        metric: { kind: 'angle', angle: 'knee' },
+        comparison: 'below',
+        threshold: 110,
+        penalty: 0.15,
+        cue: "Keep your legs still",
+        message: "Legs are kicking - keep them still and let your back do the work"
+      }
+    ],
+    feedback: {
+      needsWork: [
+        "Start every rep from a full dead hang",
+        "Pull your elbows down toward your hips until your chin clears the bar",
+        "Keep your body still - avoid swinging or kicking"
+      ],
+      poor: [
+        "Build strength with band-assisted or negative pull-ups",
+        "Practice scapular pulls to learn to engage your lats"
+      ]
+    },
+    tips: [
+      "Grip the bar slightly wider than shoulder-width",
+      "Start each rep from a full dead hang with arms straight",
+      "Pull your shoulder blades down and back before bending your arms",
+      "Drive your elbows toward your hips until your chin clears the bar",
+      "Lower yourself under control all the way back down"
+    ]
+  }
+];
@@ -0,0 +1,263 @@
+/**
+ * Exercise recognition for Coachly
+ * Identifies which built-in lift is being performed from a short window of keypoint frames
+ *
+ * Each frame is reduced to a few body-geometry features (torso lean, joint angles, wrist height),
+ * and each lift is scored by how well the window's features and their ranges of motion match its signature
+ */
+
+import type { ExerciseId } from './exerciseDefinitions';
+import type { KeypointFrame } from './repDetection';
+import { calculateAngle, determineSideProfile, getBodyScale, KeypointData, normalizeKeypoints } from './techniqueAnalysis';
+
+export interface ExerciseRecognition {
+  exercise: ExerciseId | 'unknown';
+  confidence: number; // 0-1, how clearly the best match beats the runner-up
+  scores: Record<ExerciseId, number>; // How well the window fits each lift, 0-1
+}
+
+interface FrameFeatures {
+  torsoLean: number | null; // Degrees of the hip -> shoulder line from vertical (0 upright, 90 horizontal)
+  kneeAngle: number | null;
+  hipAngle: number | null;
+  elbowAngle: number | null;
+  wristHeight: number | null; // Wrist height above the shoulder, in torso lengths
+  wristAboveNose: number | null;
+  shoulderY: number | null;
+  hipY: number | null;
+  wristY: number | null;
+  ankleSpread: number | null; // Horizontal distance between the two ankles
+}
+
+interface WindowFeatures {
+  lean: number | null;
+  leanRange: number | null;
+  kneeRange: number | null;
+  hipRange: number | null;
+  elbowRange: number | null;
+  kneeMedian: number | null;
+  wristHeight: number | null;
+  wristAboveNose: number | null;
+  shoulderMotion: number | null;
+  hipMotion: number | null;
+  wristMotion: number | null;
+  ankleSpread: number | null;
+}
+
+// How long a window of frames to classify over
+export const RECOGNITION_WINDOW_MS = 6000;
+
+// Fewer frames than this can't show a full rep
+const MIN_RECOGNITION_FRAMES = 6;
+
+// Degrees the most-moving joint must travel before the window counts as a lift rather than standing still
+const MIN_JOINT_RANGE = 15;
+
+// Below this confidence the movement is reported as unknown
+const MIN_RECOGNITION_CONFIDENCE = 0.4;
+
+// Weight of a feature that couldn't be measured, so a hidden joint neither confirms nor rules out a lift
+const UNMEASURED_FACTOR = 0.5;
+
+// Keeps one noisy feature from ruling a lift out entirely
+const MIN_FACTOR = 0.05;
+
+/**
+ * Linear ramp from 0 at `from` to 1 at `to` (decreasing when `to` < `from`), clamped to 0-1
+ */
+function ramp(value: number | null, from: number, to: number): number {
+  if (value === null) {
+    return UNMEASURED_FACTOR;
+  }
+  return Math.max(0, Math.min(1, (value - from) / (to - from)));
+}
+
+function abs(value: number | null): number | null {
+  return value === null ? null : Math.abs(value);
+}
+
+// Signature of each built-in lift, as factors that are 1 where the window looks like that lift
+const EXERCISE_SIGNATURES: Record<ExerciseId, (f: WindowFeatures) => number[]> = {
+  squat: f => [
+    ramp(f.lean, 70, 45),
+    ramp(f.kneeRange, 20, 50),
+    ramp(f.hipRange, 20, 50),
+    ramp(f.shoulderMotion, 0.3, 0.8),
+    ramp(f.elbowRange, 40, 20),
+    // Bar on the back keeps the hands by the shoulders
+    ramp(abs(f.wristHeight), 0.8, 0.4),
+    ramp(f.ankleSpread, 0.8, 0.4)
+  ],
+  bench: f => [
+    ramp(f.lean, 50, 70),
+    ramp(f.elbowRange, 30, 60),
+    ramp(f.wristHeight, 0.3, 0.8),
+    ramp(f.shoulderMotion, 0.4, 0.2)
+  ],
+  deadlift: f => [
+    ramp(f.hipRange, 30, 60),
+    ramp(f.leanRange, 20, 45),
+    // Arms hang straight, so the hands stay well below the shoulders
+    ramp(f.wristHeight, -0.5, -0.9),
+    ramp(f.elbowRange, 40, 20),
+    ramp(f.wristMotion, 0.3, 0.7)
+  ],
+  overhead_press: f => [
+    ramp(f.lean, 35, 20),
+    ramp(f.elbowRange, 30, 60),
+    ramp(f.wristHeight, 0.2, 0.6),
+    // The bar moves while the body stays put
+    ramp(f.wristMotion, 0.4, 0.8),
+    ramp(f.shoulderMotion, 0.4, 0.2),
+    ramp(f.kneeRange, 30, 15)
+  ],
+  barbell_row: f => [
+    Math.min(ramp(f.lean, 20, 35), ramp(f.lean, 95, 80)),
+    ramp(f.leanRange, 25, 10),
+    ramp(f.elbowRange, 30, 60),
+    ramp(f.wristHeight, -0.3, -0.6),
+    ramp(f.shoulderMotion, 0.4, 0.2),
+    ramp(f.kneeRange, 30, 15)
+  ],
+  lunge: f => [
+    ramp(f.lean, 40, 20),
+    ramp(f.kneeRange, 20, 50),
+    ramp(f.shoulderMotion, 0.2, 0.5),
+    // A split stance separates the feet even from the side
+    ramp(f.ankleSpread, 0.4, 0.8),
+    ramp(f.elbowRange, 40, 20)
+  ],
+  hip_thrust: f => [
+    ramp(f.lean, 40, 60),
+    ramp(f.hipRange, 25, 50),
+    ramp(f.kneeRange, 30, 15),
+    ramp(f.kneeMedian === null ? null : Math.abs(f.kneeMedian - 90), 40, 20),
+    ramp(f.hipMotion, 0.2, 0.5),
+    ramp(f.shoulderMotion, 0.4, 0.2)
+  ],
+  pull_up: f => [
+    ramp(f.lean, 40, 20),
+    ramp(f.wristAboveNose, -0.2, 0.2),
+    ramp(f.elbowRange, 30, 60),
+    // The hands stay on the bar while the body moves
+    ramp(f.shoulderMotion, 0.3, 0.6),
+    ramp(f.wristMotion, 0.4, 0.2)
+  ]
+};
+
+/**
+ * Append a frame to a recognition window, dropping frames older than the window
+ */
+export function addRecognitionFrame(
+  frames: KeypointFrame[],
+  frame: KeypointFrame,
+  windowMs: number = RECOGNITION_WINDOW_MS
+): KeypointFrame[] {
+  return [...frames, frame].filter(f => frame.timestamp - f.timestamp <= windowMs);
+}
+
+/**
+ * Identify the lift being performed across a window of keypoint frames
+ */
+export function recognizeExercise(frames: KeypointFrame[]): ExerciseRecognition {
+  const scores: Record<ExerciseId, number> = {};
+  const unknown: ExerciseRecognition = { exercise: 'unknown', confidence: 0, scores };
+
+  const frameFeatures = frames.map(extractFrameFeatures);
+  if (frameFeatures.filter(f => f.torsoLean !== null).length < MIN_RECOGNITION_FRAMES) {
+    return unknown;
+  }
+
+  const features = summarizeWindow(frameFeatures);
+  const largestRange = Math.max(features.kneeRange ?? 0, features.hipRange ?? 0, features.elbowRange ?? 0);
+  if (largestRange < MIN_JOINT_RANGE) {
+    return unknown;
+  }
+
+  for (const [exercise, signature] of Object.entries(EXERCISE_SIGNATURES)) {
+    // Geometric mean, so a lift has to fit on every feature rather than a few
+    const factors = signature(features).map(factor => Math.max(MIN_FACTOR, factor));
+    scores[exercise] = Math.pow(factors.reduce((product, factor) => product * factor, 1), 1 / factors.length);
+  }
+
+  const ranked = Object.entries(scores).sort((a, b) => b[1] - a[1]);
+  const [best, bestScore] = ranked[0];
+  const secondScore = ranked[1]?.[1] ?? 0;
+  const confidence = bestScore * (bestScore / (bestScore + secondScore));
+
+  if (confidence < MIN_RECOGNITION_CONFIDENCE) {
+    return { ...unknown, confidence };
+  }
+  return { exercise: best, confidence, scores };
+}
+
+/**
+ * Whether a lift has a recognition signature (custom exercises don't)
+ */
+export function isRecognizable(exercise: ExerciseId): boolean {
+  return exercise in EXERCISE_SIGNATURES;
+}
+
+function extractFrameFeatures(frame: KeypointFrame): FrameFeatures {
+  const keypoints = normalizeKeypoints(frame.keypoints, getBodyScale(frame.keypoints, frame.imageSize));
+  const side = determineSideProfile(frame.keypoints) === 'left' ? 'left' : 'right';
+  const visible = (name: string): KeypointData | undefined =>
+    keypoints.find(kp => kp.class === name && kp.confidence >= 0.5);
+  const joint = (name: string) => visible(`${side}_${name}`);
+  const angle = (a?: KeypointData, b?: KeypointData, c?: KeypointData) =>
+    a && b && c ? calculateAngle(a, b, c) : null;
+
+  const nose = visible('nose');
+  const shoulder = joint('shoulder');
+  const elbow = joint('elbow');
+  const wrist = joint('wrist');
+  const hip = joint('hip');
+  const knee = joint('knee');
+  const ankle = joint('ankle');
+  const leftAnkle = visible('left_ankle');
+  const rightAnkle = visible('right_ankle');
+
+  return {
+    torsoLean: hip && shoulder ? calculateAngle({ x: hip.x, y: hip.y - 1 }, hip, shoulder) : null,
+    kneeAngle: angle(ankle, knee, hip),
+    hipAngle: angle(knee, hip, shoulder),
+    elbowAngle: angle(shoulder, elbow, wrist),
+    // Image y grows downwards
+    wristHeight: shoulder && wrist ? shoulder.y - wrist.y : null,
+    wristAboveNose: nose && wrist ? nose.y - wrist.y : null,
+    shoulderY: shoulder?.y ?? null,
+    hipY: hip?.y ?? null,
+    wristY: wrist?.y ?? null,
+    ankleSpread: leftAnkle && rightAnkle ? Math.abs(leftAnkle.x - rightAnkle.x) : null
+  };
+}
+
+function summarizeWindow(frames: FrameFeatures[]): WindowFeatures {
+  const values = (key: keyof FrameFeatures) =>
+    frames.map(f => f[key]).filter((value): value is number => value !== null).sort((a, b) => a - b);
+  const percentile = (sorted: number[], p: number) => sorted[Math.round((sorted.length - 1) * p)];
+  const median = (key: keyof FrameFeatures) => {
+    const sorted = values(key);
+    return sorted.length > 0 ? percentile(sorted, 0.5) : null;
+  };
+  // 10th to 90th percentile, so a single bad detection doesn't count as movement
+  const range = (key: keyof FrameFeatures) => {
+    const sorted = values(key);
+    return sorted.length > 1 ? percentile(sorted, 0.9) - percentile(sorted, 0.1) : null;
+  };
+
+  return {
+    lean: median('torsoLean'),
+    leanRange: range('torsoLean'),
+    kneeRange: range('kneeAngle'),
+    hipRange: range('hipAngle'),
+    elbowRange: range('elbowAngle'),
+    kneeMedian: median('kneeAngle'),
+    wristHeight: median('wristHeight'),
+    wristAboveNose: median('wristAboveNose'),
+    shoulderMotion: range('shoulderY'),
+    hipMotion: range('hipY'),
+    wristMotion: range('wristY'),
+    ankleSpread: median('ankleSpread')
+  };
+}
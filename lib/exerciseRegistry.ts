@@ -0,0 +1,192 @@
+/**
+ * Exercise registry for Coachly
+ * Built-in exercises plus custom ones defined in the app and saved to local storage
+ */
+
+import {
+  ALL_PHASES,
+  BarPathCheck,
+  BUILT_IN_EXERCISES,
+  ExerciseDefinition,
+  ExerciseId,
+  ExerciseRule,
+  JOINT_NAMES,
+  RULE_METRIC_KINDS,
+  RuleMetric,
+  SymmetryCheck
+} from './exerciseDefinitions';
+
+const CUSTOM_EXERCISES_STORAGE_KEY = 'coachly.customExercises';
+
+// Definitions are looked up for every analyzed frame, so keep them in memory
+let customExercisesCache: ExerciseDefinition[] | null = null;
+
+/**
+ * Load custom exercises from local storage (empty on the server)
+ */
+export function listCustomExercises(): ExerciseDefinition[] {
+  if (customExercisesCache) {
+    return customExercisesCache;
+  }
+  if (typeof window === 'undefined') {
+    return [];
+  }
+
+  try {
+    const stored: unknown = JSON.parse(window.localStorage.getItem(CUSTOM_EXERCISES_STORAGE_KEY) ?? '[]');
+    if (!Array.isArray(stored)) {
+      throw new Error('Stored custom exercises are not a list');
+    }
+    // Storage can be edited by hand or left by an older version, and a broken definition would fail every frame
+    customExercisesCache = stored.filter(isExerciseDefinition);
+    if (customExercisesCache.length < stored.length) {
+      console.warn(`Ignoring ${stored.length - customExercisesCache.length} invalid custom exercise(s)`);
+    }
+  } catch (error) {
+    console.error('Error loading custom exercises:', error);
+    customExercisesCache = [];
+  }
+  return customExercisesCache;
+}
+
+/**
+ * All exercises that can be analyzed, built-in first
+ */
+export function listExercises(): ExerciseDefinition[] {
+  return [...BUILT_IN_EXERCISES, ...listCustomExercises()];
+}
+
+/**
+ * Look up an exercise definition by id
+ */
+export function getExerciseDefinition(id: ExerciseId): ExerciseDefinition | undefined {
+  return listExercises().find(exercise => exercise.id === id);
+}
+
+/**
+ * Create or replace a custom exercise
+ */
+export function saveCustomExercise(definition: ExerciseDefinition): void {
+  if (BUILT_IN_EXERCISES.some(exercise => exercise.id === definition.id)) {
+    throw new Error(`Cannot overwrite built-in exercise "${definition.id}"`);
+  }
+
+  const others = listCustomExercises().filter(exercise => exercise.id !== definition.id);
+  writeCustomExercises([...others, { ...definition, builtIn: false }]);
+}
+
+/**
+ * Remove a custom exercise
+ */
+export function deleteCustomExercise(id: ExerciseId): void {
+  writeCustomExercises(listCustomExercises().filter(exercise => exercise.id !== id));
+}
+
+/**
+ * Derive a unique id for a new custom exercise from its name
+ */
+export function createExerciseId(name: string): ExerciseId {
+  const slug = name.toLowerCase().trim().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'exercise';
+  const existingIds = new Set(listExercises().map(exercise => exercise.id));
+
+  let id = `custom-${slug}`;
+  for (let suffix = 2; existingIds.has(id); suffix++) {
+    id = `custom-${slug}-${suffix}`;
+  }
+  return id;
+}
+
+function writeCustomExercises(exercises: ExerciseDefinition[]): void {
+  customExercisesCache = exercises;
+  window.localStorage.setItem(CUSTOM_EXERCISES_STORAGE_KEY, JSON.stringify(exercises));
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+function isJointName(value: unknown): boolean {
+  return JOINT_NAMES.some(joint => joint === value);
+}
+
+function isOptionalString(value: unknown): boolean {
+  return value === undefined || typeof value === 'string';
+}
+
+function isExerciseDefinition(value: unknown): value is ExerciseDefinition {
+  return isRecord(value) &&
+    typeof value.id === 'string' &&
+    typeof value.name === 'string' &&
+    isOptionalString(value.icon) &&
+    (value.posture === 'standing' || value.posture === 'lying') &&
+    (value.inclinedTorso === undefined || typeof value.inclinedTorso === 'boolean') &&
+    isStringArray(value.requiredKeypoints) &&
+    Array.isArray(value.analysisJoints) &&
+    value.analysisJoints.every(isJointName) &&
+    typeof value.unanalyzableMessage === 'string' &&
+    isRecord(value.angles) &&
+    Object.values(value.angles).every(joints => Array.isArray(joints) && joints.length === 3 && joints.every(isJointName)) &&
+    isRecord(value.primaryAngle) &&
+    typeof value.primaryAngle.angle === 'string' &&
+    typeof value.primaryAngle.lockoutAngle === 'number' &&
+    typeof value.primaryAngle.bottomAngle === 'number' &&
+    Array.isArray(value.rules) &&
+    value.rules.every(isExerciseRule) &&
+    (value.barPath === undefined || (Array.isArray(value.barPath) && value.barPath.every(isBarPathCheck))) &&
+    (value.symmetry === undefined || (Array.isArray(value.symmetry) && value.symmetry.every(isSymmetryCheck))) &&
+    (value.velocityJoint === undefined || isJointName(value.velocityJoint)) &&
+    isRecord(value.feedback) &&
+    isStringArray(value.feedback.needsWork) &&
+    isStringArray(value.feedback.poor) &&
+    isStringArray(value.tips);
+}
+
+function isExerciseRule(value: unknown): value is ExerciseRule {
+  return isRecord(value) &&
+    typeof value.id === 'string' &&
+    Array.isArray(value.phases) &&
+    value.phases.every(phase => ALL_PHASES.includes(phase)) &&
+    isRuleMetric(value.metric) &&
+    (value.comparison === 'above' || value.comparison === 'below') &&
+    typeof value.threshold === 'number' &&
+    typeof value.penalty === 'number' &&
+    isOptionalString(value.cue) &&
+    typeof value.message === 'string';
+}
+
+function isRuleMetric(value: unknown): value is RuleMetric {
+  if (!isRecord(value) || !RULE_METRIC_KINDS.some(kind => kind === value.kind)) {
+    return false;
+  }
+  if (value.kind === 'angle') {
+    return typeof value.angle === 'string';
+  }
+  if (value.kind === 'vertical_ratio') {
+    return Array.isArray(value.joints) && value.joints.length === 3 && value.joints.every(isJointName);
+  }
+  return isJointName(value.from) && isJointName(value.to);
+}
+
+function isBarPathCheck(value: unknown): value is BarPathCheck {
+  return isRecord(value) &&
+    typeof value.id === 'string' &&
+    (value.metric === 'vertical_deviation' || value.metric === 'horizontal_drift') &&
+    typeof value.threshold === 'number' &&
+    typeof value.penalty === 'number' &&
+    isOptionalString(value.cue) &&
+    typeof value.message === 'string';
+}
+
+function isSymmetryCheck(value: unknown): value is SymmetryCheck {
+  return isRecord(value) &&
+    typeof value.id === 'string' &&
+    ['knee_valgus', 'hip_shift', 'shoulder_tilt', 'wrist_tilt'].includes(value.metric as string) &&
+    typeof value.threshold === 'number' &&
+    typeof value.penalty === 'number' &&
+    isOptionalString(value.cue) &&
+    typeof value.message === 'string';
+}
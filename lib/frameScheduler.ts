@@ -0,0 +1,182 @@
+/**
+ * Adaptive frame scheduling for Coachly
+ * Samples the camera quickly while the lifter moves and slowly while they rest, using cheap frame differencing,
+ * with a cap on requests in flight and out-of-order responses dropped
+ */
+
+import { ANALYZE_RATE_LIMIT } from './rateLimit';
+
+export interface FrameSchedulerState {
+  inFlight: number; // Requests started but not yet finished
+  nextRequestId: number;
+  latestAppliedId: number; // Newest request whose result was used, older ones arriving later are stale
+  lastMotionAt: number; // When movement was last seen
+  latencies: number[]; // Most recent request durations in milliseconds
+  completedAt: number[]; // When recent results were applied
+}
+
+export interface FrameSchedulerStats {
+  latencyMs: number | null; // Average over recent requests
+  fps: number; // Results applied per second
+  isMoving: boolean;
+}
+
+// Share of the server's rate limit that sampling while moving may use, the rest is left for retries
+const ACTIVE_RATE_LIMIT_SHARE = 0.6;
+
+// Sampling intervals while moving (about 400 ms) and while resting
+const ACTIVE_INTERVAL_MS = Math.ceil(
+  ANALYZE_RATE_LIMIT.windowMs / (ANALYZE_RATE_LIMIT.maxRequests * ACTIVE_RATE_LIMIT_SHARE)
+);
+const IDLE_INTERVAL_MS = 1500;
+
+// Keep sampling quickly for a while after movement stops, so a pause at the bottom of a rep isn't treated as rest
+const IDLE_AFTER_MS = 2000;
+
+// More than this in flight just queues frames behind a slow backend
+const MAX_IN_FLIGHT = 2;
+
+// Mean change in brightness between differenced frames, from 0 to 1, that counts as movement
+const MOTION_THRESHOLD = 0.02;
+
+// Frames are shrunk to this width before differencing, which is plenty to notice a body moving
+const MOTION_SAMPLE_WIDTH = 32;
+
+const LATENCY_SAMPLES = 10;
+const FPS_WINDOW_MS = 5000;
+
+/**
+ * Create scheduler state for a new stream
+ */
+export function createFrameScheduler(now: number = Date.now()): FrameSchedulerState {
+  return {
+    inFlight: 0,
+    nextRequestId: 1,
+    latestAppliedId: 0,
+    lastMotionAt: now,
+    latencies: [],
+    completedAt: []
+  };
+}
+
+/**
+ * Record how much the frame changed and return how long to wait before the next sample
+ */
+export function scheduleNextFrame(
+  state: FrameSchedulerState,
+  motion: number | null,
+  now: number = Date.now()
+): { state: FrameSchedulerState; delayMs: number } {
+  // Without a motion reading (e.g. video not ready yet), assume movement rather than miss a rep
+  const lastMotionAt = motion === null || motion >= MOTION_THRESHOLD ? now : state.lastMotionAt;
+  return {
+    state: { ...state, lastMotionAt },
+    delayMs: now - lastMotionAt < IDLE_AFTER_MS ? ACTIVE_INTERVAL_MS : IDLE_INTERVAL_MS
+  };
+}
+
+/**
+ * Whether another request can start without exceeding the in-flight cap
+ */
+export function canStartRequest(state: FrameSchedulerState): boolean {
+  return state.inFlight < MAX_IN_FLIGHT;
+}
+
+/**
+ * Mark a request as started, returning its id
+ */
+export function beginRequest(state: FrameSchedulerState): { state: FrameSchedulerState; requestId: number } {
+  return {
+    state: { ...state, inFlight: state.inFlight + 1, nextRequestId: state.nextRequestId + 1 },
+    requestId: state.nextRequestId
+  };
+}
+
+/**
+ * Mark a request as finished, reporting whether a newer result has already been applied
+ */
+export function completeRequest(
+  state: FrameSchedulerState,
+  requestId: number,
+  startedAt: number,
+  now: number = Date.now()
+): { state: FrameSchedulerState; isStale: boolean } {
+  const latencies = [...state.latencies, now - startedAt].slice(-LATENCY_SAMPLES);
+  const isStale = requestId < state.latestAppliedId;
+
+  return {
+    state: {
+      ...state,
+      inFlight: Math.max(0, state.inFlight - 1),
+      latencies,
+      latestAppliedId: isStale ? state.latestAppliedId : requestId,
+      completedAt: isStale
+        ? state.completedAt
+        : [...state.completedAt, now].filter(time => now - time <= FPS_WINDOW_MS)
+    },
+    isStale
+  };
+}
+
+/**
+ * Mark a request as failed
+ */
+export function failRequest(state: FrameSchedulerState): FrameSchedulerState {
+  return { ...state, inFlight: Math.max(0, state.inFlight - 1) };
+}
+
+/**
+ * Measured latency and effective frame rate
+ */
+export function getSchedulerStats(state: FrameSchedulerState, now: number = Date.now()): FrameSchedulerStats {
+  const { latencies } = state;
+  const recent = state.completedAt.filter(time => now - time <= FPS_WINDOW_MS);
+  return {
+    latencyMs: latencies.length > 0 ? latencies.reduce((sum, value) => sum + value, 0) / latencies.length : null,
+    fps: recent.length / (FPS_WINDOW_MS / 1000),
+    isMoving: now - state.lastMotionAt < IDLE_AFTER_MS
+  };
+}
+
+/**
+ * Create a detector that returns how much the video changed since it was last called, from 0 to 1
+ * Returns null until there are two frames to compare
+ */
+export function createMotionDetector() {
+  let canvas: HTMLCanvasElement | null = null;
+  let previous: Float32Array | null = null;
+
+  return function detectMotion(video: HTMLVideoElement): number | null {
+    if (!video.videoWidth || !video.videoHeight) {
+      return null;
+    }
+
+    canvas ??= document.createElement('canvas');
+    const context = canvas.getContext('2d', { willReadFrequently: true });
+    if (!context) {
+      return null;
+    }
+
+    canvas.width = MOTION_SAMPLE_WIDTH;
+    canvas.height = Math.max(1, Math.round((video.videoHeight / video.videoWidth) * MOTION_SAMPLE_WIDTH));
+    context.drawImage(video, 0, 0, canvas.width, canvas.height);
+    const { data } = context.getImageData(0, 0, canvas.width, canvas.height);
+
+    const brightness = new Float32Array(data.length / 4);
+    for (let i = 0; i < brightness.length; i++) {
+      brightness[i] = (0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]) / 255;
+    }
+
+    const last = previous;
+    previous = brightness;
+    if (!last || last.length !== brightness.length) {
+      return null;
+    }
+
+    let difference = 0;
+    for (let i = 0; i < brightness.length; i++) {
+      difference += Math.abs(brightness[i] - last[i]);
+    }
+    return difference / brightness.length;
+  };
+}
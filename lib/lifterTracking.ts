@@ -0,0 +1,204 @@
+/**
+ * Lifter tracking for Coachly
+ * Follows one person across frames by detection box overlap and keypoint continuity, so a spotter or someone
+ * walking past isn't analyzed in the lifter's place. Tapping a person locks onto them
+ */
+
+import type { BoundingBox, DetectedPerson, PoseEstimate } from './poseProvider';
+import type { KeypointData } from './techniqueAnalysis';
+
+interface TrackedLifter {
+  box: BoundingBox;
+  keypoints: KeypointData[];
+  lastSeen: number; // Timestamp of the last frame the lifter was matched in
+}
+
+export interface LifterTrackerState {
+  lifter: TrackedLifter | null;
+  isLocked: boolean; // Picked by the user, so nobody else is analyzed even while the lifter is out of sight
+}
+
+export interface ImagePoint {
+  x: number; // Image pixels
+  y: number;
+}
+
+// How closely a detection must match the tracked lifter, from 0 to 1, to be taken as the same person
+const MIN_MATCH_SCORE = 0.35;
+
+// Without a lock, a lifter lost for longer than this is replaced by whoever is most prominent
+const REACQUIRE_AFTER_MS = 1500;
+
+// Keypoints below this confidence aren't used for boxes or for comparing poses
+const MIN_KEYPOINT_CONFIDENCE = 0.3;
+
+/**
+ * Create a tracker that hasn't picked anyone yet
+ */
+export function createLifterTracker(): LifterTrackerState {
+  return { lifter: null, isLocked: false };
+}
+
+/**
+ * Box around a person's confident keypoints, for backends that don't report one
+ */
+export function getPersonBox(keypoints: KeypointData[]): BoundingBox | null {
+  const visible = keypoints.filter(kp => kp.confidence >= MIN_KEYPOINT_CONFIDENCE);
+  if (visible.length === 0) {
+    return null;
+  }
+  const xs = visible.map(kp => kp.x);
+  const ys = visible.map(kp => kp.y);
+  const [left, right, top, bottom] = [Math.min(...xs), Math.max(...xs), Math.min(...ys), Math.max(...ys)];
+  return { x: (left + right) / 2, y: (top + bottom) / 2, width: right - left, height: bottom - top };
+}
+
+/**
+ * Everyone detected in a frame, treating a pose from a single-person backend as one detection
+ */
+export function getDetectedPeople(pose: PoseEstimate): DetectedPerson[] {
+  if (pose.people) {
+    return pose.people;
+  }
+  const box = getPersonBox(pose.keypoints);
+  return box
+    ? [{ detectionId: pose.detectionId ?? 'person', box, confidence: pose.confidence, keypoints: pose.keypoints }]
+    : [];
+}
+
+/**
+ * The person most likely to be the lifter when there's nothing to go on: the largest, most confident detection
+ * The lifter is usually the one the camera was set up for, so they fill the most of the frame
+ */
+export function choosePrimaryPerson(people: DetectedPerson[]): DetectedPerson | undefined {
+  let best: DetectedPerson | undefined;
+  for (const person of people) {
+    if (!best || prominence(person) > prominence(best)) {
+      best = person;
+    }
+  }
+  return best;
+}
+
+function prominence(person: DetectedPerson): number {
+  return person.box.width * person.box.height * person.confidence;
+}
+
+function boxEdges(box: BoundingBox) {
+  return {
+    left: box.x - box.width / 2,
+    right: box.x + box.width / 2,
+    top: box.y - box.height / 2,
+    bottom: box.y + box.height / 2
+  };
+}
+
+/**
+ * Intersection over union of two boxes, from 0 (apart) to 1 (identical)
+ */
+function boxOverlap(a: BoundingBox, b: BoundingBox): number {
+  const edgesA = boxEdges(a);
+  const edgesB = boxEdges(b);
+  const width = Math.max(0, Math.min(edgesA.right, edgesB.right) - Math.max(edgesA.left, edgesB.left));
+  const height = Math.max(0, Math.min(edgesA.bottom, edgesB.bottom) - Math.max(edgesA.top, edgesB.top));
+  const intersection = width * height;
+  const union = a.width * a.height + b.width * b.height - intersection;
+  return union > 0 ? intersection / union : 0;
+}
+
+/**
+ * How little the keypoints moved, from 0 (moved a body height or more) to 1 (didn't move)
+ * Catches two people whose boxes overlap, like a spotter standing behind the lifter
+ */
+function keypointContinuity(lifter: TrackedLifter, person: DetectedPerson): number {
+  const previous = new Map(
+    lifter.keypoints.filter(kp => kp.confidence >= MIN_KEYPOINT_CONFIDENCE).map(kp => [kp.class, kp])
+  );
+  const distances = person.keypoints.flatMap(kp => {
+    const before = previous.get(kp.class);
+    return before && kp.confidence >= MIN_KEYPOINT_CONFIDENCE ? [Math.hypot(kp.x - before.x, kp.y - before.y)] : [];
+  });
+  const scale = Math.max(lifter.box.width, lifter.box.height);
+  if (distances.length === 0 || scale <= 0) {
+    return 0;
+  }
+  const meanDistance = distances.reduce((sum, distance) => sum + distance, 0) / distances.length;
+  return Math.max(0, 1 - meanDistance / scale);
+}
+
+/**
+ * The detection that best continues the tracked lifter, if any is close enough
+ */
+function findLifter(lifter: TrackedLifter, people: DetectedPerson[]): DetectedPerson | undefined {
+  let best: DetectedPerson | undefined;
+  let bestScore = MIN_MATCH_SCORE;
+  for (const person of people) {
+    const score = (boxOverlap(lifter.box, person.box) + keypointContinuity(lifter, person)) / 2;
+    if (score >= bestScore) {
+      best = person;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+function trackedFrom(person: DetectedPerson, timestamp: number): TrackedLifter {
+  return { box: person.box, keypoints: person.keypoints, lastSeen: timestamp };
+}
+
+/**
+ * Pick the lifter out of the next frame and narrow the pose to them
+ * A frame the lifter can't be found in gives an empty pose rather than someone else's
+ */
+export function trackLifter(
+  state: LifterTrackerState,
+  pose: PoseEstimate,
+  timestamp: number
+): { state: LifterTrackerState; pose: PoseEstimate } {
+  const people = getDetectedPeople(pose);
+  const { lifter, isLocked } = state;
+
+  let person = lifter ? findLifter(lifter, people) : undefined;
+  if (!person && !isLocked && (!lifter || timestamp - lifter.lastSeen > REACQUIRE_AFTER_MS)) {
+    person = choosePrimaryPerson(people);
+  }
+
+  return {
+    state: { lifter: person ? trackedFrom(person, timestamp) : lifter, isLocked },
+    pose: {
+      ...pose,
+      keypoints: person?.keypoints ?? [],
+      confidence: person?.confidence ?? 0,
+      detectionId: person?.detectionId
+    }
+  };
+}
+
+/**
+ * Lock onto the person at a point in the frame, e.g. where the user tapped
+ * The smallest box wins when several contain the point, since a box inside another is usually the nearer person.
+ * Leaves the state unchanged if nobody is there
+ */
+export function lockOntoPerson(
+  state: LifterTrackerState,
+  people: DetectedPerson[],
+  point: ImagePoint,
+  timestamp: number
+): LifterTrackerState {
+  let chosen: DetectedPerson | undefined;
+  for (const person of people) {
+    const { left, right, top, bottom } = boxEdges(person.box);
+    const containsPoint = point.x >= left && point.x <= right && point.y >= top && point.y <= bottom;
+    if (containsPoint && (!chosen || person.box.width * person.box.height < chosen.box.width * chosen.box.height)) {
+      chosen = person;
+    }
+  }
+  return chosen ? { lifter: trackedFrom(chosen, timestamp), isLocked: true } : state;
+}
+
+/**
+ * Release a lock, going back to following whoever is most prominent once the lifter is lost
+ */
+export function unlockLifter(state: LifterTrackerState): LifterTrackerState {
+  return { ...state, isLocked: false };
+}
@@ -0,0 +1,113 @@
+/**
+ * In-browser pose estimation for Coachly
+ * Runs MediaPipe's pose landmarker on the CPU via WASM, so analysis works offline and costs nothing per frame
+ */
+
+import type { PoseLandmarker } from '@mediapipe/tasks-vision';
+import type { KeypointData } from './techniqueAnalysis';
+import type { DetectedPerson, PoseEstimate, PoseProvider } from './poseProvider';
+import { choosePrimaryPerson, getPersonBox } from './lifterTracking';
+
+// Served by the app itself from public/mediapipe, where scripts/copy-pose-assets.mjs puts them before dev
+// and build. Either can be pointed elsewhere, but the WASM version must match @mediapipe/tasks-vision
+const WASM_BASE_URL = process.env.NEXT_PUBLIC_POSE_WASM_URL || '/mediapipe/wasm';
+const MODEL_URL = process.env.NEXT_PUBLIC_POSE_MODEL_URL || '/mediapipe/pose_landmarker_lite.task';
+
+// MediaPipe's 33 BlazePose landmarks mapped onto the COCO keypoints Roboflow returns,
+// plus the toes, which COCO doesn't have but help tell which way the lifter faces
+const BLAZEPOSE_TO_COCO: Record<number, string> = {
+  0: 'nose',
+  2: 'left_eye',
+  5: 'right_eye',
+  7: 'left_ear',
+  8: 'right_ear',
+  11: 'left_shoulder',
+  12: 'right_shoulder',
+  13: 'left_elbow',
+  14: 'right_elbow',
+  15: 'left_wrist',
+  16: 'right_wrist',
+  23: 'left_hip',
+  24: 'right_hip',
+  25: 'left_knee',
+  26: 'right_knee',
+  27: 'left_ankle',
+  28: 'right_ankle',
+  31: 'left_toe',
+  32: 'right_toe'
+};
+
+const TORSO_KEYPOINTS = ['left_shoulder', 'right_shoulder', 'left_hip', 'right_hip'];
+
+// Enough for a lifter, a spotter and someone walking past, without slowing every frame down
+const MAX_PEOPLE = 3;
+
+let landmarkerPromise: Promise<PoseLandmarker> | null = null;
+
+/**
+ * Load the pose landmarker once and reuse it for every frame
+ */
+function getLandmarker(): Promise<PoseLandmarker> {
+  if (!landmarkerPromise) {
+    landmarkerPromise = (async () => {
+      const { FilesetResolver, PoseLandmarker } = await import('@mediapipe/tasks-vision');
+      const fileset = await FilesetResolver.forVisionTasks(WASM_BASE_URL);
+      return PoseLandmarker.createFromOptions(fileset, {
+        baseOptions: {
+          modelAssetPath: MODEL_URL,
+          delegate: 'CPU'
+        },
+        runningMode: 'IMAGE',
+        numPoses: MAX_PEOPLE
+      });
+    })();
+
+    // Allow a retry if the model failed to load (e.g. it hasn't been saved to public/mediapipe yet)
+    landmarkerPromise.catch(() => {
+      landmarkerPromise = null;
+    });
+  }
+  return landmarkerPromise;
+}
+
+export const localPoseProvider: PoseProvider = {
+  id: 'local',
+  label: 'On-device',
+  description: 'Runs in your browser, works offline',
+
+  async estimatePose(video: HTMLVideoElement): Promise<PoseEstimate> {
+    const landmarker = await getLandmarker();
+    const result = landmarker.detect(video);
+
+    const width = video.videoWidth;
+    const height = video.videoHeight;
+
+    // Landmarks are normalized to [0, 1], convert to pixels to match Roboflow
+    const people = result.landmarks.flatMap((landmarks, index): DetectedPerson[] => {
+      const keypoints: KeypointData[] = Object.entries(BLAZEPOSE_TO_COCO).map(([landmarkIndex, name]) => {
+        const landmark = landmarks[Number(landmarkIndex)];
+        return {
+          class: name,
+          confidence: landmark.visibility ?? 0,
+          x: landmark.x * width,
+          y: landmark.y * height
+        };
+      });
+
+      // The landmarker has no person score or box, so use how visible the torso is and the keypoints' extent
+      const torso = keypoints.filter(kp => TORSO_KEYPOINTS.includes(kp.class));
+      const confidence = torso.reduce((sum, kp) => sum + kp.confidence, 0) / torso.length;
+      const box = getPersonBox(keypoints);
+      return box ? [{ detectionId: `pose-${index}`, box, confidence, keypoints }] : [];
+    });
+
+    const lifter = choosePrimaryPerson(people);
+    return {
+      keypoints: lifter?.keypoints ?? [],
+      confidence: lifter?.confidence ?? 0,
+      imageSize: { width, height },
+      detectionId: lifter?.detectionId,
+      people
+    };
+  }
+};
@@ -0,0 +1,104 @@
+/**
+ * Pose backend errors for Coachly
+ * Failures carry a code so the UI can tell a bad API key from a slow connection, and the client knows what to retry
+ */
+
+export type PoseErrorCode =
+  | 'missing_config' // The server has no Roboflow key or workflow URL, or no way to tell callers apart
+  | 'auth_failed' // Roboflow rejected the API key
+  | 'rate_limited'
+  | 'timeout'
+  | 'malformed_response' // The backend answered with something that isn't a pose
+  | 'offline'
+  | 'service_error'; // Any other failure of the backend
+
+export class PoseBackendError extends Error {
+  readonly code: PoseErrorCode;
+  readonly retryable: boolean; // Worth trying the same request again after a delay
+  readonly retryAfterMs?: number; // How long the backend asked us to wait
+
+  constructor(
+    code: PoseErrorCode,
+    message: string,
+    options: { retryable?: boolean; retryAfterMs?: number; cause?: unknown } = {}
+  ) {
+    super(message, { cause: options.cause });
+    this.name = 'PoseBackendError';
+    this.code = code;
+    this.retryable = options.retryable ?? false;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+// Errors that will keep happening until the user changes something, so there's no point analyzing more frames
+const FATAL_ERROR_CODES: PoseErrorCode[] = ['missing_config', 'auth_failed', 'offline'];
+
+const ERROR_MESSAGES: Record<PoseErrorCode, string> = {
+  missing_config: "Cloud analysis isn't set up on this server. Switch to the on-device backend, or add the Roboflow and rate limit settings to .env.local.",
+  auth_failed: 'The Roboflow API key was rejected. Check ROBOFLOW_API_KEY in the server settings.',
+  rate_limited: 'Too many analysis requests right now. Analysis will pick up again in a moment.',
+  timeout: 'The analysis service took too long to respond. Check your connection.',
+  malformed_response: 'The analysis service sent back an unexpected response.',
+  offline: "You're offline. Switch to the on-device backend to keep analyzing.",
+  service_error: 'The analysis service had a problem. Please try again.'
+};
+
+/**
+ * Treat any thrown value as a pose backend error
+ */
+export function toPoseBackendError(error: unknown): PoseBackendError {
+  if (error instanceof PoseBackendError) {
+    return error;
+  }
+  if (error instanceof DOMException && (error.name === 'AbortError' || error.name === 'TimeoutError')) {
+    return new PoseBackendError('timeout', 'Pose request timed out', { cause: error });
+  }
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+    return new PoseBackendError('offline', 'No network connection', { cause: error });
+  }
+  const message = error instanceof Error ? error.message : 'Unknown error';
+  return new PoseBackendError('service_error', message, { cause: error });
+}
+
+/**
+ * Error for a failed HTTP response, using the code in its body when the response came from our own API
+ * Rate limits and server errors are worth retrying, anything else won't get better by itself
+ */
+export function poseErrorFromResponse(status: number, body: unknown, retryAfterHeader: string | null): PoseBackendError {
+  const { code, error } = (typeof body === 'object' && body !== null ? body : {}) as { code?: unknown; error?: unknown };
+  const message = typeof error === 'string' ? error : `Analysis API error: ${status}`;
+  const retryAfterSeconds = Number(retryAfterHeader);
+  const retryAfterMs = retryAfterHeader && Number.isFinite(retryAfterSeconds) ? retryAfterSeconds * 1000 : undefined;
+
+  let errorCode: PoseErrorCode;
+  if (typeof code === 'string' && code in ERROR_MESSAGES) {
+    errorCode = code as PoseErrorCode;
+  } else if (status === 401 || status === 403) {
+    errorCode = 'auth_failed';
+  } else if (status === 429) {
+    errorCode = 'rate_limited';
+  } else if (status === 408 || status === 504) {
+    errorCode = 'timeout';
+  } else {
+    errorCode = 'service_error';
+  }
+
+  return new PoseBackendError(errorCode, message, {
+    retryable: errorCode === 'rate_limited' || (errorCode === 'service_error' && status >= 500),
+    retryAfterMs
+  });
+}
+
+/**
+ * Whether analysis should stop rather than keep failing on every frame
+ */
+export function isFatalPoseError(error: unknown): boolean {
+  return error instanceof PoseBackendError && FATAL_ERROR_CODES.includes(error.code);
+}
+
+/**
+ * Message to show the user for a failed analysis
+ */
+export function getPoseErrorMessage(error: unknown): string {
+  return ERROR_MESSAGES[toPoseBackendError(error).code];
+}
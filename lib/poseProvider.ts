@@ -0,0 +1,52 @@
+/**
+ * Pose provider abstraction for Coachly
+ * Every pose backend returns the same normalized keypoints so technique analysis doesn't care where they came from
+ */
+
+import type { ImageSize, KeypointData } from './techniqueAnalysis';
+import type { BarPosition } from './barPath';
+import { roboflowPoseProvider } from './roboflow';
+import { localPoseProvider } from './localPose';
+
+export type PoseProviderId = 'roboflow' | 'local';
+
+export interface BoundingBox {
+  x: number; // Centre of the box, in image pixels
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface DetectedPerson {
+  detectionId: string; // Backend's id for this detection, only unique within one frame
+  box: BoundingBox;
+  confidence: number;
+  keypoints: KeypointData[];
+}
+
+export interface PoseEstimate {
+  keypoints: KeypointData[]; // COCO keypoint names in image pixel coordinates
+  confidence: number; // Person detection confidence
+  imageSize?: ImageSize;
+  visualizedImage?: string; // Base64 encoded image with annotations
+  detectionId?: string; // Which detected person the keypoints belong to
+  people?: DetectedPerson[]; // Everyone detected in the frame, the lifter included
+  plate?: BarPosition; // End of the bar, when the backend detects plates
+}
+
+export interface PoseProvider {
+  id: PoseProviderId;
+  label: string;
+  description: string;
+  minRequestIntervalMs?: number; // Spacing that keeps a steady stream of frames under the backend's rate limit
+  estimatePose(video: HTMLVideoElement): Promise<PoseEstimate>;
+}
+
+export const POSE_PROVIDERS: PoseProvider[] = [roboflowPoseProvider, localPoseProvider];
+
+/**
+ * Look up a pose provider by id
+ */
+export function getPoseProvider(id: PoseProviderId): PoseProvider {
+  return POSE_PROVIDERS.find(provider => provider.id === id) || roboflowPoseProvider;
+}
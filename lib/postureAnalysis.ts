@@ -0,0 +1,259 @@
+/**
+ * Posture analysis for Coachly
+ * Turns a pose estimate from any provider into exercise feedback
+ */
+
+import {
+  analyzeTechnique,
+  CameraView,
+  FacingDirection,
+  getExerciseSpecificFeedback,
+  ImageSize,
+  KeypointData,
+  TechniqueAnalysisResult
+} from './techniqueAnalysis';
+import type { PoseEstimate, PoseProvider } from './poseProvider';
+import type { ExerciseId } from './exerciseDefinitions';
+import { getExerciseDefinition } from './exerciseRegistry';
+import { GENERAL_ISSUE_CODES, TechniqueIssue } from './techniqueIssues';
+import { toPoseBackendError } from './poseErrors';
+import { BarPosition, locateBar } from './barPath';
+import type { RepSummary } from './repDetection';
+import {
+  confirmIssues,
+  createIssuePersistence,
+  createKeypointFilter,
+  IssuePersistenceState,
+  ISSUE_PERSISTENCE_FRAMES,
+  KeypointFilterState,
+  smoothKeypoints
+} from './temporalFilter';
+export { getExerciseTips } from './techniqueAnalysis';
+
+export interface PostureAnalysisResult {
+  isGoodPosture: boolean;
+  confidence: number;
+  score: number; // Technique score from 0 to 1
+  feedback: string[];
+  exercise: ExerciseId | 'unknown';
+  detectedIssues: TechniqueIssue[];
+  visualizedImage?: string; // Base64 encoded image with annotations
+  missingKeypoints?: boolean; // Flag for when critical keypoints are not visible
+  keypoints?: KeypointData[]; // Keypoints the analysis was based on, in image pixels
+  imageSize?: ImageSize; // Dimensions of the analyzed frame
+  facing?: FacingDirection; // Which way the lifter faces in the analyzed (unmirrored) frame
+  view?: CameraView; // Whether the lifter was filmed side-on or from the front
+  detectionId?: string; // Detection the lifter's keypoints came from, when the backend reports one
+  bar?: BarPosition; // Where the bar was in the analyzed frame, if it could be found
+  completedRep?: RepSummary; // Rep finished on this frame, stored with its tempo and velocity
+}
+
+export interface PoseStreamState {
+  keypointFilter: KeypointFilterState;
+  issuePersistence: IssuePersistenceState;
+  poorFrames: number; // Consecutive frames whose form wasn't good
+}
+
+/**
+ * Analyze posture in the current video frame
+ * @param provider - The pose backend used to detect keypoints
+ * @param video - The video element to capture the frame from
+ * @param exerciseType - The type of exercise being performed
+ */
+export async function analyzePosture(
+  provider: PoseProvider,
+  video: HTMLVideoElement,
+  exerciseType?: ExerciseId
+): Promise<PostureAnalysisResult> {
+  try {
+    const pose = await provider.estimatePose(video);
+    return analyzePoseEstimate(pose, exerciseType);
+  } catch (error) {
+    console.error('Error analyzing posture:', error);
+    throw toPoseBackendError(error);
+  }
+}
+
+/**
+ * Analyze a normalized pose estimate and extract meaningful feedback
+ */
+export function analyzePoseEstimate(pose: PoseEstimate, exerciseType?: ExerciseId): PostureAnalysisResult {
+  const { keypoints, confidence, visualizedImage, imageSize, detectionId, plate } = pose;
+
+  // Analyze keypoints for posture quality
+  const postureAnalysis = analyzeTechnique(keypoints, exerciseType, { imageSize });
+
+  // Check for missing critical keypoints
+  const missingKeypoints = checkForMissingKeypoints(keypoints, exerciseType);
+
+  // Determine if posture is good based on confidence and keypoint analysis
+  const isGoodPosture = confidence > 0.7 && postureAnalysis.score > 0.6 && !missingKeypoints;
+
+  const detectedIssues: TechniqueIssue[] = [];
+
+  if (!isGoodPosture) {
+    detectedIssues.push(...postureAnalysis.issues);
+
+    if (confidence < 0.5) {
+      detectedIssues.push({
+        code: GENERAL_ISSUE_CODES.lowDetectionConfidence,
+        severity: 'warning',
+        joints: [],
+        measured: confidence,
+        threshold: 0.5,
+        message: "Person detection confidence is low"
+      });
+    }
+
+    if (missingKeypoints) {
+      detectedIssues.push({
+        code: GENERAL_ISSUE_CODES.missingKeypoints,
+        severity: 'critical',
+        joints: getMissingKeypoints(keypoints, exerciseType),
+        cue: "Step into the frame",
+        message: "Some critical body parts are not visible"
+      });
+    }
+  }
+
+  // Generate feedback based on analysis
+  const feedback = isGoodPosture
+    ? getGoodPostureFeedback(exerciseType)
+    : getPoorPostureFeedback(exerciseType, postureAnalysis, detectedIssues);
+
+  return {
+    isGoodPosture,
+    confidence,
+    score: postureAnalysis.score,
+    feedback,
+    exercise: exerciseType || 'unknown',
+    detectedIssues,
+    visualizedImage,
+    missingKeypoints,
+    keypoints,
+    imageSize,
+    facing: postureAnalysis.facing,
+    view: postureAnalysis.view,
+    detectionId,
+    bar: locateBar(keypoints, plate) ?? undefined
+  };
+}
+
+/**
+ * Create the state for analyzing a stream of poses from one camera
+ */
+export function createPoseStream(): PoseStreamState {
+  return {
+    keypointFilter: createKeypointFilter(),
+    issuePersistence: createIssuePersistence(),
+    poorFrames: 0
+  };
+}
+
+/**
+ * Analyze the next pose in a stream, smoothing keypoints over time so one noisy frame can't flip the verdict
+ * Issues are only reported, and form only judged poor, once they have lasted several frames
+ */
+export function analyzePoseStream(
+  state: PoseStreamState,
+  pose: PoseEstimate,
+  timestamp: number,
+  exerciseType?: ExerciseId
+): { state: PoseStreamState; result: PostureAnalysisResult } {
+  const smoothed = smoothKeypoints(state.keypointFilter, pose.keypoints, timestamp, pose.imageSize);
+  const result = analyzePoseEstimate({ ...pose, keypoints: smoothed.keypoints }, exerciseType);
+  const confirmed = confirmIssues(state.issuePersistence, result.detectedIssues);
+  const poorFrames = result.isGoodPosture ? 0 : state.poorFrames + 1;
+
+  const nextState = {
+    keypointFilter: smoothed.state,
+    issuePersistence: confirmed.state,
+    poorFrames
+  };
+
+  // Nobody in frame at all is reported straight away, with its issues, rather than held back as a blip
+  if (pose.keypoints.length === 0) {
+    return { state: nextState, result };
+  }
+
+  if (result.isGoodPosture || poorFrames >= ISSUE_PERSISTENCE_FRAMES) {
+    // Feedback only covers the issues that have lasted, like the issues reported with it
+    const feedback = result.isGoodPosture
+      ? result.feedback
+      : getPoorPostureFeedback(exerciseType, { score: result.score }, confirmed.issues);
+    return { state: nextState, result: { ...result, feedback, detectedIssues: confirmed.issues } };
+  }
+
+  // Poor form that hasn't lasted yet is treated as a blip
+  return {
+    state: nextState,
+    result: {
+      ...result,
+      isGoodPosture: true,
+      feedback: getGoodPostureFeedback(exerciseType),
+      detectedIssues: [],
+      missingKeypoints: false
+    }
+  };
+}
+
+function getGoodPostureFeedback(exerciseType?: ExerciseId): string[] {
+  if (!exerciseType) {
+    return ["Excellent form detected!", "Your posture and alignment look great."];
+  }
+  const exerciseName = getExerciseDefinition(exerciseType)?.name.toLowerCase() ?? exerciseType;
+  return ["Excellent form detected!", `Your ${exerciseName} technique looks great.`];
+}
+
+/**
+ * Feedback for poor form, from the score and the issues being reported
+ */
+function getPoorPostureFeedback(
+  exerciseType: ExerciseId | undefined,
+  analysis: Pick<TechniqueAnalysisResult, 'score'>,
+  issues: TechniqueIssue[]
+): string[] {
+  const feedback = ["There are some areas for improvement in your form."];
+  const hasIssue = (code: string) => issues.some(issue => issue.code === code);
+
+  // Add exercise-specific feedback
+  if (exerciseType) {
+    feedback.push(...getExerciseSpecificFeedback(exerciseType, analysis));
+  }
+
+  // Add specific feedback based on keypoint analysis
+  const isLowConfidence = hasIssue(GENERAL_ISSUE_CODES.lowDetectionConfidence);
+  const isMissingKeypoints = hasIssue(GENERAL_ISSUE_CODES.missingKeypoints);
+  if (issues.length > Number(isLowConfidence) + Number(isMissingKeypoints)) {
+    feedback.push("Focus on the highlighted areas for better form.");
+  }
+  if (isLowConfidence) {
+    feedback.push("Make sure you're clearly visible in the camera frame.");
+  }
+  if (isMissingKeypoints) {
+    feedback.push("Adjust your position to ensure all key body parts are visible in the camera.");
+  }
+  return feedback;
+}
+
+/**
+ * Check for missing critical keypoints based on exercise type
+ */
+function checkForMissingKeypoints(keypoints: KeypointData[], exerciseType?: ExerciseId): boolean {
+  const required = getRequiredKeypoints(exerciseType);
+
+  // Consider keypoints missing if more than 30% of required keypoints are not visible
+  return getMissingKeypoints(keypoints, exerciseType).length > required.length * 0.3;
+}
+
+function getRequiredKeypoints(exerciseType?: ExerciseId): string[] {
+  const definition = exerciseType ? getExerciseDefinition(exerciseType) : undefined;
+  return definition ? definition.requiredKeypoints : ['left_shoulder', 'right_shoulder', 'left_hip', 'right_hip'];
+}
+
+function getMissingKeypoints(keypoints: KeypointData[], exerciseType?: ExerciseId): string[] {
+  const confidenceThreshold = 0.3;
+
+  const visibleKeypoints = keypoints.filter(kp => kp.confidence > confidenceThreshold).map(kp => kp.class);
+  return getRequiredKeypoints(exerciseType).filter(req => !visibleKeypoints.includes(req));
+}
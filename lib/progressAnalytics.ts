@@ -0,0 +1,151 @@
+/**
+ * Progress analytics for Coachly
+ * Summarizes stored sessions into score trends per exercise and week-over-week issue frequencies
+ */
+
+import type { ExerciseId } from './exerciseDefinitions';
+import type { SessionEntry, WorkoutSession } from './sessionStore';
+import { formatIssueMessage, TechniqueIssue } from './techniqueIssues';
+
+export interface ScorePoint {
+  sessionId: string;
+  time: number; // Session start, milliseconds since epoch
+  score: number; // Session's average technique score, 0-1
+}
+
+export interface ExerciseScoreTrend {
+  exercise: ExerciseId;
+  points: ScorePoint[]; // Oldest first
+  change: number | null; // Recent average minus earlier average, null with fewer than two sessions
+}
+
+export type IssueTrend = 'improving' | 'worsening' | 'steady' | 'new' | 'resolved';
+
+export interface WeeklyIssueCount {
+  weekStart: number;
+  count: number; // Analyses in the week that flagged the issue
+  rate: number; // Share of the week's analyses that flagged the issue, 0-1
+}
+
+export interface IssueFrequency {
+  code: string;
+  issue: TechniqueIssue; // Most recent occurrence
+  message: string;
+  weeks: WeeklyIssueCount[]; // One per entry in IssueFrequencyReport.weeks
+  trend: IssueTrend;
+  change: number; // Latest week's rate minus the previous week's
+}
+
+export interface IssueFrequencyReport {
+  weeks: number[]; // Start of each week with at least one analysis, oldest first
+  issues: IssueFrequency[]; // Most frequent in the latest week first
+}
+
+// Change in an issue's weekly rate below this is treated as noise
+const ISSUE_TREND_THRESHOLD = 0.05;
+
+/**
+ * Start of the (Monday-based) local week containing a timestamp
+ */
+export function getWeekStart(time: number): number {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  return date.getTime();
+}
+
+/**
+ * Chart points of average session score over time, one series per exercise
+ */
+export function buildScoreTrends(sessions: WorkoutSession[]): ExerciseScoreTrend[] {
+  const byExercise = new Map<ExerciseId, ScorePoint[]>();
+  for (const session of sessions) {
+    if (session.entryCount === 0) {
+      continue;
+    }
+    const points = byExercise.get(session.exercise) ?? [];
+    points.push({ sessionId: session.id, time: session.startTime, score: session.averageScore });
+    byExercise.set(session.exercise, points);
+  }
+
+  return [...byExercise.entries()].map(([exercise, points]) => {
+    points.sort((a, b) => a.time - b.time);
+    return { exercise, points, change: getScoreChange(points) };
+  });
+}
+
+/**
+ * Compare the newer half of the sessions with the older half
+ */
+function getScoreChange(points: ScorePoint[]): number | null {
+  if (points.length < 2) {
+    return null;
+  }
+  const average = (values: ScorePoint[]) => values.reduce((sum, point) => sum + point.score, 0) / values.length;
+  const half = Math.floor(points.length / 2);
+  return average(points.slice(-half)) - average(points.slice(0, half));
+}
+
+/**
+ * Count how often each issue is flagged per week, and whether it's becoming more or less common
+ */
+export function buildIssueFrequencies(entries: SessionEntry[]): IssueFrequencyReport {
+  const analysesPerWeek = new Map<number, number>();
+  const issueCounts = new Map<string, Map<number, number>>();
+  const latestIssues = new Map<string, TechniqueIssue>();
+
+  for (const entry of entries) {
+    const weekStart = getWeekStart(entry.timestamp);
+    analysesPerWeek.set(weekStart, (analysesPerWeek.get(weekStart) ?? 0) + 1);
+
+    // An issue is counted once per analysis, however many times it was flagged
+    const entryIssues = new Map(entry.result.detectedIssues.map(issue => [issue.code, issue]));
+    for (const [code, issue] of entryIssues) {
+      const counts = issueCounts.get(code) ?? new Map<number, number>();
+      counts.set(weekStart, (counts.get(weekStart) ?? 0) + 1);
+      issueCounts.set(code, counts);
+      latestIssues.set(code, issue);
+    }
+  }
+
+  const weeks = [...analysesPerWeek.keys()].sort((a, b) => a - b);
+  const issues = [...issueCounts.entries()].map(([code, counts]): IssueFrequency => {
+    const weekCounts = weeks.map(weekStart => {
+      const count = counts.get(weekStart) ?? 0;
+      return { weekStart, count, rate: count / (analysesPerWeek.get(weekStart) ?? 1) };
+    });
+    const issue = latestIssues.get(code) as TechniqueIssue;
+    return { code, issue, message: formatIssueMessage(issue), weeks: weekCounts, ...getIssueTrend(weekCounts) };
+  });
+
+  const latestRate = (frequency: IssueFrequency) => frequency.weeks[frequency.weeks.length - 1]?.rate ?? 0;
+  issues.sort((a, b) => latestRate(b) - latestRate(a) || b.change - a.change);
+  return { weeks, issues };
+}
+
+/**
+ * Compare an issue's rate in the latest week with the previous week that had any analyses
+ */
+function getIssueTrend(weeks: WeeklyIssueCount[]): { trend: IssueTrend; change: number } {
+  const latest = weeks[weeks.length - 1];
+  const previous = weeks[weeks.length - 2];
+  if (!latest || !previous) {
+    return { trend: 'steady', change: 0 };
+  }
+
+  const change = latest.rate - previous.rate;
+  if (previous.count === 0 && latest.count > 0) {
+    return { trend: 'new', change };
+  }
+  if (previous.count > 0 && latest.count === 0) {
+    return { trend: 'resolved', change };
+  }
+  if (change <= -ISSUE_TREND_THRESHOLD) {
+    return { trend: 'improving', change };
+  }
+  if (change >= ISSUE_TREND_THRESHOLD) {
+    return { trend: 'worsening', change };
+  }
+  return { trend: 'steady', change };
+}
+
@@ -0,0 +1,87 @@
+/**
+ * Rate limiting for Coachly API routes
+ * Fixed-window request counting per client, kept in server memory
+ */
+
+// Requests each client may make to /api/analyze per window. The browser paces its own sampling from these
+export const ANALYZE_RATE_LIMIT = { maxRequests: 240, windowMs: 60_000 };
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterSeconds: number;
+}
+
+interface RateLimitWindow {
+  count: number;
+  resetAt: number;
+}
+
+/**
+ * Create a rate limiter that allows `limit` requests per client every `windowMs`
+ */
+export function createRateLimiter(limit: number, windowMs: number) {
+  const windows = new Map<string, RateLimitWindow>();
+
+  return function checkRateLimit(clientId: string, now: number = Date.now()): RateLimitResult {
+    // Drop expired windows so the map doesn't grow with every client ever seen
+    for (const [id, window] of windows) {
+      if (window.resetAt <= now) {
+        windows.delete(id);
+      }
+    }
+
+    let window = windows.get(clientId);
+    if (!window) {
+      window = { count: 0, resetAt: now + windowMs };
+      windows.set(clientId, window);
+    }
+
+    if (window.count >= limit) {
+      return {
+        allowed: false,
+        remaining: 0,
+        retryAfterSeconds: Math.ceil((window.resetAt - now) / 1000)
+      };
+    }
+
+    window.count++;
+    return {
+      allowed: true,
+      remaining: limit - window.count,
+      retryAfterSeconds: 0
+    };
+  };
+}
+
+export interface ClientIdOptions {
+  trustedHeader?: string; // Header the hosting platform overwrites with the caller's IP, e.g. x-real-ip on Vercel
+  trustedProxyHops?: number; // Proxies in front of the app that each append to X-Forwarded-For
+}
+
+/**
+ * Identify the caller for rate limiting from headers the deployment can vouch for
+ * Anything the client sends itself (like the first X-Forwarded-For entry) could be changed on every request,
+ * so returns null unless a trusted header or proxy is configured
+ */
+export function getClientId(headers: Headers, options: ClientIdOptions): string | null {
+  if (options.trustedHeader) {
+    const ip = headers.get(options.trustedHeader)?.trim();
+    if (ip) {
+      return ip;
+    }
+  }
+
+  const hops = options.trustedProxyHops ?? 0;
+  if (hops > 0) {
+    // Each trusted proxy appends the address it received the request from, so the outermost one's entry
+    // is the caller and anything to its left was sent by the client
+    const entries = (headers.get('x-forwarded-for') ?? '').split(',').map(entry => entry.trim());
+    const ip = entries.length >= hops ? entries[entries.length - hops] : '';
+    if (ip) {
+      return ip;
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,324 @@
+/**
+ * Rep detection for Coachly
+ * Segments a stream of keypoint frames into reps by tracking each exercise's primary joint angle
+ */
+
+import {
+  analyzeTechnique,
+  getBodyScale,
+  getPrimaryJointAngle,
+  ImageSize,
+  KeypointData,
+  MovementPhase
+} from './techniqueAnalysis';
+import type { ExerciseId } from './exerciseDefinitions';
+import { getExerciseDefinition } from './exerciseRegistry';
+import { compareIssueSeverity, TechniqueIssue } from './techniqueIssues';
+import { BarPathPoint, BarPathSummary, BarPosition, checkBarPath, summarizeBarPath } from './barPath';
+import { getVelocityLoss, measureRepTempo, MotionSample, RepTempo, sampleMotion } from './repTempo';
+
+export type RepPhase = 'lockout' | 'eccentric' | 'bottom' | 'concentric';
+
+export interface KeypointFrame {
+  timestamp: number; // Milliseconds
+  keypoints: KeypointData[];
+  imageSize?: ImageSize;
+  bar?: BarPosition;
+}
+
+export interface RepSummary {
+  index: number; // 1-based rep number within the set
+  startTime: number;
+  endTime: number;
+  bottomAngle: number; // Smallest primary joint angle reached during the rep
+  score: number; // Average technique score across the rep's frames
+  issues: TechniqueIssue[]; // Most severe first
+  barPath?: BarPathSummary; // How the bar moved, for barbell lifts where it could be followed through the rep
+  tempo?: RepTempo;
+  velocityLoss?: number; // How much slower the drive up was than the set's fastest rep so far, from 0 to 1
+}
+
+export interface RepTrackerState {
+  exerciseType: ExerciseId;
+  phase: RepPhase | null; // null until the primary joint has been seen at lockout or bottom
+  currentAngle: number | null;
+  reps: RepSummary[];
+  // Accumulated over the rep in progress
+  repStartTime: number | null;
+  repBottomAngle: number;
+  repScores: number[];
+  repIssueCounts: Record<string, number>; // Frames each issue code was flagged in
+  repIssues: Record<string, TechniqueIssue>; // Furthest-from-threshold occurrence of each issue code
+  // Deepest frame of the current bottom, analyzed once the lifter starts coming up
+  bottomFrame: { frame: KeypointFrame; angle: number } | null;
+  repBottomIssues: string[]; // Issue codes
+  repBarPath: BarPathPoint[];
+  repBodyScales: number[]; // Torso length in pixels in each frame, to measure the bar path in body units
+  repBottomStart: number | null; // First and last frames spent at the bottom, for the rep's tempo
+  repBottomEnd: number | null;
+  repMotion: MotionSample[];
+}
+
+// Degrees the angle must move back past a threshold before the phase changes, so jitter doesn't flip phases
+const PHASE_HYSTERESIS = 10;
+
+// An issue must show up in at least this share of a rep's frames to be reported for the rep
+const REP_ISSUE_FRAME_RATIO = 0.25;
+
+/**
+ * Create an empty tracker for a new set
+ */
+export function createRepTracker(exerciseType: ExerciseId): RepTrackerState {
+  return {
+    exerciseType,
+    phase: null,
+    currentAngle: null,
+    reps: [],
+    repStartTime: null,
+    repBottomAngle: Infinity,
+    repScores: [],
+    repIssueCounts: {},
+    repIssues: {},
+    bottomFrame: null,
+    repBottomIssues: [],
+    repBarPath: [],
+    repBodyScales: [],
+    repBottomStart: null,
+    repBottomEnd: null,
+    repMotion: []
+  };
+}
+
+/**
+ * Map a rep tracker phase onto the movement phase used by the technique checks
+ * For lifts that start from the bottom (e.g. deadlift), the bottom is the setup position the next rep starts from
+ */
+export function toMovementPhase(phase: RepPhase, exerciseType: ExerciseId): MovementPhase {
+  switch (phase) {
+    case 'lockout':
+      return 'lockout';
+    case 'eccentric':
+      return 'descent';
+    case 'bottom':
+      return getExerciseDefinition(exerciseType)?.primaryAngle.bottomIsSetup ? 'setup' : 'bottom';
+    case 'concentric':
+      return 'ascent';
+  }
+}
+
+/**
+ * Advance the tracker by one keypoint frame, completing a rep when the lifter returns to lockout from the bottom
+ */
+export function updateRepTracker(state: RepTrackerState, frame: KeypointFrame): RepTrackerState {
+  const definition = getExerciseDefinition(state.exerciseType);
+  const angle = definition ? getPrimaryJointAngle(frame.keypoints, definition) : null;
+  if (!definition || angle === null) {
+    return { ...state, currentAngle: null };
+  }
+
+  const { lockoutAngle, bottomAngle } = definition.primaryAngle;
+  let next: RepTrackerState = { ...state, currentAngle: angle };
+
+  switch (state.phase) {
+    case null:
+      if (angle >= lockoutAngle) {
+        next.phase = 'lockout';
+      } else if (angle <= bottomAngle) {
+        // e.g. a deadlift set starts from the floor
+        next = startRep(next, frame.timestamp);
+        next.phase = 'bottom';
+      }
+      break;
+    case 'lockout':
+      if (angle < lockoutAngle - PHASE_HYSTERESIS) {
+        next = startRep(next, frame.timestamp);
+        next.phase = 'eccentric';
+      }
+      break;
+    case 'eccentric':
+      if (angle <= bottomAngle) {
+        next.phase = 'bottom';
+      } else if (angle >= lockoutAngle) {
+        // Came back up without reaching the bottom, so it doesn't count as a rep
+        next = { ...createRepTracker(state.exerciseType), reps: state.reps, currentAngle: angle, phase: 'lockout' };
+        return next;
+      }
+      break;
+    case 'bottom':
+      if (angle > bottomAngle + PHASE_HYSTERESIS) {
+        next = analyzeBottomFrame(next);
+        next.phase = 'concentric';
+      }
+      break;
+    case 'concentric':
+      if (angle <= bottomAngle) {
+        next.phase = 'bottom';
+      } else if (angle >= lockoutAngle) {
+        next = recordMotion(accumulateFrame(next, frame, angle), frame);
+        return completeRep(next, frame.timestamp);
+      }
+      break;
+  }
+
+  if (next.repStartTime === null || next.phase === null) {
+    return next;
+  }
+  next = recordMotion(next, frame);
+  if (next.phase === 'bottom') {
+    // The bottom is judged once, at its deepest point, rather than on every frame spent there
+    if (!next.bottomFrame || angle < next.bottomFrame.angle) {
+      next.bottomFrame = { frame, angle };
+    }
+    return {
+      ...next,
+      repBottomAngle: Math.min(next.repBottomAngle, angle),
+      repBottomStart: next.repBottomStart ?? frame.timestamp,
+      repBottomEnd: frame.timestamp
+    };
+  }
+  return accumulateFrame(next, frame, angle);
+}
+
+function startRep(state: RepTrackerState, timestamp: number): RepTrackerState {
+  return {
+    ...state,
+    repStartTime: timestamp,
+    repBottomAngle: Infinity,
+    repScores: [],
+    repIssueCounts: {},
+    repIssues: {},
+    bottomFrame: null,
+    repBottomIssues: [],
+    repBarPath: [],
+    repBodyScales: [],
+    repBottomStart: null,
+    repBottomEnd: null,
+    repMotion: []
+  };
+}
+
+/**
+ * Follow the bar and the lift's vertical motion through the rep
+ */
+function recordMotion(state: RepTrackerState, frame: KeypointFrame): RepTrackerState {
+  const definition = getExerciseDefinition(state.exerciseType);
+  const motion = definition
+    ? sampleMotion(definition, frame.keypoints, frame.timestamp, frame.bar, frame.imageSize)
+    : null;
+  const next = motion ? { ...state, repMotion: [...state.repMotion, motion] } : state;
+  if (!frame.bar) {
+    return next;
+  }
+  return {
+    ...next,
+    repBarPath: [...state.repBarPath, { ...frame.bar, timestamp: frame.timestamp }],
+    repBodyScales: [...state.repBodyScales, getBodyScale(frame.keypoints, frame.imageSize)]
+  };
+}
+
+function analyzeBottomFrame(state: RepTrackerState): RepTrackerState {
+  if (!state.bottomFrame) {
+    return state;
+  }
+  const { frame, angle } = state.bottomFrame;
+  const next = accumulateFrame({ ...state, phase: 'bottom' }, frame, angle);
+
+  // Only one frame is analyzed at the bottom, so its issues skip the frame ratio check
+  const bottomIssues = Object.keys(next.repIssueCounts).filter(
+    code => next.repIssueCounts[code] > (state.repIssueCounts[code] || 0)
+  );
+  return {
+    ...next,
+    phase: state.phase,
+    bottomFrame: null,
+    repBottomIssues: [...new Set([...state.repBottomIssues, ...bottomIssues])]
+  };
+}
+
+function accumulateFrame(state: RepTrackerState, frame: KeypointFrame, angle: number): RepTrackerState {
+  const phase = state.phase ? toMovementPhase(state.phase, state.exerciseType) : undefined;
+  const analysis = analyzeTechnique(frame.keypoints, state.exerciseType, { phase, imageSize: frame.imageSize });
+  const repIssueCounts = { ...state.repIssueCounts };
+  const repIssues = { ...state.repIssues };
+  analysis.issues.forEach(issue => {
+    repIssueCounts[issue.code] = (repIssueCounts[issue.code] || 0) + 1;
+    const previous = repIssues[issue.code];
+    if (!previous || exceedance(issue) > exceedance(previous)) {
+      repIssues[issue.code] = issue;
+    }
+  });
+
+  return {
+    ...state,
+    repBottomAngle: Math.min(state.repBottomAngle, angle),
+    repScores: [...state.repScores, analysis.score],
+    repIssueCounts,
+    repIssues
+  };
+}
+
+/**
+ * How far an issue's measurement went past its threshold
+ */
+function exceedance(issue: TechniqueIssue): number {
+  return issue.measured !== undefined && issue.threshold !== undefined
+    ? Math.abs(issue.measured - issue.threshold)
+    : 0;
+}
+
+function completeRep(state: RepTrackerState, timestamp: number): RepTrackerState {
+  const frameCount = state.repScores.length;
+  const minFrames = Math.max(1, Math.ceil(frameCount * REP_ISSUE_FRAME_RATIO));
+
+  const frequentIssues = Object.entries(state.repIssueCounts)
+    .filter(([, count]) => count >= minFrames)
+    .sort((a, b) => b[1] - a[1])
+    .map(([code]) => code);
+
+  const issues = [...new Set([...frequentIssues, ...state.repBottomIssues])].map(code => state.repIssues[code]);
+  let score = state.repScores.reduce((sum, score) => sum + score, 0) / frameCount;
+
+  // The bar path can only be judged once the whole rep has been seen
+  const definition = getExerciseDefinition(state.exerciseType);
+  const barPath = summarizeBarPath(state.repBarPath, median(state.repBodyScales)) ?? undefined;
+  if (definition && barPath) {
+    const barPathCheck = checkBarPath(definition, barPath);
+    issues.push(...barPathCheck.issues);
+    score = Math.max(0.1, score - barPathCheck.penalty);
+  }
+
+  const startTime = state.repStartTime ?? timestamp;
+  const bottomStart = state.repBottomStart ?? startTime;
+  const tempo = measureRepTempo(startTime, bottomStart, state.repBottomEnd ?? bottomStart, timestamp, state.repMotion);
+
+  const rep: RepSummary = {
+    index: state.reps.length + 1,
+    startTime,
+    endTime: timestamp,
+    bottomAngle: state.repBottomAngle,
+    score,
+    issues: issues.sort(compareIssueSeverity),
+    barPath,
+    tempo,
+    velocityLoss: getVelocityLoss(state.reps.map(previous => previous.tempo), tempo) ?? undefined
+  };
+
+  return {
+    ...createRepTracker(state.exerciseType),
+    phase: 'lockout',
+    currentAngle: state.currentAngle,
+    reps: [...state.reps, rep]
+  };
+}
+
+/**
+ * Middle value, so a frame where the torso was badly detected doesn't skew the scale
+ */
+function median(values: number[]): number {
+  if (values.length === 0) {
+    return 0;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
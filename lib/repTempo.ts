@@ -0,0 +1,125 @@
+/**
+ * Rep tempo and velocity for Coachly
+ * Times each phase of a rep and measures how fast the lifter drives out of the bottom, in torso lengths per second,
+ * so slowing reps show fatigue the way velocity-based training uses bar speed
+ */
+
+import type { ExerciseDefinition } from './exerciseDefinitions';
+import type { BarPosition } from './barPath';
+import { getBodyScale, ImageSize, KeypointData } from './techniqueAnalysis';
+
+export interface MotionSample {
+  timestamp: number;
+  y: number; // Height of the tracked point in image pixels
+  scale: number; // Torso length in pixels in that frame
+}
+
+export interface RepTempo {
+  eccentricMs: number; // Lowering, from leaving lockout to reaching the bottom (0 for a rep started from the floor)
+  pauseMs: number; // Time spent at the bottom
+  concentricMs: number; // Driving back up to lockout
+  meanVelocity: number | null; // Average concentric speed in torso lengths per second
+  peakVelocity: number | null; // Fastest concentric speed between two frames
+}
+
+// Keypoints below this confidence aren't used to follow the lift
+const MIN_CONFIDENCE = 0.5;
+
+// Velocity loss from the set's fastest rep that suggests the lifter is near failure
+export const FATIGUE_VELOCITY_LOSS = 0.3;
+
+/**
+ * Height of the point whose speed stands for the lift: the bar, or the exercise's velocity joint for lifts without one
+ * Falls back to the hips when neither is visible. Returns null if nothing usable is in frame
+ */
+export function sampleMotion(
+  definition: ExerciseDefinition,
+  keypoints: KeypointData[],
+  timestamp: number,
+  bar?: BarPosition,
+  imageSize?: ImageSize
+): MotionSample | null {
+  const joint = definition.velocityJoint ?? (bar ? undefined : 'hip');
+  let y = bar?.y;
+  if (joint) {
+    const points = keypoints.filter(
+      kp => (kp.class === `left_${joint}` || kp.class === `right_${joint}`) && kp.confidence >= MIN_CONFIDENCE
+    );
+    y = points.length > 0 ? points.reduce((sum, kp) => sum + kp.y, 0) / points.length : undefined;
+  }
+  return y === undefined ? null : { timestamp, y, scale: getBodyScale(keypoints, imageSize) };
+}
+
+/**
+ * Time a rep's phases and measure its concentric velocity
+ * @param startTime - When the lifter left lockout, or first reached the bottom for a rep started from the floor
+ * @param bottomStart - When the bottom was reached
+ * @param bottomEnd - When the lifter started driving up
+ * @param endTime - When lockout was reached again
+ * @param samples - Motion over the rep, in time order
+ */
+export function measureRepTempo(
+  startTime: number,
+  bottomStart: number,
+  bottomEnd: number,
+  endTime: number,
+  samples: MotionSample[]
+): RepTempo {
+  const concentricMs = endTime - bottomEnd;
+
+  // The last frame at the bottom is where the drive up starts from
+  const driveStart = samples.filter(sample => sample.timestamp <= bottomEnd).pop();
+  const concentric = [
+    ...(driveStart ? [driveStart] : []),
+    ...samples.filter(sample => sample.timestamp > bottomEnd && sample.timestamp <= endTime)
+  ];
+
+  let meanVelocity: number | null = null;
+  let peakVelocity: number | null = null;
+  if (concentric.length >= 2) {
+    const first = concentric[0];
+    const last = concentric[concentric.length - 1];
+    const scale = concentric.reduce((sum, sample) => sum + sample.scale, 0) / concentric.length;
+    const seconds = (last.timestamp - first.timestamp) / 1000;
+    if (seconds > 0 && scale > 0) {
+      meanVelocity = Math.abs(first.y - last.y) / scale / seconds;
+      peakVelocity = Math.max(
+        ...concentric.slice(1).map((sample, i) => {
+          const previous = concentric[i];
+          const dt = (sample.timestamp - previous.timestamp) / 1000;
+          return dt > 0 ? Math.abs(previous.y - sample.y) / scale / dt : 0;
+        })
+      );
+    }
+  }
+
+  return {
+    eccentricMs: bottomStart - startTime,
+    pauseMs: bottomEnd - bottomStart,
+    concentricMs,
+    meanVelocity,
+    peakVelocity
+  };
+}
+
+/**
+ * How much slower a rep was than the fastest rep before it, from 0 (as fast) to 1
+ * Returns null when there's no velocity to compare
+ */
+export function getVelocityLoss(previous: (RepTempo | undefined)[], tempo: RepTempo): number | null {
+  const velocities = previous.flatMap(rep => (rep?.meanVelocity ? [rep.meanVelocity] : []));
+  if (tempo.meanVelocity === null) {
+    return null;
+  }
+  const fastest = Math.max(tempo.meanVelocity, ...velocities);
+  return fastest > 0 ? 1 - tempo.meanVelocity / fastest : null;
+}
+
+/**
+ * Tempo as eccentric-pause-concentric seconds, the way coaches write it (e.g. "3-1-1")
+ */
+export function formatTempo(tempo: RepTempo): string {
+  return [tempo.eccentricMs, tempo.pauseMs, tempo.concentricMs]
+    .map(ms => (ms / 1000).toFixed(1))
+    .join('-');
+}
@@ -1,13 +1,31 @@
 /**
  * Roboflow API integration for Coachly
- * Analyzes gym exercise posture (squat, bench, deadlift)
+ * Pose detection through a Roboflow workflow, proxied by our API route
  */
 
-import { analyzeTechnique, getExerciseSpecificFeedback } from './techniqueAnalysis';
-export { getExerciseTips } from './techniqueAnalysis';
+import type { DetectedPerson, PoseEstimate, PoseProvider } from './poseProvider';
+import type { KeypointData } from './techniqueAnalysis';
+import { choosePrimaryPerson } from './lifterTracking';
+import { isPlateClass } from './barPath';
+import { PoseBackendError, poseErrorFromResponse, toPoseBackendError } from './poseErrors';
+import { ANALYZE_RATE_LIMIT } from './rateLimit';
 
-const ROBOFLOW_API_URL = process.env.NEXT_PUBLIC_ROBOFLOW_API_URL;
-const API_KEY = process.env.NEXT_PUBLIC_ROBOFLOW_API_KEY;
+// Server-side proxy that holds the Roboflow API key (see app/api/analyze/route.ts)
+const ANALYZE_API_URL = '/api/analyze';
+
+// A frame older than this is no use for live feedback
+const REQUEST_TIMEOUT_MS = 10_000;
+
+// Rate limits and server errors are retried with exponential backoff, unless the wait would make the frame stale
+const MAX_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 4000;
+
+// Frames sent back to back, e.g. from a video, use at most this share of the rate limit, leaving room for retries
+const STEADY_RATE_LIMIT_SHARE = 0.8;
+
+// Phone videos can be 4K, which would blow past the API's body size limit once encoded
+const MAX_CAPTURE_DIMENSION = 1280;
 
 export interface RoboflowResponse {
   outputs: Array<{
@@ -38,7 +56,8 @@ export interface RoboflowResponse {
         class: string;
         detection_id: string;
         parent_id: string;
-        keypoints: Array<{
+        // Only person detections have keypoints; plates from an object detection step don't
+        keypoints?: Array<{
           class_id: number;
           class: string;
           confidence: number;
@@ -48,64 +67,69 @@ export interface RoboflowResponse {
       }>;
     };
   }>;
-  profiler_trace: any[];
+  profiler_trace: unknown[];
 }
 
-export interface PostureAnalysisResult {
-  isGoodPosture: boolean;
-  confidence: number;
-  feedback: string[];
-  exercise: 'squat' | 'bench' | 'deadlift' | 'unknown';
-  detectedIssues: string[];
-  visualizedImage?: string; // Base64 encoded image with annotations
-  missingKeypoints?: boolean; // Flag for when critical keypoints are not visible
-}
+export const roboflowPoseProvider: PoseProvider = {
+  id: 'roboflow',
+  label: 'Roboflow (cloud)',
+  description: 'Most accurate, needs a connection',
+  minRequestIntervalMs: Math.ceil(
+    ANALYZE_RATE_LIMIT.windowMs / (ANALYZE_RATE_LIMIT.maxRequests * STEADY_RATE_LIMIT_SHARE)
+  ),
 
-/**
- * Analyze posture using Roboflow API
- * @param imageInput - Can be a URL string or base64 encoded image
- * @param inputType - 'url' or 'base64'
- * @param exerciseType - The type of exercise being performed
- */
-export async function analyzePosture(
-  imageInput: string,
-  inputType: 'url' | 'base64' = 'url',
-  exerciseType?: 'squat' | 'bench' | 'deadlift'
-): Promise<PostureAnalysisResult> {
-  try {
-    if (!API_KEY) {
-      throw new Error('Roboflow API key not configured');
-    }
-    if (!ROBOFLOW_API_URL) {
-      throw new Error('Roboflow API URL not configured');
-    }
+  async estimatePose(video: HTMLVideoElement): Promise<PoseEstimate> {
+    const body = JSON.stringify({ image: captureImageFromVideo(video) });
 
-    const response = await fetch(ROBOFLOW_API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        api_key: API_KEY,
-        inputs: {
-          image: { type: inputType, value: imageInput }
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await requestPose(body);
+      } catch (error) {
+        const poseError = toPoseBackendError(error);
+        const delay = poseError.retryAfterMs ?? RETRY_BASE_DELAY_MS * 2 ** attempt;
+        if (!poseError.retryable || attempt >= MAX_RETRIES || delay > MAX_RETRY_DELAY_MS) {
+          throw poseError;
         }
-      })
-    });
-
-    if (!response.ok) {
-      throw new Error(`Roboflow API error: ${response.status} ${response.statusText}`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
     }
+  }
+};
+
+/**
+ * Send one frame to the analysis API
+ */
+async function requestPose(body: string): Promise<PoseEstimate> {
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+    throw new PoseBackendError('offline', 'No network connection');
+  }
+
+  const response = await fetch(ANALYZE_API_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body,
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+  });
 
-    const result = await response.json();
-    const analysisData: RoboflowResponse = result;
-    
-    // Process the Roboflow response and convert to our format
-    return processRoboflowResponse(analysisData, exerciseType);
-  } catch (error) {
-    console.error('Error analyzing posture:', error);
-    throw new Error(`Failed to analyze posture: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  const data: unknown = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw poseErrorFromResponse(response.status, data, response.headers.get('Retry-After'));
   }
+  if (!isPoseEstimate(data)) {
+    throw new PoseBackendError('malformed_response', 'Analysis API returned an invalid pose');
+  }
+  return data;
+}
+
+function isPoseEstimate(value: unknown): value is PoseEstimate {
+  return isRecord(value) &&
+    typeof value.confidence === 'number' &&
+    Array.isArray(value.keypoints) &&
+    value.keypoints.every(isKeypoint) &&
+    (value.people === undefined || (Array.isArray(value.people) && value.people.every(isDetectedPerson))) &&
+    (value.plate === undefined || (isRecord(value.plate) && typeof value.plate.x === 'number' && typeof value.plate.y === 'number'));
 }
 
 /**
@@ -127,6 +151,7 @@ export function fileToBase64(file: File): Promise<string> {
 
 /**
  * Capture image from video stream and convert to base64
+ * Large frames are scaled down, so keypoints come back in the scaled frame's pixels
  */
 export function captureImageFromVideo(videoElement: HTMLVideoElement): string {
   const canvas = document.createElement('canvas');
@@ -136,122 +161,141 @@ export function captureImageFromVideo(videoElement: HTMLVideoElement): string {
     throw new Error('Failed to get canvas context');
   }
 
-  canvas.width = videoElement.videoWidth;
-  canvas.height = videoElement.videoHeight;
+  const scale = Math.min(
+    1,
+    MAX_CAPTURE_DIMENSION / Math.max(videoElement.videoWidth, videoElement.videoHeight)
+  );
+  canvas.width = Math.round(videoElement.videoWidth * scale);
+  canvas.height = Math.round(videoElement.videoHeight * scale);
   
-  context.drawImage(videoElement, 0, 0);
+  context.drawImage(videoElement, 0, 0, canvas.width, canvas.height);
   
   // Get base64 without the data URL prefix
   return canvas.toDataURL('image/jpeg', 0.8).split(',')[1];
 }
 
 /**
- * Process Roboflow response and extract meaningful feedback
+ * Process Roboflow response into a normalized pose estimate
+ * Throws a malformed_response error if the response isn't shaped like a pose workflow's output.
+ * A valid response with nobody in frame gives an empty pose, not an error
  */
-function processRoboflowResponse(response: RoboflowResponse, exerciseType?: 'squat' | 'bench' | 'deadlift'): PostureAnalysisResult {
-  const defaultResult: PostureAnalysisResult = {
-    isGoodPosture: false,
-    confidence: 0,
-    feedback: [],
-    exercise: exerciseType || 'unknown',
-    detectedIssues: [],
-    missingKeypoints: false
+export function processRoboflowResponse(response: unknown): PoseEstimate {
+  const problem = findResponseProblem(response);
+  if (problem) {
+    throw new PoseBackendError('malformed_response', `Unexpected Roboflow response: ${problem}`);
+  }
+
+  const output = (response as RoboflowResponse).outputs[0];
+  const { image, predictions } = output.model_predictions;
+
+  const people: DetectedPerson[] = predictions
+    .filter(pred => pred.class === 'person')
+    .map(pred => ({
+      detectionId: pred.detection_id,
+      box: { x: pred.x, y: pred.y, width: pred.width, height: pred.height },
+      confidence: pred.confidence,
+      keypoints: (pred.keypoints ?? []).map(kp => ({
+        class: kp.class,
+        confidence: kp.confidence,
+        x: kp.x,
+        y: kp.y
+      }))
+    }));
+
+  // Without tracking to go on, the lifter is taken to be the most prominent person
+  const lifter = choosePrimaryPerson(people);
+
+  // Workflows that also detect plates give the bar's position directly
+  const plate = predictions
+    .filter(pred => isPlateClass(pred.class))
+    .sort((a, b) => b.confidence - a.confidence)[0];
+
+  return {
+    keypoints: lifter?.keypoints || [],
+    confidence: lifter?.confidence || 0,
+    imageSize: { width: image.width, height: image.height },
+    visualizedImage: output.pose_skeleton_visualization?.value,
+    detectionId: lifter?.detectionId,
+    people,
+    plate: plate ? { x: plate.x, y: plate.y, source: 'plate' } : undefined
   };
+}
 
-  try {
-    // Get the first output from the outputs array
-    const output = response.outputs?.[0];
-    if (!output) {
-      return defaultResult;
-    }
-    
-    // Extract the pose skeleton visualization image
-    const visualizedImage = output.pose_skeleton_visualization?.value;
-    
-    // Get predictions data
-    const predictions = output.model_predictions?.predictions || [];
-    
-    // Calculate overall confidence from person detection
-    const personDetection = predictions.find((pred: any) => pred.class === 'person');
-    const confidence = personDetection?.confidence || 0;
-    
-    // Analyze keypoints for posture quality
-    const keypoints = personDetection?.keypoints || [];
-    const postureAnalysis = analyzeTechnique(keypoints, exerciseType);
-    
-    // Check for missing critical keypoints
-    const missingKeypoints = checkForMissingKeypoints(keypoints, exerciseType);
-    
-    // Determine if posture is good based on confidence and keypoint analysis
-    const isGoodPosture = confidence > 0.7 && postureAnalysis.score > 0.6 && !missingKeypoints;
-    
-    // Generate feedback based on analysis
-    const feedback: string[] = [];
-    const detectedIssues: string[] = [];
-    
-    if (isGoodPosture) {
-      feedback.push("Excellent form detected!");
-      if (exerciseType) {
-        feedback.push(`Your ${exerciseType} technique looks great.`);
-      } else {
-        feedback.push("Your posture and alignment look great.");
-      }
-    } else {
-      feedback.push("There are some areas for improvement in your form.");
-      
-      // Add exercise-specific feedback
-      if (exerciseType) {
-        feedback.push(...getExerciseSpecificFeedback(exerciseType, postureAnalysis));
-      }
-      
-      // Add specific feedback based on keypoint analysis
-      if (postureAnalysis.issues.length > 0) {
-        detectedIssues.push(...postureAnalysis.issues);
-        feedback.push("Focus on the highlighted areas for better form.");
-      }
-      
-      if (confidence < 0.5) {
-        detectedIssues.push("Person detection confidence is low");
-        feedback.push("Make sure you're clearly visible in the camera frame.");
-      }
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
 
-      if (missingKeypoints) {
-        detectedIssues.push("Some critical body parts are not visible");
-        feedback.push("Adjust your position to ensure all key body parts are visible in the camera.");
-      }
-    }
+function isBox(value: Record<string, unknown>): boolean {
+  return typeof value.x === 'number' &&
+    typeof value.y === 'number' &&
+    typeof value.width === 'number' &&
+    typeof value.height === 'number';
+}
 
-    return {
-      isGoodPosture,
-      confidence,
-      feedback,
-      exercise: exerciseType || 'unknown',
-      detectedIssues,
-      visualizedImage,
-      missingKeypoints
-    };
-  } catch (error) {
-    console.error('Error processing Roboflow response:', error);
-    return defaultResult;
-  }
+function isDetectedPerson(value: unknown): value is DetectedPerson {
+  return isRecord(value) &&
+    typeof value.detectionId === 'string' &&
+    isRecord(value.box) &&
+    isBox(value.box) &&
+    typeof value.confidence === 'number' &&
+    Array.isArray(value.keypoints) &&
+    value.keypoints.every(isKeypoint);
+}
+
+function isKeypoint(value: unknown): value is KeypointData {
+  return isRecord(value) &&
+    typeof value.class === 'string' &&
+    typeof value.confidence === 'number' &&
+    typeof value.x === 'number' &&
+    typeof value.y === 'number';
 }
 
 /**
- * Check for missing critical keypoints based on exercise type
+ * Check the parts of the workflow output we read, so a changed workflow fails loudly instead of reporting no person
+ * Returns the first problem found, or null if the response is usable
  */
-function checkForMissingKeypoints(keypoints: any[], exerciseType?: 'squat' | 'bench' | 'deadlift'): boolean {
-  const requiredKeypoints = {
-    squat: ['left_shoulder', 'right_shoulder', 'left_hip', 'right_hip', 'left_knee', 'right_knee', 'left_ankle', 'right_ankle'],
-    bench: ['left_shoulder', 'right_shoulder', 'left_elbow', 'right_elbow', 'left_wrist', 'right_wrist'],
-    deadlift: ['left_shoulder', 'right_shoulder', 'left_hip', 'right_hip', 'left_knee', 'right_knee', 'left_ankle', 'right_ankle']
-  };
-
-  const required = exerciseType ? requiredKeypoints[exerciseType] : ['left_shoulder', 'right_shoulder', 'left_hip', 'right_hip'];
-  const confidenceThreshold = 0.3;
-
-  const visibleKeypoints = keypoints.filter(kp => kp.confidence > confidenceThreshold).map(kp => kp.class);
-  const missingCount = required.filter(req => !visibleKeypoints.includes(req)).length;
+function findResponseProblem(value: unknown): string | null {
+  if (!isRecord(value) || !Array.isArray(value.outputs)) {
+    return 'outputs should be an array';
+  }
+  const output = value.outputs[0];
+  if (!isRecord(output)) {
+    return 'outputs[0] should be an object';
+  }
+  const visualization = output.pose_skeleton_visualization;
+  if (visualization !== undefined && (!isRecord(visualization) || typeof visualization.value !== 'string')) {
+    return 'outputs[0].pose_skeleton_visualization.value should be a string';
+  }
+  const modelPredictions = output.model_predictions;
+  if (!isRecord(modelPredictions)) {
+    return 'outputs[0].model_predictions should be an object';
+  }
+  const { image, predictions } = modelPredictions;
+  if (!isRecord(image) || typeof image.width !== 'number' || typeof image.height !== 'number') {
+    return 'outputs[0].model_predictions.image should have a numeric width and height';
+  }
+  if (!Array.isArray(predictions)) {
+    return 'outputs[0].model_predictions.predictions should be an array';
+  }
 
-  // Consider keypoints missing if more than 30% of required keypoints are not visible
-  return missingCount > required.length * 0.3;
+  for (const [index, prediction] of predictions.entries()) {
+    const path = `outputs[0].model_predictions.predictions[${index}]`;
+    if (!isRecord(prediction) || typeof prediction.class !== 'string' || typeof prediction.confidence !== 'number') {
+      return `${path} should have a class and confidence`;
+    }
+    if (typeof prediction.detection_id !== 'string' || !isBox(prediction)) {
+      return `${path} should have a detection_id and a box`;
+    }
+    if (prediction.class !== 'person') {
+      continue;
+    }
+    if (!Array.isArray(prediction.keypoints)) {
+      return `${path}.keypoints should be an array`;
+    }
+    const badKeypoint = prediction.keypoints.findIndex(kp => !isKeypoint(kp));
+    if (badKeypoint !== -1) {
+      return `${path}.keypoints[${badKeypoint}] should have a class, confidence, x and y`;
+    }
+  }
+  return null;
 }
@@ -0,0 +1,66 @@
+/**
+ * Session recording for Coachly
+ * Records the camera stream with MediaRecorder so a set can be replayed alongside its analysis afterwards
+ */
+
+export interface SessionRecorder {
+  startTime: number; // Milliseconds since epoch when recording began
+  mimeType: string;
+  stop(): Promise<Blob>; // Resolves with the whole recording
+}
+
+// Most compact first; Safari only records MP4
+const RECORDING_MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm', 'video/mp4'];
+
+// Plenty to see form in, and keeps a minute-long set to a few megabytes
+const RECORDING_BITS_PER_SECOND = 1_000_000;
+
+// Collect data regularly so an interrupted recording still has most of the set
+const CHUNK_INTERVAL_MS = 1000;
+
+/**
+ * Whether the browser can record the camera stream
+ */
+export function isRecordingSupported(): boolean {
+  return typeof MediaRecorder !== 'undefined' && getRecordingMimeType() !== undefined;
+}
+
+function getRecordingMimeType(): string | undefined {
+  return RECORDING_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+}
+
+/**
+ * Start recording a stream
+ */
+export function startRecording(stream: MediaStream): SessionRecorder {
+  const mimeType = getRecordingMimeType();
+  if (!mimeType) {
+    throw new Error('Recording is not supported in this browser');
+  }
+
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: RECORDING_BITS_PER_SECOND });
+  const chunks: Blob[] = [];
+  recorder.addEventListener('dataavailable', (event) => {
+    if (event.data.size > 0) {
+      chunks.push(event.data);
+    }
+  });
+
+  const stopped = new Promise<Blob>((resolve, reject) => {
+    recorder.addEventListener('stop', () => resolve(new Blob(chunks, { type: mimeType })));
+    recorder.addEventListener('error', () => reject(new Error('Recording failed')));
+  });
+
+  recorder.start(CHUNK_INTERVAL_MS);
+
+  return {
+    startTime: Date.now(),
+    mimeType,
+    stop() {
+      if (recorder.state !== 'inactive') {
+        recorder.stop();
+      }
+      return stopped;
+    }
+  };
+}
@@ -0,0 +1,273 @@
+/**
+ * Workout session history for Coachly
+ * Sessions and every analysis result in them are stored in IndexedDB, so history survives reloads and works offline
+ */
+
+import type { ExerciseId } from './exerciseDefinitions';
+import type { PostureAnalysisResult } from './postureAnalysis';
+import type { TechniqueIssue } from './techniqueIssues';
+
+export interface WorkoutSession {
+  id: string;
+  exercise: ExerciseId;
+  startTime: number; // Milliseconds since epoch
+  endTime: number;
+  entryCount: number;
+  averageScore: number; // Mean technique score across the session's analyses
+  thumbnail?: string; // Small JPEG data URL of the first analyzed frame
+  hasRecording?: boolean; // Whether a video of the session was saved for replay
+}
+
+export interface SessionEntry {
+  sessionId: string;
+  timestamp: number;
+  result: PostureAnalysisResult; // Stored without the annotated image to keep the database small
+}
+
+export interface SessionRecording {
+  sessionId: string;
+  startTime: number; // Milliseconds since epoch when recording began, to line entries up with the video
+  duration: number; // Milliseconds, since recorded WebM files often don't report their own duration
+  mimeType: string;
+  video: Blob;
+}
+
+export interface SessionFilter {
+  exercise?: ExerciseId;
+  from?: number; // Only sessions starting at or after this time
+  to?: number; // Only sessions starting at or before this time
+}
+
+const DB_NAME = 'coachly';
+const DB_VERSION = 2;
+const SESSIONS_STORE = 'sessions';
+const ENTRIES_STORE = 'entries';
+const RECORDINGS_STORE = 'recordings';
+
+const THUMBNAIL_WIDTH = 160;
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (databasePromise) {
+    return databasePromise;
+  }
+
+  databasePromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      if (event.oldVersion < 1) {
+        const sessions = db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+        sessions.createIndex('startTime', 'startTime');
+        const entries = db.createObjectStore(ENTRIES_STORE, { autoIncrement: true });
+        entries.createIndex('sessionId', 'sessionId');
+      }
+      if (event.oldVersion < 2) {
+        db.createObjectStore(RECORDINGS_STORE, { keyPath: 'sessionId' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  // Allow a retry if opening failed (e.g. storage blocked in private browsing)
+  databasePromise.catch(() => {
+    databasePromise = null;
+  });
+  return databasePromise;
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionComplete(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Create and store a new, empty session
+ */
+export async function startSession(exercise: ExerciseId, thumbnail?: string): Promise<WorkoutSession> {
+  const now = Date.now();
+  const session: WorkoutSession = {
+    id: crypto.randomUUID(),
+    exercise,
+    startTime: now,
+    endTime: now,
+    entryCount: 0,
+    averageScore: 0,
+    thumbnail
+  };
+
+  const db = await openDatabase();
+  const transaction = db.transaction(SESSIONS_STORE, 'readwrite');
+  transaction.objectStore(SESSIONS_STORE).put(session);
+  await transactionComplete(transaction);
+  return session;
+}
+
+/**
+ * Add an analysis result to a session and update the session's summary
+ */
+export async function recordSessionEntry(
+  sessionId: string,
+  result: PostureAnalysisResult,
+  timestamp: number = Date.now()
+): Promise<void> {
+  const entry: SessionEntry = { sessionId, timestamp, result: { ...result, visualizedImage: undefined } };
+
+  const db = await openDatabase();
+  const transaction = db.transaction([SESSIONS_STORE, ENTRIES_STORE], 'readwrite');
+  const sessions = transaction.objectStore(SESSIONS_STORE);
+  transaction.objectStore(ENTRIES_STORE).add(entry);
+
+  // Read and update the summary in the same transaction so concurrent entries can't overwrite each other
+  const request = sessions.get(sessionId);
+  request.onsuccess = () => {
+    const session: WorkoutSession | undefined = request.result;
+    if (!session) {
+      return;
+    }
+    const entryCount = session.entryCount + 1;
+    sessions.put({
+      ...session,
+      endTime: Math.max(session.endTime, timestamp),
+      entryCount,
+      averageScore: (session.averageScore * session.entryCount + result.score) / entryCount
+    });
+  };
+
+  await transactionComplete(transaction);
+}
+
+/**
+ * List stored sessions, newest first
+ */
+export async function listSessions(filter: SessionFilter = {}): Promise<WorkoutSession[]> {
+  const db = await openDatabase();
+  const index = db.transaction(SESSIONS_STORE).objectStore(SESSIONS_STORE).index('startTime');
+
+  const { from, to } = filter;
+  let range: IDBKeyRange | undefined;
+  if (from !== undefined && to !== undefined) {
+    range = IDBKeyRange.bound(from, to);
+  } else if (from !== undefined) {
+    range = IDBKeyRange.lowerBound(from);
+  } else if (to !== undefined) {
+    range = IDBKeyRange.upperBound(to);
+  }
+
+  const sessions: WorkoutSession[] = await requestResult(index.getAll(range));
+  return sessions
+    .filter(session => !filter.exercise || session.exercise === filter.exercise)
+    .reverse();
+}
+
+/**
+ * Load every analysis result recorded in a session, oldest first
+ */
+export async function getSessionEntries(sessionId: string): Promise<SessionEntry[]> {
+  const db = await openDatabase();
+  const index = db.transaction(ENTRIES_STORE).objectStore(ENTRIES_STORE).index('sessionId');
+  const entries: SessionEntry[] = await requestResult(index.getAll(sessionId));
+  return entries.map(upgradeEntry).sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Load every stored analysis result across all sessions, oldest first
+ */
+export async function listAllEntries(): Promise<SessionEntry[]> {
+  const db = await openDatabase();
+  const entries: SessionEntry[] = await requestResult(db.transaction(ENTRIES_STORE).objectStore(ENTRIES_STORE).getAll());
+  return entries.map(upgradeEntry).sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Entries saved before issues had codes store them as plain messages, which then double as the code
+ */
+function upgradeEntry(entry: SessionEntry): SessionEntry {
+  const detectedIssues = (entry.result.detectedIssues as (TechniqueIssue | string)[]).map(issue =>
+    typeof issue === 'string' ? { code: issue, severity: 'warning' as const, joints: [], message: issue } : issue
+  );
+  return { ...entry, result: { ...entry.result, detectedIssues } };
+}
+
+/**
+ * Store the video recorded during a session and mark the session as replayable
+ */
+export async function saveSessionRecording(recording: SessionRecording): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction([SESSIONS_STORE, RECORDINGS_STORE], 'readwrite');
+  const sessions = transaction.objectStore(SESSIONS_STORE);
+  transaction.objectStore(RECORDINGS_STORE).put(recording);
+
+  const request = sessions.get(recording.sessionId);
+  request.onsuccess = () => {
+    const session: WorkoutSession | undefined = request.result;
+    if (session) {
+      sessions.put({ ...session, hasRecording: true });
+    }
+  };
+
+  await transactionComplete(transaction);
+}
+
+/**
+ * Load the video recorded during a session, if there is one
+ */
+export async function getSessionRecording(sessionId: string): Promise<SessionRecording | undefined> {
+  const db = await openDatabase();
+  return requestResult(db.transaction(RECORDINGS_STORE).objectStore(RECORDINGS_STORE).get(sessionId));
+}
+
+/**
+ * Delete a session with all of its analysis results and its recording
+ */
+export async function deleteSession(sessionId: string): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction([SESSIONS_STORE, ENTRIES_STORE, RECORDINGS_STORE], 'readwrite');
+  const entries = transaction.objectStore(ENTRIES_STORE);
+
+  transaction.objectStore(SESSIONS_STORE).delete(sessionId);
+  transaction.objectStore(RECORDINGS_STORE).delete(sessionId);
+  const request = entries.index('sessionId').getAllKeys(sessionId);
+  request.onsuccess = () => {
+    request.result.forEach(key => entries.delete(key));
+  };
+
+  await transactionComplete(transaction);
+}
+
+/**
+ * Capture a small thumbnail of the current video frame as a JPEG data URL
+ */
+export function createThumbnail(video: HTMLVideoElement, width: number = THUMBNAIL_WIDTH): string | undefined {
+  if (!video.videoWidth || !video.videoHeight) {
+    return undefined;
+  }
+
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d');
+  if (!context) {
+    return undefined;
+  }
+
+  canvas.width = width;
+  canvas.height = Math.round((video.videoHeight / video.videoWidth) * width);
+  context.drawImage(video, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', 0.7);
+}
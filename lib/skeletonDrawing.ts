@@ -0,0 +1,189 @@
+/**
+ * Skeleton drawing for Coachly
+ * Draws keypoints, bones, joint angles and the bar path onto a canvas, highlighting joints involved in detected issues
+ */
+
+import { calculateAngle, determineSideProfile, ImageSize, KeypointData } from './techniqueAnalysis';
+import type { TechniqueIssue } from './techniqueIssues';
+import type { BoundingBox } from './poseProvider';
+import type { ImagePoint } from './lifterTracking';
+
+export interface SkeletonDrawingOptions {
+  imageSize: ImageSize; // Frame the keypoints were detected in
+  issues?: TechniqueIssue[]; // Joints named in these issues are drawn as faults
+  fit?: 'cover' | 'contain'; // How the frame is scaled into the canvas, matching the video's object-fit
+  mirrored?: boolean; // Flip horizontally to line up with a mirrored preview
+  minConfidence?: number;
+  otherPeople?: BoundingBox[]; // Detections that aren't the lifter, outlined so they can be tapped
+  barPath?: ImagePoint[]; // Recent bar positions, oldest first
+}
+
+type FrameFitOptions = Pick<SkeletonDrawingOptions, 'imageSize' | 'fit' | 'mirrored'>;
+
+// Pairs of keypoints joined by a bone
+export const SKELETON_CONNECTIONS: [string, string][] = [
+  ['left_ear', 'nose'],
+  ['nose', 'right_ear'],
+  ['left_shoulder', 'right_shoulder'],
+  ['left_shoulder', 'left_elbow'],
+  ['left_elbow', 'left_wrist'],
+  ['right_shoulder', 'right_elbow'],
+  ['right_elbow', 'right_wrist'],
+  ['left_shoulder', 'left_hip'],
+  ['right_shoulder', 'right_hip'],
+  ['left_hip', 'right_hip'],
+  ['left_hip', 'left_knee'],
+  ['left_knee', 'left_ankle'],
+  ['left_ankle', 'left_toe'],
+  ['right_hip', 'right_knee'],
+  ['right_knee', 'right_ankle'],
+  ['right_ankle', 'right_toe']
+];
+
+// Angles labelled on the visible side, measured at the middle joint
+const LABELLED_ANGLES: [string, string, string][] = [
+  ['ankle', 'knee', 'hip'],
+  ['knee', 'hip', 'shoulder'],
+  ['shoulder', 'elbow', 'wrist']
+];
+
+const COLORS = {
+  bone: 'rgba(255, 255, 255, 0.85)',
+  joint: '#6f29a4',
+  fault: '#ef4444',
+  label: '#ffffff',
+  labelBackground: 'rgba(0, 0, 0, 0.6)',
+  otherPerson: 'rgba(255, 255, 255, 0.6)',
+  barPath: '#facc15'
+};
+
+/**
+ * Scale and offset that fit the frame into an element, the same way CSS object-fit does
+ */
+function getFrameTransform(width: number, height: number, { imageSize, fit = 'cover' }: FrameFitOptions) {
+  const scale = fit === 'cover'
+    ? Math.max(width / imageSize.width, height / imageSize.height)
+    : Math.min(width / imageSize.width, height / imageSize.height);
+  return {
+    scale,
+    offsetX: (width - imageSize.width * scale) / 2,
+    offsetY: (height - imageSize.height * scale) / 2
+  };
+}
+
+/**
+ * Map a point on the displayed video, e.g. a tap, back to image pixels
+ */
+export function toImagePoint(
+  point: ImagePoint,
+  displaySize: { width: number; height: number },
+  options: FrameFitOptions
+): ImagePoint {
+  const { scale, offsetX, offsetY } = getFrameTransform(displaySize.width, displaySize.height, options);
+  const x = options.mirrored ? displaySize.width - point.x : point.x;
+  return { x: (x - offsetX) / scale, y: (point.y - offsetY) / scale };
+}
+
+/**
+ * Clear the canvas and draw a skeleton scaled to its current size
+ */
+export function drawSkeleton(
+  canvas: HTMLCanvasElement,
+  keypoints: KeypointData[],
+  options: SkeletonDrawingOptions
+): void {
+  const context = canvas.getContext('2d');
+  if (!context) {
+    return;
+  }
+  context.clearRect(0, 0, canvas.width, canvas.height);
+
+  const { imageSize, issues = [], mirrored = false, minConfidence = 0.3, otherPeople = [], barPath = [] } = options;
+  if (!imageSize.width || !imageSize.height) {
+    return;
+  }
+
+  // Same scaling as CSS object-fit, so points land on the video underneath
+  const { scale, offsetX, offsetY } = getFrameTransform(canvas.width, canvas.height, options);
+  const toCanvas = (point: ImagePoint) => {
+    const x = offsetX + point.x * scale;
+    return { x: mirrored ? canvas.width - x : x, y: offsetY + point.y * scale };
+  };
+
+  const visible = new Map(
+    keypoints.filter(kp => kp.confidence >= minConfidence).map(kp => [kp.class, kp])
+  );
+  const faultJoints = new Set(issues.flatMap(issue => issue.joints));
+  // Size strokes relative to the canvas so the skeleton reads the same at any resolution
+  const unit = Math.max(2, Math.min(canvas.width, canvas.height) / 160);
+
+  context.lineWidth = unit / 2;
+  context.strokeStyle = COLORS.otherPerson;
+  context.setLineDash([unit * 3, unit * 2]);
+  for (const box of otherPeople) {
+    const corner = toCanvas({ x: box.x - box.width / 2, y: box.y - box.height / 2 });
+    const opposite = toCanvas({ x: box.x + box.width / 2, y: box.y + box.height / 2 });
+    context.strokeRect(corner.x, corner.y, opposite.x - corner.x, opposite.y - corner.y);
+  }
+  context.setLineDash([]);
+
+  context.lineCap = 'round';
+  context.lineWidth = unit;
+  for (const [from, to] of SKELETON_CONNECTIONS) {
+    const a = visible.get(from);
+    const b = visible.get(to);
+    if (!a || !b) {
+      continue;
+    }
+    const start = toCanvas(a);
+    const end = toCanvas(b);
+    context.strokeStyle = faultJoints.has(from) && faultJoints.has(to) ? COLORS.fault : COLORS.bone;
+    context.beginPath();
+    context.moveTo(start.x, start.y);
+    context.lineTo(end.x, end.y);
+    context.stroke();
+  }
+
+  for (const kp of visible.values()) {
+    const { x, y } = toCanvas(kp);
+    const isFault = faultJoints.has(kp.class);
+    context.fillStyle = isFault ? COLORS.fault : COLORS.joint;
+    context.beginPath();
+    context.arc(x, y, unit * (isFault ? 2.5 : 1.75), 0, Math.PI * 2);
+    context.fill();
+  }
+
+  if (barPath.length > 0) {
+    const points = barPath.map(toCanvas);
+    context.strokeStyle = COLORS.barPath;
+    context.lineJoin = 'round';
+    context.beginPath();
+    points.forEach(({ x, y }, index) => (index === 0 ? context.moveTo(x, y) : context.lineTo(x, y)));
+    context.stroke();
+
+    const latest = points[points.length - 1];
+    context.fillStyle = COLORS.barPath;
+    context.beginPath();
+    context.arc(latest.x, latest.y, unit * 2.5, 0, Math.PI * 2);
+    context.fill();
+  }
+
+  const side = determineSideProfile(keypoints) === 'left' ? 'left' : 'right';
+  context.font = `${Math.round(unit * 6)}px sans-serif`;
+  context.textBaseline = 'middle';
+  for (const joints of LABELLED_ANGLES) {
+    const [a, b, c] = joints.map(joint => visible.get(`${side}_${joint}`));
+    if (!a || !b || !c) {
+      continue;
+    }
+    const label = `${Math.round(calculateAngle(a, b, c))}°`;
+    const { x, y } = toCanvas(b);
+    const labelX = x + unit * 4;
+    const width = context.measureText(label).width;
+
+    context.fillStyle = COLORS.labelBackground;
+    context.fillRect(labelX - unit, y - unit * 4, width + unit * 2, unit * 8);
+    context.fillStyle = faultJoints.has(b.class) ? COLORS.fault : COLORS.label;
+    context.fillText(label, labelX, y);
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * Left/right symmetry analysis for Coachly
+ * With the camera facing the lifter both sides of the body are visible, so form is judged by comparing them:
+ * knees caving in, hips shifting to one side, and one shoulder or hand sitting lower than the other
+ */
+
+import type { ExerciseDefinition, SymmetryCheck } from './exerciseDefinitions';
+import type { CameraView, KeypointData } from './techniqueAnalysis';
+import { IssueUnit, severityForPenalty, TechniqueIssue } from './techniqueIssues';
+
+// Keypoints below this confidence aren't compared
+const MIN_CONFIDENCE = 0.5;
+
+// Feet closer than this (in torso lengths) are too narrow to judge the knees against
+const MIN_STANCE_WIDTH = 0.2;
+
+const METRIC_UNITS: Record<SymmetryCheck['metric'], IssueUnit> = {
+  knee_valgus: 'ratio',
+  hip_shift: 'torso_lengths',
+  shoulder_tilt: 'torso_lengths',
+  wrist_tilt: 'torso_lengths'
+};
+
+// What each metric looks for, in camera guidance
+const METRIC_LABELS: Record<SymmetryCheck['metric'], string> = {
+  knee_valgus: 'knees caving in',
+  hip_shift: 'hip shift',
+  shoulder_tilt: 'uneven shoulders',
+  wrist_tilt: 'an uneven bar'
+};
+
+/**
+ * Measure a symmetry metric on keypoints in torso units, with the keypoints it was measured on
+ * Returns null when either side isn't visible
+ */
+export function measureSymmetry(
+  metric: SymmetryCheck['metric'],
+  keypoints: KeypointData[]
+): { value: number; joints: string[] } | null {
+  const pair = (joint: string): [KeypointData, KeypointData] | null => {
+    const left = keypoints.find(kp => kp.class === `left_${joint}` && kp.confidence >= MIN_CONFIDENCE);
+    const right = keypoints.find(kp => kp.class === `right_${joint}` && kp.confidence >= MIN_CONFIDENCE);
+    return left && right ? [left, right] : null;
+  };
+  const joints = (...pairs: [KeypointData, KeypointData][]) => pairs.flat().map(kp => kp.class);
+
+  switch (metric) {
+    case 'knee_valgus': {
+      const knees = pair('knee');
+      const ankles = pair('ankle');
+      if (!knees || !ankles) {
+        return null;
+      }
+      const stance = Math.abs(ankles[0].x - ankles[1].x);
+      if (stance < MIN_STANCE_WIDTH) {
+        return null;
+      }
+      return { value: 1 - Math.abs(knees[0].x - knees[1].x) / stance, joints: joints(knees, ankles) };
+    }
+    case 'hip_shift': {
+      const hips = pair('hip');
+      const ankles = pair('ankle');
+      if (!hips || !ankles) {
+        return null;
+      }
+      const shift = (hips[0].x + hips[1].x) / 2 - (ankles[0].x + ankles[1].x) / 2;
+      return { value: Math.abs(shift), joints: joints(hips, ankles) };
+    }
+    case 'shoulder_tilt':
+    case 'wrist_tilt': {
+      const sides = pair(metric === 'shoulder_tilt' ? 'shoulder' : 'wrist');
+      return sides ? { value: Math.abs(sides[0].y - sides[1].y), joints: joints(sides) } : null;
+    }
+  }
+}
+
+/**
+ * Run an exercise's symmetry checks against keypoints in torso units, returning the issues and what they cost
+ * Checks whose joints aren't visible on both sides are skipped
+ */
+export function checkSymmetry(
+  definition: ExerciseDefinition,
+  keypoints: KeypointData[]
+): { issues: TechniqueIssue[]; penalty: number } {
+  const issues: TechniqueIssue[] = [];
+  let penalty = 0;
+
+  for (const check of definition.symmetry ?? []) {
+    const measurement = measureSymmetry(check.metric, keypoints);
+    if (measurement && measurement.value > check.threshold) {
+      issues.push({
+        code: `${definition.id}.${check.id}`,
+        severity: severityForPenalty(check.penalty),
+        joints: measurement.joints,
+        measured: measurement.value,
+        threshold: check.threshold,
+        unit: METRIC_UNITS[check.metric],
+        cue: check.cue,
+        message: check.message
+      });
+      penalty += check.penalty;
+    }
+  }
+
+  return { issues, penalty };
+}
+
+/**
+ * Which camera angle the exercise's checks need, given the angle the lifter is currently filmed from
+ */
+export function getCameraGuidance(definition: ExerciseDefinition, view: CameraView): string {
+  const labels = [...new Set((definition.symmetry ?? []).map(check => METRIC_LABELS[check.metric]))];
+  if (labels.length === 0) {
+    return view === 'side'
+      ? "Side view: all checks for this exercise are running"
+      : "Turn side-on to the camera, this exercise is checked from the side";
+  }
+
+  const symmetry = labels.length > 1 ? `${labels.slice(0, -1).join(', ')} and ${labels[labels.length - 1]}` : labels[0];
+  // Lying lifts are filmed from the feet to see both sides
+  const frontOn = definition.posture === 'lying' ? "film from your feet" : "face the camera";
+  switch (view) {
+    case 'side':
+      return `Side view: checking angles and depth. To check for ${symmetry}, ${frontOn}`;
+    case 'front':
+      return `Front view: checking for ${symmetry}. Turn side-on to check angles and depth`;
+    case 'unknown':
+      return `Turn side-on to check angles and depth, or ${frontOn} to check for ${symmetry}`;
+  }
+}
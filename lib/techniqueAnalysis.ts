@@ -1,8 +1,16 @@
 /**
  * Exercise Technique Analysis for Coachly
- * Analyzes gym exercise form (squat, bench press, deadlift) based on pose keypoints
+ * Analyzes gym exercise form based on pose keypoints, using the rules in each exercise's definition
+ *
+ * Distances are measured in torso lengths (shoulder to hip) rather than pixels,
+ * so results don't depend on camera resolution, distance, or the lifter's height
  */
 
+import type { ExerciseDefinition, ExerciseId, ExerciseRule, JointName, RuleMetric } from './exerciseDefinitions';
+import { getExerciseDefinition } from './exerciseRegistry';
+import { GENERAL_ISSUE_CODES, IssueUnit, severityForPenalty, TechniqueIssue } from './techniqueIssues';
+import { checkSymmetry } from './symmetryAnalysis';
+
 export interface KeypointData {
   class: string;
   confidence: number;
@@ -10,10 +18,45 @@ export interface KeypointData {
   y: number;
 }
 
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+export type MovementPhase = 'setup' | 'descent' | 'bottom' | 'ascent' | 'lockout';
+
+// Direction the lifter faces in image coordinates (head direction when lying on a bench)
+export type FacingDirection = 'left' | 'right' | 'unknown';
+
+// Angle the camera sees the lifter from: side-on for the rules, facing them for left/right symmetry
+export type CameraView = 'side' | 'front' | 'unknown';
+
 export interface TechniqueAnalysisResult {
   score: number;
-  issues: string[];
+  issues: TechniqueIssue[];
   sideProfile: 'left' | 'right' | 'unknown';
+  facing: FacingDirection;
+  view: CameraView;
+  phase?: MovementPhase; // Phase the checks were run for, undefined if it couldn't be determined
+}
+
+// Typical body proportions, used to estimate torso length when the torso itself isn't visible
+const FEMUR_TO_TORSO = 1.2;
+const UPPER_ARM_TO_TORSO = 1.6;
+const TORSO_TO_IMAGE_HEIGHT = 0.3; // A full-body shot, which every exercise needs
+const DEFAULT_TORSO_PX = 180; // Torso of a lifter filling a 720p frame
+
+// Shoulder width in torso lengths is around 0.8 facing the camera and close to 0 side-on
+const FRONT_VIEW_WIDTH = 0.5;
+const SIDE_VIEW_WIDTH = 0.3;
+
+// Shortest vertical span, in torso lengths, a height ratio is measured against. Anything shorter means the
+// keypoints have collapsed onto each other and the ratio would be meaningless or infinite
+const MIN_RATIO_SPAN = 0.05;
+
+export interface TechniqueAnalysisOptions {
+  phase?: MovementPhase; // Movement phase of this frame, inferred from joint angles when omitted
+  imageSize?: ImageSize; // Frame dimensions, used to estimate body scale when the torso isn't visible
 }
 
 /**
@@ -21,49 +64,170 @@ export interface TechniqueAnalysisResult {
  */
 export function analyzeTechnique(
   keypoints: KeypointData[],
-  exerciseType?: 'squat' | 'bench' | 'deadlift'
+  exerciseType?: ExerciseId,
+  options: TechniqueAnalysisOptions = {}
 ): TechniqueAnalysisResult {
-  const issues: string[] = [];
+  const issues: TechniqueIssue[] = [];
   let score = 1.0;
 
+  const definition = exerciseType ? getExerciseDefinition(exerciseType) : undefined;
+
   // Determine which side profile we're seeing based on keypoint confidence
   const sideProfile = determineSideProfile(keypoints);
+
+  // Directional checks are oriented by which way the lifter faces, and skipped when that's unclear
+  const facing = determineFacingDirection(keypoints, definition?.posture, options.imageSize);
+  const forward = facing === 'right' ? 1 : facing === 'left' ? -1 : 0;
+
+  // Side-on rules measure angles that a front-on camera can't see, so it checks left/right symmetry instead
+  const view = determineCameraView(keypoints, options.imageSize);
+
+  // Only the checks that apply to the current phase are run
+  const movementPhase = options.phase ?? (definition ? inferMovementPhase(keypoints, definition) : undefined);
+
+  // Express positions in torso lengths so thresholds hold at any distance
+  const normalizedKeypoints = normalizeKeypoints(keypoints, getBodyScale(keypoints, options.imageSize));
   
   // Check for low confidence keypoints
   const lowConfidenceThreshold = 0.5;
   const lowConfidenceKeypoints = keypoints.filter(kp => kp.confidence < lowConfidenceThreshold);
   
   if (lowConfidenceKeypoints.length > 3) {
-    issues.push("Some body parts are not clearly visible");
+    issues.push({
+      code: GENERAL_ISSUE_CODES.lowVisibility,
+      severity: 'warning',
+      joints: lowConfidenceKeypoints.map(kp => kp.class),
+      message: "Some body parts are not clearly visible"
+    });
     score -= 0.2;
   }
 
   // Exercise-specific technique analysis
-  if (exerciseType === 'squat') {
-    const squatAnalysis = analyzeSquatTechnique(keypoints, sideProfile);
-    issues.push(...squatAnalysis.issues);
-    score *= squatAnalysis.scoreMultiplier;
-  } else if (exerciseType === 'deadlift') {
-    const deadliftAnalysis = analyzeDeadliftTechnique(keypoints, sideProfile);
-    issues.push(...deadliftAnalysis.issues);
-    score *= deadliftAnalysis.scoreMultiplier;
-  } else if (exerciseType === 'bench') {
-    const benchAnalysis = analyzeBenchTechnique(keypoints, sideProfile);
-    issues.push(...benchAnalysis.issues);
-    score *= benchAnalysis.scoreMultiplier;
+  if (definition?.symmetry?.length && view === 'front') {
+    const symmetry = checkSymmetry(definition, normalizedKeypoints);
+    issues.push(...symmetry.issues);
+    score *= Math.max(0.1, 1 - symmetry.penalty);
+  } else if (definition) {
+    const exerciseAnalysis = evaluateExerciseRules(definition, normalizedKeypoints, sideProfile, movementPhase, forward);
+    issues.push(...exerciseAnalysis.issues);
+    score *= exerciseAnalysis.scoreMultiplier;
   }
 
   return { 
     score: Math.max(0, score), 
     issues,
-    sideProfile
+    sideProfile,
+    facing,
+    view,
+    phase: movementPhase
   };
 }
 
+/**
+ * Estimate the lifter's torso length in pixels
+ * Falls back to other limbs, then the frame size, when the torso isn't visible
+ */
+export function getBodyScale(keypoints: KeypointData[], imageSize?: ImageSize): number {
+  const segmentLength = (from: string, to: string): number | null => {
+    const lengths = ['left', 'right'].flatMap(side => {
+      const a = keypoints.find(kp => kp.class === `${side}_${from}`);
+      const b = keypoints.find(kp => kp.class === `${side}_${to}`);
+      if (!a || !b || a.confidence < 0.5 || b.confidence < 0.5) {
+        return [];
+      }
+      return [Math.hypot(a.x - b.x, a.y - b.y)];
+    });
+    // The longer side is the one least foreshortened by rotation
+    return lengths.length > 0 ? Math.max(...lengths) : null;
+  };
+
+  const torso = segmentLength('shoulder', 'hip');
+  if (torso) {
+    return torso;
+  }
+  const femur = segmentLength('hip', 'knee');
+  if (femur) {
+    return femur * FEMUR_TO_TORSO;
+  }
+  const upperArm = segmentLength('shoulder', 'elbow');
+  if (upperArm) {
+    return upperArm * UPPER_ARM_TO_TORSO;
+  }
+  if (imageSize) {
+    return imageSize.height * TORSO_TO_IMAGE_HEIGHT;
+  }
+  return DEFAULT_TORSO_PX;
+}
+
+/**
+ * Scale keypoint coordinates into body units (1 = one torso length)
+ */
+export function normalizeKeypoints(keypoints: KeypointData[], bodyScale: number): KeypointData[] {
+  return keypoints.map(kp => ({ ...kp, x: kp.x / bodyScale, y: kp.y / bodyScale }));
+}
+
+/**
+ * Measure the primary joint angle for an exercise on the most visible side
+ * Returns null when the joints aren't reliably visible
+ */
+export function getPrimaryJointAngle(keypoints: KeypointData[], definition: ExerciseDefinition): number | null {
+  const joints = definition.angles[definition.primaryAngle.angle];
+  if (!joints) {
+    return null;
+  }
+
+  const points = joints.map(joint => findJoint(keypoints, joint, determineSideProfile(keypoints)));
+  if (points.some(point => !point)) {
+    return null;
+  }
+
+  const [p1, p2, p3] = points as KeypointData[];
+  return calculateAngle(p1, p2, p3);
+}
+
+/**
+ * Infer the movement phase of a single frame from the primary joint angle
+ * A still frame can't tell lowering from rising, so mid-range is treated as the
+ * descent (or the lift itself, for exercises that start from the bottom)
+ */
+export function inferMovementPhase(keypoints: KeypointData[], definition: ExerciseDefinition): MovementPhase | undefined {
+  const angle = getPrimaryJointAngle(keypoints, definition);
+  if (angle === null) {
+    return undefined;
+  }
+
+  const { lockoutAngle, bottomAngle, bottomIsSetup } = definition.primaryAngle;
+  if (angle >= lockoutAngle) {
+    return 'lockout';
+  }
+  if (angle <= bottomAngle) {
+    return bottomIsSetup ? 'setup' : 'bottom';
+  }
+  return bottomIsSetup ? 'ascent' : 'descent';
+}
+
+/**
+ * Whether a check tagged with `phases` should run in the given phase
+ * Every check runs when the phase is unknown
+ */
+function appliesInPhase(phase: MovementPhase | undefined, phases: MovementPhase[]): boolean {
+  return phase === undefined || phases.includes(phase);
+}
+
+/**
+ * Find a joint on the visible side (the nose has no side), ignoring low-confidence keypoints
+ */
+function findJoint(keypoints: KeypointData[], joint: JointName, sideProfile: string): KeypointData | undefined {
+  const side = sideProfile === 'left' ? 'left' : 'right';
+  const name = joint === 'nose' ? 'nose' : `${side}_${joint}`;
+  const keypoint = keypoints.find(kp => kp.class === name);
+  return keypoint && keypoint.confidence >= 0.5 ? keypoint : undefined;
+}
+
 /**
  * Determine which side profile we're seeing based on keypoint confidence
  */
-function determineSideProfile(keypoints: KeypointData[]): 'left' | 'right' | 'unknown' {
+export function determineSideProfile(keypoints: KeypointData[]): 'left' | 'right' | 'unknown' {
   const leftSideKeypoints = keypoints.filter(kp => kp.class.startsWith('left_'));
   const rightSideKeypoints = keypoints.filter(kp => kp.class.startsWith('right_'));
   
@@ -80,10 +244,84 @@ function determineSideProfile(keypoints: KeypointData[]): 'left' | 'right' | 'un
   return 'unknown';
 }
 
+/**
+ * Determine whether the camera sees the lifter side-on or from the front, from how far apart
+ * the left and right shoulders (or hips) appear relative to torso length
+ */
+export function determineCameraView(keypoints: KeypointData[], imageSize?: ImageSize): CameraView {
+  const widths = ['shoulder', 'hip'].flatMap(joint => {
+    const left = keypoints.find(kp => kp.class === `left_${joint}` && kp.confidence >= 0.5);
+    const right = keypoints.find(kp => kp.class === `right_${joint}` && kp.confidence >= 0.5);
+    return left && right ? [Math.hypot(left.x - right.x, left.y - right.y)] : [];
+  });
+  if (widths.length === 0) {
+    // Only one side is visible, which only happens side-on
+    return determineSideProfile(keypoints) === 'unknown' ? 'unknown' : 'side';
+  }
+
+  const width = Math.max(...widths) / getBodyScale(keypoints, imageSize);
+  if (width >= FRONT_VIEW_WIDTH) {
+    return 'front';
+  }
+  return width <= SIDE_VIEW_WIDTH ? 'side' : 'unknown';
+}
+
+/**
+ * Determine which way the lifter is facing from body geometry
+ * Standing lifts use the nose relative to the ears and shoulders, toes relative to ankles,
+ * and bent knees relative to the hip-ankle line. Lying down (e.g. on a bench) it's the direction of the head.
+ */
+export function determineFacingDirection(
+  keypoints: KeypointData[],
+  posture: 'standing' | 'lying' = 'standing',
+  imageSize?: ImageSize
+): FacingDirection {
+  const normalized = normalizeKeypoints(keypoints, getBodyScale(keypoints, imageSize));
+  const visible = (name: string) => normalized.find(kp => kp.class === name && kp.confidence >= 0.5);
+  const midpointX = (names: string[]): number | null => {
+    const points = names.map(visible).filter((kp): kp is KeypointData => !!kp);
+    return points.length > 0 ? points.reduce((sum, kp) => sum + kp.x, 0) / points.length : null;
+  };
+
+  // Each cue adds a weighted horizontal offset (in torso lengths) that points the way the lifter faces
+  let evidence = 0;
+  const addCue = (from: number | null, to: number | null, weight: number) => {
+    if (from !== null && to !== null) {
+      evidence += (to - from) * weight;
+    }
+  };
+
+  const nose = visible('nose')?.x ?? null;
+  const shoulders = midpointX(['left_shoulder', 'right_shoulder']);
+
+  if (posture === 'lying') {
+    addCue(midpointX(['left_hip', 'right_hip']), shoulders, 1);
+    addCue(shoulders, nose, 1);
+  } else {
+    addCue(midpointX(['left_ear', 'right_ear']), nose, 3);
+    addCue(shoulders, nose, 1);
+    for (const side of ['left', 'right']) {
+      addCue(visible(`${side}_ankle`)?.x ?? null, visible(`${side}_toe`)?.x ?? null, 2);
+
+      const hip = visible(`${side}_hip`);
+      const knee = visible(`${side}_knee`);
+      const ankle = visible(`${side}_ankle`);
+      if (hip && knee && ankle && calculateAngle(hip, knee, ankle) < 160) {
+        addCue((hip.x + ankle.x) / 2, knee.x, 1);
+      }
+    }
+  }
+
+  if (Math.abs(evidence) < 0.1) {
+    return 'unknown';
+  }
+  return evidence > 0 ? 'right' : 'left';
+}
+
 /**
  * Calculate angle between three points
  */
-function calculateAngle(p1: {x: number, y: number}, p2: {x: number, y: number}, p3: {x: number, y: number}): number {
+export function calculateAngle(p1: {x: number, y: number}, p2: {x: number, y: number}, p3: {x: number, y: number}): number {
   const v1 = { x: p1.x - p2.x, y: p1.y - p2.y };
   const v2 = { x: p3.x - p2.x, y: p3.y - p2.y };
   
@@ -96,260 +334,152 @@ function calculateAngle(p1: {x: number, y: number}, p2: {x: number, y: number},
 }
 
 /**
- * Analyze squat technique based on side profile keypoints
+ * Run an exercise's rules against keypoints in torso units
  */
-function analyzeSquatTechnique(keypoints: KeypointData[], sideProfile: string): {issues: string[], scoreMultiplier: number} {
-  const issues: string[] = [];
+function evaluateExerciseRules(
+  definition: ExerciseDefinition,
+  keypoints: KeypointData[],
+  sideProfile: string,
+  phase: MovementPhase | undefined,
+  forward: number
+): {issues: TechniqueIssue[], scoreMultiplier: number} {
+  const issues: TechniqueIssue[] = [];
   let scoreMultiplier = 1.0;
-  
-  // Get keypoints for the visible side
-  const side = sideProfile === 'left' ? 'left' : 'right';
-  const ankle = keypoints.find(kp => kp.class === `${side}_ankle`);
-  const knee = keypoints.find(kp => kp.class === `${side}_knee`);
-  const hip = keypoints.find(kp => kp.class === `${side}_hip`);
-  const shoulder = keypoints.find(kp => kp.class === `${side}_shoulder`);
-  const nose = keypoints.find(kp => kp.class === 'nose');
-  
-  if (!ankle || !knee || !hip || !shoulder || ankle.confidence < 0.5 || knee.confidence < 0.5 || hip.confidence < 0.5 || shoulder.confidence < 0.5) {
-    issues.push("Cannot analyze squat form - key body parts not visible");
+
+  const hiddenJoints = definition.analysisJoints.filter(joint => !findJoint(keypoints, joint, sideProfile));
+  if (hiddenJoints.length > 0) {
+    const side = sideProfile === 'left' ? 'left' : 'right';
+    issues.push({
+      code: `${definition.id}.not_analyzable`,
+      severity: 'critical',
+      joints: hiddenJoints.map(joint => (joint === 'nose' ? 'nose' : `${side}_${joint}`)),
+      cue: "Step into the frame",
+      message: definition.unanalyzableMessage
+    });
     return { issues, scoreMultiplier: 0.3 };
   }
-  
-  // 1. Check for heel lifting (ankles): knee should be roughly above ankle
-  const kneeAnkleDistance = Math.abs(knee.x - ankle.x);
-  if (kneeAnkleDistance > 60) { // Significant forward lean indicates heels lifting
-    issues.push("Weight may be shifting to toes - focus on keeping heels down");
-    scoreMultiplier -= 0.25;
-  }
-  
-  // 2. Check knees shooting too far forward: knee should not be significantly forward of ankle
-  if (knee.x > ankle.x + 80) {
-    issues.push("Knees are tracking too far forward - sit back more into the squat");
-    scoreMultiplier -= 0.2;
-  }
-  
-  // 3. Check for "good morning" squat: hips rising faster than chest
-  // Calculate hip-shoulder angle relative to vertical
-  const hipShoulderAngle = calculateAngle(
-    { x: hip.x, y: hip.y - 100 }, // Point above hip (vertical reference)
-    hip,
-    shoulder
-  );
-  
-  if (hipShoulderAngle > 45) {
-    issues.push("Chest is collapsing forward - keep your torso more upright");
-    scoreMultiplier -= 0.3;
-  }
-  
-  // 4. Check knee angle for depth and tracking
-  const kneeAngle = calculateAngle(ankle, knee, hip);
-  if (kneeAngle > 140) {
-    issues.push("Try to squat deeper - aim for thighs parallel to the ground");
-    scoreMultiplier -= 0.1;
-  }
-  
-  // 5. Check for excessive butt wink (hip angle too acute)
-  const hipAngle = calculateAngle(knee, hip, shoulder);
-  if (hipAngle < 70) {
-    issues.push("Excessive hip flexion detected - avoid excessive 'butt wink'");
-    scoreMultiplier -= 0.15;
-  }
-  
-  // 6. Check head/neck position
-  if (nose) {
-    const headTilt = Math.abs(nose.y - shoulder.y);
-    if (headTilt > 100) {
-      issues.push("Maintain neutral head position - avoid looking too far up or down");
-      scoreMultiplier -= 0.1;
+
+  for (const rule of definition.rules) {
+    if (!appliesInPhase(phase, rule.phases)) {
+      continue;
+    }
+
+    // Rules whose joints aren't visible, or that need an unknown facing direction, are skipped
+    const measurement = measureRuleMetric(rule.metric, definition, keypoints, sideProfile, forward);
+    if (measurement && ruleFires(rule, measurement.value)) {
+      issues.push({
+        code: `${definition.id}.${rule.id}`,
+        severity: severityForPenalty(rule.penalty),
+        joints: measurement.joints,
+        measured: measurement.value,
+        threshold: rule.threshold,
+        unit: METRIC_UNITS[rule.metric.kind],
+        cue: rule.cue,
+        message: rule.message
+      });
+      scoreMultiplier -= rule.penalty;
     }
   }
-  
+
   return { issues, scoreMultiplier: Math.max(0.1, scoreMultiplier) };
 }
 
+const METRIC_UNITS: Record<RuleMetric['kind'], IssueUnit> = {
+  angle: 'degrees',
+  vertical_angle: 'degrees',
+  forward_lean: 'degrees',
+  horizontal_distance: 'torso_lengths',
+  forward_offset: 'torso_lengths',
+  vertical_offset: 'torso_lengths',
+  vertical_distance: 'torso_lengths',
+  vertical_ratio: 'ratio'
+};
+
+function ruleFires(rule: ExerciseRule, value: number): boolean {
+  return rule.comparison === 'above' ? value > rule.threshold : value < rule.threshold;
+}
+
 /**
- * Analyze deadlift technique based on side profile keypoints
+ * Measure a rule's metric and the keypoints it was measured on, or null when it can't be measured in this frame
  */
-function analyzeDeadliftTechnique(keypoints: KeypointData[], sideProfile: string): {issues: string[], scoreMultiplier: number} {
-  const issues: string[] = [];
-  let scoreMultiplier = 1.0;
-  
-  const side = sideProfile === 'left' ? 'left' : 'right';
-  const ankle = keypoints.find(kp => kp.class === `${side}_ankle`);
-  const knee = keypoints.find(kp => kp.class === `${side}_knee`);
-  const hip = keypoints.find(kp => kp.class === `${side}_hip`);
-  const shoulder = keypoints.find(kp => kp.class === `${side}_shoulder`);
-  const nose = keypoints.find(kp => kp.class === 'nose');
-  
-  if (!ankle || !knee || !hip || !shoulder || ankle.confidence < 0.5 || knee.confidence < 0.5 || hip.confidence < 0.5 || shoulder.confidence < 0.5) {
-    issues.push("Cannot analyze deadlift form - key body parts not visible");
-    return { issues, scoreMultiplier: 0.3 };
-  }
-  
-  // 1. Check bar position relative to shins (simulate bar at ankle level)
-  // Bar should start close to shins - shoulder should be over or slightly in front of bar
-  if (shoulder.x < ankle.x - 30) {
-    issues.push("Bar appears too far from your body - keep it close to your shins");
-    scoreMultiplier -= 0.3;
-  }
-  
-  // 2. Check hip height at start position
-  const hipKneeRatio = (hip.y - knee.y) / (knee.y - ankle.y);
-  if (hipKneeRatio > 2.5) {
-    issues.push("Hips may be too high - lower them to engage your legs more");
-    scoreMultiplier -= 0.2;
-  }
-  if (hipKneeRatio < 0.8) {
-    issues.push("Hips may be too low - this isn't a squat, raise them slightly");
-    scoreMultiplier -= 0.2;
-  }
-  
-  // 3. Check spine alignment (shoulder to hip line)
-  const spineAngle = calculateAngle(
-    { x: shoulder.x, y: shoulder.y - 100 }, // Vertical reference
-    shoulder,
-    hip
-  );
-  
-  if (spineAngle > 60) {
-    issues.push("Spine appears rounded - keep your chest up and shoulders back");
-    scoreMultiplier -= 0.4;
-  }
-  
-  // 4. Check knee tracking (knees shouldn't cave in or lock too early)
-  const kneeAngle = calculateAngle(ankle, knee, hip);
-  if (kneeAngle > 160) {
-    issues.push("Knees appear locked - maintain slight bend to engage leg muscles");
-    scoreMultiplier -= 0.15;
-  }
-  
-  // 5. Check head position
-  if (nose) {
-    const neckAngle = calculateAngle(shoulder, nose, { x: nose.x, y: nose.y - 50 });
-    if (neckAngle > 45) {
-      issues.push("Avoid looking up excessively - maintain neutral neck position");
-      scoreMultiplier -= 0.1;
+function measureRuleMetric(
+  metric: RuleMetric,
+  definition: ExerciseDefinition,
+  keypoints: KeypointData[],
+  sideProfile: string,
+  forward: number
+): { value: number; joints: string[] } | null {
+  const find = (joint: JointName) => findJoint(keypoints, joint, sideProfile);
+  const measured = (value: number | null, points: KeypointData[]) =>
+    value === null ? null : { value, joints: points.map(point => point.class) };
+
+  switch (metric.kind) {
+    case 'angle': {
+      const joints = definition.angles[metric.angle];
+      const points = joints ? joints.map(find) : [];
+      if (points.length !== 3 || points.some(point => !point)) {
+        return null;
+      }
+      const [p1, p2, p3] = points as KeypointData[];
+      return measured(calculateAngle(p1, p2, p3), [p1, p2, p3]);
     }
-    if (neckAngle < 15) {
-      issues.push("Avoid looking down - keep your head in neutral position");
-      scoreMultiplier -= 0.1;
+    case 'vertical_ratio': {
+      const points = metric.joints.map(find);
+      if (points.some(point => !point)) {
+        return null;
+      }
+      const [a, b, c] = points as KeypointData[];
+      if (Math.abs(b.y - c.y) < MIN_RATIO_SPAN) {
+        return null;
+      }
+      return measured((a.y - b.y) / (b.y - c.y), [a, b, c]);
     }
   }
-  
-  return { issues, scoreMultiplier: Math.max(0.1, scoreMultiplier) };
-}
 
-/**
- * Analyze bench press technique based on side profile keypoints
- */
-function analyzeBenchTechnique(keypoints: KeypointData[], sideProfile: string): {issues: string[], scoreMultiplier: number} {
-  const issues: string[] = [];
-  let scoreMultiplier = 1.0;
-  
-  const side = sideProfile === 'left' ? 'left' : 'right';
-  const shoulder = keypoints.find(kp => kp.class === `${side}_shoulder`);
-  const elbow = keypoints.find(kp => kp.class === `${side}_elbow`);
-  const wrist = keypoints.find(kp => kp.class === `${side}_wrist`);
-  const hip = keypoints.find(kp => kp.class === `${side}_hip`);
-  const nose = keypoints.find(kp => kp.class === 'nose');
-  
-  if (!shoulder || !elbow || !wrist || shoulder.confidence < 0.5 || elbow.confidence < 0.5 || wrist.confidence < 0.5) {
-    issues.push("Cannot analyze bench form - arm positions not clearly visible");
-    return { issues, scoreMultiplier: 0.3 };
-  }
-  
-  // 1. Check shoulder position (should be retracted, not shrugged up)
-  if (hip && shoulder.y < hip.y - 150) {
-    issues.push("Shoulders may be shrugged up - retract and depress shoulder blades");
-    scoreMultiplier -= 0.2;
-  }
-  
-  // 2. Check elbow position relative to shoulder
-  const elbowShoulderAngle = calculateAngle(wrist, elbow, shoulder);
-  if (elbowShoulderAngle > 100) {
-    issues.push("Elbows flared too wide - bring them closer to your body");
-    scoreMultiplier -= 0.25;
-  }
-  if (elbowShoulderAngle < 45) {
-    issues.push("Elbows tucked too tight - allow for slight flare");
-    scoreMultiplier -= 0.15;
-  }
-  
-  // 3. Check wrist alignment (should be stacked over forearm)
-  const wristElbowAlignment = Math.abs(wrist.x - elbow.x);
-  if (wristElbowAlignment > 40) {
-    issues.push("Wrist alignment could be improved - keep wrists straight and stacked");
-    scoreMultiplier -= 0.2;
+  const from = find(metric.from);
+  const to = find(metric.to);
+  if (!from || !to) {
+    return null;
   }
-  
-  // 4. Check bar path (wrist should move in slight arc, not straight down over face)
-  // In side view, bar should descend toward lower chest area
-  if (wrist.x < shoulder.x - 50) {
-    issues.push("Bar path may be too far toward your face - aim for lower chest");
-    scoreMultiplier -= 0.3;
-  }
-  
-  // 5. Check for excessive arch or flat back
-  if (hip && shoulder) {
-    const backArch = Math.abs(shoulder.x - hip.x);
-    if (backArch > 80) {
-      issues.push("Excessive back arch detected - maintain moderate natural arch");
-      scoreMultiplier -= 0.15;
-    }
-  }
-  
-  // 6. Check head position
-  if (nose && shoulder) {
-    const headPosition = nose.y - shoulder.y;
-    if (headPosition > 50) {
-      issues.push("Keep your head on the bench - avoid lifting it during the press");
-      scoreMultiplier -= 0.1;
+
+  switch (metric.kind) {
+    case 'vertical_angle':
+      return measured(calculateAngle({ x: from.x, y: from.y - 1 }, from, to), [from, to]);
+    case 'forward_lean': {
+      // Image y grows downwards
+      const lean = (Math.atan2((to.x - from.x) * forward, from.y - to.y) * 180) / Math.PI;
+      return measured(forward === 0 ? null : lean, [from, to]);
     }
+    case 'horizontal_distance':
+      return measured(Math.abs(to.x - from.x), [from, to]);
+    case 'forward_offset':
+      return measured(forward === 0 ? null : (to.x - from.x) * forward, [from, to]);
+    case 'vertical_offset':
+      // Image y grows downwards
+      return measured(from.y - to.y, [from, to]);
+    case 'vertical_distance':
+      return measured(Math.abs(to.y - from.y), [from, to]);
   }
-  
-  return { issues, scoreMultiplier: Math.max(0.1, scoreMultiplier) };
 }
 
 /**
  * Get exercise-specific feedback based on posture analysis
  */
-export function getExerciseSpecificFeedback(exerciseType: 'squat' | 'bench' | 'deadlift', analysisResult: TechniqueAnalysisResult): string[] {
+export function getExerciseSpecificFeedback(
+  exerciseType: ExerciseId,
+  analysisResult: Pick<TechniqueAnalysisResult, 'score'>
+): string[] {
   const feedback: string[] = [];
-  
-  switch (exerciseType) {
-    case 'squat':
-      if (analysisResult.score < 0.8) {
-        feedback.push("Focus on the ankle → knee → hip → chest alignment");
-        feedback.push("Keep your weight on your heels throughout the movement");
-        feedback.push("Maintain an upright chest and avoid leaning forward");
-      }
-      if (analysisResult.score < 0.6) {
-        feedback.push("Work on hip and ankle mobility to improve squat depth");
-        feedback.push("Practice bodyweight squats to master the movement pattern");
-      }
-      break;
-    case 'deadlift':
-      if (analysisResult.score < 0.8) {
-        feedback.push("Keep the bar path close to your body throughout the lift");
-        feedback.push("Maintain a neutral spine - avoid rounding your back");
-        feedback.push("Focus on the ankle → knee → hip → chest chain alignment");
-      }
-      if (analysisResult.score < 0.6) {
-        feedback.push("Work on hip hinge mobility and posterior chain strength");
-        feedback.push("Consider starting with lighter weight to perfect your form");
-      }
-      break;
-    case 'bench':
-      if (analysisResult.score < 0.8) {
-        feedback.push("Focus on shoulder → elbow → wrist → bar path alignment");
-        feedback.push("Retract your shoulder blades and maintain stability");
-        feedback.push("Keep your wrists straight and stacked over your forearms");
-      }
-      if (analysisResult.score < 0.6) {
-        feedback.push("Work on shoulder mobility and scapular stability");
-        feedback.push("Practice the movement with lighter weight or just the bar");
-      }
-      break;
+  const definition = getExerciseDefinition(exerciseType);
+  if (!definition) {
+    return feedback;
+  }
+
+  if (analysisResult.score < 0.8) {
+    feedback.push(...definition.feedback.needsWork);
+  }
+  if (analysisResult.score < 0.6) {
+    feedback.push(...definition.feedback.poor);
   }
   
   return feedback;
@@ -358,32 +488,10 @@ export function getExerciseSpecificFeedback(exerciseType: 'squat' | 'bench' | 'd
 /**
  * Get exercise-specific tips and guidance
  */
-export function getExerciseTips(exercise: string): string[] {
-  const tips: Record<string, string[]> = {
-    squat: [
-      "Keep your chest up and shoulders back",
-      "Ensure knees track over your toes",
-      "Maintain a neutral spine throughout the movement",
-      "Descend until thighs are parallel to the floor",
-      "Drive through your heels when standing up"
-    ],
-    bench: [
-      "Keep your feet firmly planted on the ground",
-      "Maintain a slight arch in your lower back",
-      "Keep your shoulder blades pulled together",
-      "Lower the bar to your chest with control",
-      "Press the bar in a straight line above your chest"
-    ],
-    deadlift: [
-      "Keep the bar close to your body throughout",
-      "Maintain a neutral spine - no rounding",
-      "Engage your lats to keep the bar close",
-      "Drive through your heels and squeeze your glutes",
-      "Keep your shoulders back and chest up"
-    ]
-  };
+export function getExerciseTips(exercise: ExerciseId): string[] {
+  const tips = getExerciseDefinition(exercise)?.tips;
   
-  return tips[exercise.toLowerCase()] || [
+  return tips && tips.length > 0 ? tips : [
     "Focus on proper form over heavy weight",
     "Move with control throughout the entire range of motion",
     "Breathe properly - exhale on exertion",
@@ -0,0 +1,62 @@
+/**
+ * Technique issues for Coachly
+ * Issues carry a stable code so they can be aggregated, filtered and translated,
+ * with a message template rendered for display
+ */
+
+export type IssueSeverity = 'info' | 'warning' | 'critical';
+
+export type IssueUnit = 'degrees' | 'torso_lengths' | 'ratio';
+
+export interface TechniqueIssue {
+  code: string; // Stable identifier, e.g. 'squat.knee_forward'
+  severity: IssueSeverity;
+  joints: string[]; // Keypoints the issue was measured on, e.g. ['right_ankle', 'right_knee']
+  measured?: number; // Value that triggered the issue
+  threshold?: number; // Limit the value crossed
+  unit?: IssueUnit;
+  cue?: string; // Short spoken version of the message
+  message: string; // Template, may reference {measured} and {threshold}
+}
+
+// Issues that aren't tied to a specific exercise rule
+export const GENERAL_ISSUE_CODES = {
+  lowVisibility: 'general.low_visibility',
+  lowDetectionConfidence: 'general.low_detection_confidence',
+  missingKeypoints: 'general.missing_keypoints'
+} as const;
+
+const SEVERITY_ORDER: Record<IssueSeverity, number> = { info: 0, warning: 1, critical: 2 };
+
+/**
+ * Severity of a rule's issue, from how much it costs the technique score
+ */
+export function severityForPenalty(penalty: number): IssueSeverity {
+  if (penalty >= 0.3) {
+    return 'critical';
+  }
+  return penalty >= 0.2 ? 'warning' : 'info';
+}
+
+/**
+ * Sort issues most severe first
+ */
+export function compareIssueSeverity(a: TechniqueIssue, b: TechniqueIssue): number {
+  return SEVERITY_ORDER[b.severity] - SEVERITY_ORDER[a.severity];
+}
+
+/**
+ * Render an issue's message template with its measured value and threshold
+ */
+export function formatIssueMessage(issue: TechniqueIssue): string {
+  const format = (value?: number) => {
+    if (value === undefined) {
+      return '?';
+    }
+    return issue.unit === 'degrees' ? `${Math.round(value)}°` : value.toFixed(2);
+  };
+
+  return issue.message
+    .replace(/\{measured\}/g, format(issue.measured))
+    .replace(/\{threshold\}/g, format(issue.threshold));
+}
@@ -0,0 +1,150 @@
+/**
+ * Temporal filtering for Coachly
+ * Smooths the keypoint stream with a One-Euro filter weighted by keypoint confidence, bridges brief dropouts,
+ * and holds back issues until they have persisted across several frames
+ */
+
+import { getBodyScale, ImageSize, KeypointData } from './techniqueAnalysis';
+import type { TechniqueIssue } from './techniqueIssues';
+
+interface AxisFilter {
+  value: number;
+  velocity: number; // Smoothed rate of change, in torso lengths per second
+}
+
+interface KeypointTrack {
+  x: AxisFilter;
+  y: AxisFilter;
+  confidence: number;
+  lastSeen: number; // Timestamp of the last confident observation
+}
+
+export interface KeypointFilterState {
+  tracks: Record<string, KeypointTrack>;
+  lastTimestamp: number | null;
+}
+
+export interface IssuePersistenceState {
+  streaks: Record<string, number>; // Consecutive frames each issue code has been reported in
+}
+
+// One-Euro parameters: the cutoff in Hz at rest, how quickly it opens up with speed (per torso length per
+// second), and the cutoff for the speed estimate itself. Tuned for the few frames a second auto-analyze samples at
+const MIN_CUTOFF = 0.5;
+const BETA = 2;
+const VELOCITY_CUTOFF = 1;
+
+// Observations below this confidence are treated as missing
+const MIN_CONFIDENCE = 0.3;
+
+// Observations at or above this confidence move the filter by the full amount
+const FULL_CONFIDENCE = 0.8;
+
+// A keypoint that drops out for less than this is held at its last smoothed position
+const MAX_DROPOUT_MS = 500;
+
+// An issue must be reported in this many consecutive frames before it is shown
+export const ISSUE_PERSISTENCE_FRAMES = 3;
+
+/**
+ * Create an empty filter for a new stream
+ */
+export function createKeypointFilter(): KeypointFilterState {
+  return { tracks: {}, lastTimestamp: null };
+}
+
+/**
+ * Smoothing factor for a low-pass filter with the given cutoff frequency
+ */
+function smoothingFactor(cutoff: number, dtSeconds: number): number {
+  const tau = 1 / (2 * Math.PI * cutoff);
+  return 1 / (1 + tau / dtSeconds);
+}
+
+function filterAxis(previous: AxisFilter, value: number, dtSeconds: number, scale: number, weight: number): AxisFilter {
+  const rawVelocity = (value - previous.value) / scale / dtSeconds;
+  const velocity = previous.velocity + smoothingFactor(VELOCITY_CUTOFF, dtSeconds) * (rawVelocity - previous.velocity);
+  const cutoff = MIN_CUTOFF + BETA * Math.abs(velocity);
+  const alpha = smoothingFactor(cutoff, dtSeconds) * weight;
+  return { value: previous.value + alpha * (value - previous.value), velocity };
+}
+
+/**
+ * Feed the next frame's keypoints through the filter and return the smoothed keypoints
+ */
+export function smoothKeypoints(
+  state: KeypointFilterState,
+  keypoints: KeypointData[],
+  timestamp: number,
+  imageSize?: ImageSize
+): { state: KeypointFilterState; keypoints: KeypointData[] } {
+  const dtSeconds = state.lastTimestamp === null ? 0 : (timestamp - state.lastTimestamp) / 1000;
+  // Velocities in torso lengths, so the filter behaves the same however far the lifter is from the camera
+  const scale = getBodyScale(keypoints, imageSize);
+  const tracks: Record<string, KeypointTrack> = {};
+  const smoothed: KeypointData[] = [];
+
+  for (const kp of keypoints) {
+    const previous = state.tracks[kp.class];
+    if (kp.confidence < MIN_CONFIDENCE) {
+      continue;
+    }
+
+    let track: KeypointTrack;
+    if (!previous || dtSeconds <= 0 || timestamp - previous.lastSeen > MAX_DROPOUT_MS) {
+      track = { x: { value: kp.x, velocity: 0 }, y: { value: kp.y, velocity: 0 }, confidence: kp.confidence, lastSeen: timestamp };
+    } else {
+      // Less confident observations pull the filter less
+      const weight = Math.min(1, (kp.confidence - MIN_CONFIDENCE) / (FULL_CONFIDENCE - MIN_CONFIDENCE) + 0.1);
+      track = {
+        x: filterAxis(previous.x, kp.x, dtSeconds, scale, weight),
+        y: filterAxis(previous.y, kp.y, dtSeconds, scale, weight),
+        confidence: kp.confidence,
+        lastSeen: timestamp
+      };
+    }
+    tracks[kp.class] = track;
+    smoothed.push({ class: kp.class, confidence: kp.confidence, x: track.x.value, y: track.y.value });
+  }
+
+  // Bridge brief dropouts with the last smoothed position, so one bad frame doesn't lose a joint
+  for (const [name, track] of Object.entries(state.tracks)) {
+    if (tracks[name] || timestamp - track.lastSeen > MAX_DROPOUT_MS) {
+      continue;
+    }
+    tracks[name] = track;
+    smoothed.push({ class: name, confidence: track.confidence, x: track.x.value, y: track.y.value });
+  }
+
+  // Keypoints too faint to use and not bridged are passed through, so visibility checks still see them
+  const unused = keypoints.filter(kp => !tracks[kp.class]);
+
+  return {
+    state: { tracks, lastTimestamp: timestamp },
+    keypoints: [...smoothed, ...unused]
+  };
+}
+
+/**
+ * Create empty issue streaks for a new stream
+ */
+export function createIssuePersistence(): IssuePersistenceState {
+  return { streaks: {} };
+}
+
+/**
+ * Count how long each issue has been reported and keep only those that have persisted
+ */
+export function confirmIssues(
+  state: IssuePersistenceState,
+  issues: TechniqueIssue[]
+): { state: IssuePersistenceState; issues: TechniqueIssue[] } {
+  const streaks: Record<string, number> = {};
+  for (const issue of issues) {
+    streaks[issue.code] = (state.streaks[issue.code] ?? 0) + 1;
+  }
+  return {
+    state: { streaks },
+    issues: issues.filter(issue => streaks[issue.code] >= ISSUE_PERSISTENCE_FRAMES)
+  };
+}
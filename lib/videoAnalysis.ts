@@ -0,0 +1,234 @@
+/**
+ * Video file analysis for Coachly
+ * Samples frames from a recorded set at a fixed rate and analyzes each one, building a timeline to scrub through.
+ * Live sessions that were recorded get the same timeline, built from the results stored while they ran
+ */
+
+import { analyzePoseEstimate, PostureAnalysisResult } from './postureAnalysis';
+import type { PoseProvider } from './poseProvider';
+import type { ExerciseId } from './exerciseDefinitions';
+import { createRepTracker, RepSummary, updateRepTracker } from './repDetection';
+import type { SessionEntry, SessionRecording } from './sessionStore';
+import { isFatalPoseError, toPoseBackendError } from './poseErrors';
+import { createLifterTracker, trackLifter } from './lifterTracking';
+import { BAR_TRAIL_MS, BarPosition } from './barPath';
+
+export interface VideoTimelineEntry {
+  time: number; // Seconds into the video
+  result: PostureAnalysisResult;
+}
+
+export interface VideoAnalysis {
+  exercise: ExerciseId;
+  duration: number; // Seconds
+  framesPerSecond: number;
+  entries: VideoTimelineEntry[]; // In time order
+  reps: RepSummary[]; // Rep start and end times are milliseconds into the video
+  failedFrames: number; // Sampled frames the pose backend couldn't analyze
+}
+
+export interface VideoAnalysisOptions {
+  framesPerSecond: number;
+  signal?: AbortSignal; // Stops sampling, keeping the frames analyzed so far
+  onProgress?: (analysis: VideoAnalysis, sampledFrames: number, totalFrames: number) => void;
+}
+
+// Cloud analysis is paced to stay under the server's rate limit, so higher rates take longer there than on-device
+export const VIDEO_SAMPLE_RATES = [1, 2, 4, 8];
+export const DEFAULT_VIDEO_SAMPLE_RATE = 2;
+
+/**
+ * Times in seconds to sample a video of the given duration at
+ */
+export function getSampleTimes(duration: number, framesPerSecond: number): number[] {
+  if (!Number.isFinite(duration) || duration <= 0 || framesPerSecond <= 0) {
+    return [];
+  }
+  const count = Math.floor(duration * framesPerSecond) + 1;
+  // Computed from the index rather than accumulated, so long videos don't drift
+  return Array.from({ length: count }, (_, i) => Math.min(i / framesPerSecond, duration));
+}
+
+/**
+ * Analyze a loaded video frame by frame, seeking the element to each sample time
+ * Frames that fail are counted and skipped, so one bad frame doesn't lose the whole set,
+ * but errors that would fail every frame (e.g. a rejected API key) are thrown
+ */
+export async function analyzeVideo(
+  provider: PoseProvider,
+  video: HTMLVideoElement,
+  exerciseType: ExerciseId,
+  options: VideoAnalysisOptions
+): Promise<VideoAnalysis> {
+  const { framesPerSecond, signal, onProgress } = options;
+  const times = getSampleTimes(video.duration, framesPerSecond);
+  const requestInterval = provider.minRequestIntervalMs ?? 0;
+  let lastRequestAt = -Infinity;
+  let repState = createRepTracker(exerciseType);
+  let lifterTracker = createLifterTracker();
+  let analysis: VideoAnalysis = {
+    exercise: exerciseType,
+    duration: video.duration,
+    framesPerSecond,
+    entries: [],
+    reps: [],
+    failedFrames: 0
+  };
+
+  video.pause();
+  for (const [index, time] of times.entries()) {
+    if (signal?.aborted) {
+      break;
+    }
+
+    // Frames are analyzed as fast as the backend answers, which would soon hit a rate limit
+    await wait(lastRequestAt + requestInterval - Date.now(), signal);
+    if (signal?.aborted) {
+      break;
+    }
+
+    try {
+      await seekVideo(video, time);
+      lastRequestAt = Date.now();
+      const tracked = trackLifter(lifterTracker, await provider.estimatePose(video), time * 1000);
+      lifterTracker = tracked.state;
+      const result = analyzePoseEstimate(tracked.pose, exerciseType);
+      if (result.keypoints) {
+        repState = updateRepTracker(repState, {
+          timestamp: time * 1000,
+          keypoints: result.keypoints,
+          imageSize: result.imageSize,
+          bar: result.bar
+        });
+      }
+      analysis = {
+        ...analysis,
+        entries: [...analysis.entries, { time, result }],
+        reps: repState.reps
+      };
+    } catch (error) {
+      const poseError = toPoseBackendError(error);
+      if (isFatalPoseError(poseError)) {
+        throw poseError;
+      }
+      console.error(`Error analyzing video frame at ${time.toFixed(2)}s:`, error);
+      analysis = { ...analysis, failedFrames: analysis.failedFrames + 1 };
+    }
+
+    onProgress?.(analysis, index + 1, times.length);
+  }
+
+  return analysis;
+}
+
+/**
+ * Line a recorded session's stored analysis results up with its video
+ */
+export function buildRecordingTimeline(
+  exerciseType: ExerciseId,
+  recording: SessionRecording,
+  sessionEntries: SessionEntry[]
+): VideoAnalysis {
+  const duration = recording.duration / 1000;
+  const entries = sessionEntries
+    .map(entry => ({ time: (entry.timestamp - recording.startTime) / 1000, result: entry.result }))
+    .filter(entry => entry.time >= 0 && entry.time <= duration);
+
+  let repState = createRepTracker(exerciseType);
+  for (const { time, result } of entries) {
+    if (result.keypoints) {
+      repState = updateRepTracker(repState, {
+        timestamp: time * 1000,
+        keypoints: result.keypoints,
+        imageSize: result.imageSize,
+        bar: result.bar
+      });
+    }
+  }
+
+  return {
+    exercise: exerciseType,
+    duration,
+    framesPerSecond: getAnalysisRate(entries.map(entry => entry.time)),
+    entries,
+    reps: repState.reps,
+    failedFrames: 0
+  };
+}
+
+/**
+ * Typical analyses per second of a live session, from the median gap between them
+ * Never below one, so a frame analyzed by hand isn't shown for long stretches of the replay either side of it
+ */
+function getAnalysisRate(times: number[]): number {
+  const gaps = times.slice(1).map((time, i) => time - times[i]).sort((a, b) => a - b);
+  const median = gaps[Math.floor(gaps.length / 2)];
+  return median > 0 ? Math.max(1 / median, 1) : 1;
+}
+
+/**
+ * The analyzed entry closest to a playback time, if one was sampled near enough to describe that frame
+ */
+export function getEntryAtTime(analysis: VideoAnalysis, time: number): VideoTimelineEntry | undefined {
+  const tolerance = 1 / analysis.framesPerSecond;
+  let closest: VideoTimelineEntry | undefined;
+  for (const entry of analysis.entries) {
+    const distance = Math.abs(entry.time - time);
+    if (distance <= tolerance && (!closest || distance < Math.abs(closest.time - time))) {
+      closest = entry;
+    }
+  }
+  return closest;
+}
+
+/**
+ * Where the bar was in the few seconds leading up to a playback time, for drawing its recent path
+ */
+export function getBarTrailAtTime(analysis: VideoAnalysis, time: number): BarPosition[] {
+  return analysis.entries
+    .filter(entry => entry.time <= time && time - entry.time <= BAR_TRAIL_MS / 1000)
+    .flatMap(entry => (entry.result.bar ? [entry.result.bar] : []));
+}
+
+/**
+ * Move the video to a time and wait until that frame can be drawn
+ */
+function seekVideo(video: HTMLVideoElement, time: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      video.removeEventListener('seeked', handleSeeked);
+      video.removeEventListener('error', handleError);
+    };
+    const handleSeeked = () => {
+      cleanup();
+      resolve();
+    };
+    const handleError = () => {
+      cleanup();
+      reject(new Error('Failed to seek video'));
+    };
+
+    video.addEventListener('seeked', handleSeeked);
+    video.addEventListener('error', handleError);
+    video.currentTime = time;
+  });
+}
+
+/**
+ * Wait for a number of milliseconds, or until the signal aborts
+ */
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    if (ms <= 0 || signal?.aborted) {
+      resolve();
+      return;
+    }
+    const handleDone = () => {
+      clearTimeout(timeout);
+      signal?.removeEventListener('abort', handleDone);
+      resolve();
+    };
+    const timeout = setTimeout(handleDone, ms);
+    signal?.addEventListener('abort', handleDone);
+  });
+}
@@ -0,0 +1,144 @@
+/**
+ * Spoken coaching cues for Coachly
+ * Turns detected issues into short phrases spoken with the Web Speech API, most severe first,
+ * without repeating the same cue every frame
+ */
+
+import { compareIssueSeverity, TechniqueIssue } from './techniqueIssues';
+
+export interface VoiceCueSettings {
+  muted: boolean;
+  voiceURI: string | null; // null uses the browser's default voice
+  rate: number; // Speech rate, 1 is normal speed
+}
+
+export interface VoiceCueState {
+  lastCueTime: number; // When any cue was last spoken
+  lastSpokenAt: Record<string, number>; // When each cue was last spoken
+}
+
+export const DEFAULT_VOICE_CUE_SETTINGS: VoiceCueSettings = {
+  muted: false,
+  voiceURI: null,
+  rate: 1.1
+};
+
+export const VOICE_CUE_RATE_RANGE = { min: 0.7, max: 1.6 };
+
+const VOICE_CUE_SETTINGS_STORAGE_KEY = 'coachly.voiceCues';
+
+// Gap between any two cues, so the lifter isn't talked at constantly
+const MIN_CUE_GAP_MS = 2500;
+
+// Before the same cue can be spoken again
+const CUE_REPEAT_MS = 8000;
+
+/**
+ * Whether the browser can speak cues
+ */
+export function isSpeechSupported(): boolean {
+  return typeof window !== 'undefined' && 'speechSynthesis' in window;
+}
+
+/**
+ * Create an empty cue history for a new set
+ */
+export function createVoiceCueState(): VoiceCueState {
+  return { lastCueTime: -Infinity, lastSpokenAt: {} };
+}
+
+/**
+ * Short phrase for an issue: the rule's cue, or the instruction after the dash in its message
+ */
+export function getIssueCue(issue: TechniqueIssue): string | null {
+  if (issue.cue) {
+    return issue.cue;
+  }
+  // Problems with detection rather than form aren't worth interrupting a set for
+  if (issue.code.startsWith('general.')) {
+    return null;
+  }
+  const instruction = issue.message.split(' - ').pop()?.trim();
+  return instruction && !instruction.includes('{') ? instruction : null;
+}
+
+/**
+ * Pick the most severe cue that hasn't been spoken recently, if it's time to speak again
+ */
+export function selectVoiceCue(
+  state: VoiceCueState,
+  issues: TechniqueIssue[],
+  now: number = Date.now()
+): { state: VoiceCueState; cue: string | null } {
+  if (now - state.lastCueTime < MIN_CUE_GAP_MS) {
+    return { state, cue: null };
+  }
+
+  const cue = [...issues]
+    .sort(compareIssueSeverity)
+    .map(getIssueCue)
+    .find((candidate): candidate is string =>
+      !!candidate && now - (state.lastSpokenAt[candidate] ?? -Infinity) >= CUE_REPEAT_MS
+    );
+
+  if (!cue) {
+    return { state, cue: null };
+  }
+  return {
+    state: { lastCueTime: now, lastSpokenAt: { ...state.lastSpokenAt, [cue]: now } },
+    cue
+  };
+}
+
+/**
+ * Speak a cue unless muted or another cue is still being spoken
+ * Returns whether the cue was spoken
+ */
+export function speakCue(cue: string, settings: VoiceCueSettings): boolean {
+  if (settings.muted || !isSpeechSupported() || window.speechSynthesis.speaking) {
+    return false;
+  }
+
+  const utterance = new SpeechSynthesisUtterance(cue);
+  utterance.rate = settings.rate;
+  const voice = window.speechSynthesis.getVoices().find(v => v.voiceURI === settings.voiceURI);
+  if (voice) {
+    utterance.voice = voice;
+    utterance.lang = voice.lang;
+  }
+  window.speechSynthesis.speak(utterance);
+  return true;
+}
+
+/**
+ * Stop any cue being spoken
+ */
+export function cancelCues(): void {
+  if (isSpeechSupported()) {
+    window.speechSynthesis.cancel();
+  }
+}
+
+/**
+ * Load saved cue settings from local storage
+ */
+export function loadVoiceCueSettings(): VoiceCueSettings {
+  if (typeof window === 'undefined') {
+    return DEFAULT_VOICE_CUE_SETTINGS;
+  }
+
+  try {
+    const stored = window.localStorage.getItem(VOICE_CUE_SETTINGS_STORAGE_KEY);
+    return stored ? { ...DEFAULT_VOICE_CUE_SETTINGS, ...JSON.parse(stored) } : DEFAULT_VOICE_CUE_SETTINGS;
+  } catch (error) {
+    console.error('Error loading voice cue settings:', error);
+    return DEFAULT_VOICE_CUE_SETTINGS;
+  }
+}
+
+/**
+ * Save cue settings to local storage
+ */
+export function saveVoiceCueSettings(settings: VoiceCueSettings): void {
+  window.localStorage.setItem(VOICE_CUE_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+}
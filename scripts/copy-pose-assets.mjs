@@ -0,0 +1,42 @@
+// Copies the on-device pose backend's assets into public/, so the app serves them itself
+// and works without network access. Runs before `next dev` and `next build`
+import { cpSync, existsSync, mkdirSync, writeFileSync } from "fs";
+import { dirname, join } from "path";
+import { fileURLToPath } from "url";
+
+const root = join(dirname(fileURLToPath(import.meta.url)), "..");
+const targetDir = join(root, "public", "mediapipe");
+
+const MODEL_FILE = "pose_landmarker_lite.task";
+const MODEL_URL =
+  "https://storage.googleapis.com/mediapipe-models/pose_landmarker/pose_landmarker_lite/float16/1/pose_landmarker_lite.task";
+
+// The WASM runtime ships with @mediapipe/tasks-vision, so it always matches the installed version
+cpSync(
+  join(root, "node_modules", "@mediapipe", "tasks-vision", "wasm"),
+  join(targetDir, "wasm"),
+  { recursive: true },
+);
+
+// The model isn't on npm, so it is downloaded once and kept
+const modelPath = join(targetDir, MODEL_FILE);
+if (!existsSync(modelPath)) {
+  try {
+    const response = await fetch(MODEL_URL, {
+      signal: AbortSignal.timeout(60_000),
+    });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    mkdirSync(targetDir, { recursive: true });
+    writeFileSync(modelPath, Buffer.from(await response.arrayBuffer()));
+    console.log(`Downloaded the pose model to public/mediapipe/${MODEL_FILE}`);
+  } catch (error) {
+    // Not fatal, the cloud backend still works without it
+    console.warn(
+      `Couldn't download the pose model (${error.message ?? error}). ` +
+        `The on-device backend won't load until ${MODEL_FILE} is saved to public/mediapipe/ ` +
+        `from ${MODEL_URL}`,
+    );
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * Analysis route for Coachly
+ * Checks the route refuses to run when it can't tell callers apart, rather than pool them under one rate limit
+ */
+
+import assert from 'node:assert/strict';
+import Module from 'node:module';
+import { join } from 'node:path';
+import { describe, it } from 'node:test';
+
+// The compiled route still imports through the @/ path alias, which only the Next.js bundler resolves
+const moduleWithResolver = Module as unknown as { _resolveFilename: (request: string, ...rest: unknown[]) => string };
+const resolveFilename = moduleWithResolver._resolveFilename;
+moduleWithResolver._resolveFilename = (request, ...rest) =>
+  resolveFilename(request.startsWith('@/') ? join(__dirname, '..', request.slice(2)) : request, ...rest);
+
+describe('analysis route', () => {
+  it('refuses requests when rate limiting has no way to identify callers', async () => {
+    for (const name of ['RATE_LIMIT_IP_HEADER', 'RATE_LIMIT_PROXY_HOPS', 'VERCEL']) {
+      delete process.env[name];
+    }
+    // Roboflow itself is configured, so only the missing rate limit settings can stop the request
+    process.env.ROBOFLOW_API_KEY = 'test-key';
+    process.env.ROBOFLOW_API_URL = 'http://127.0.0.1:9/workflow';
+    const error = console.error;
+    console.error = () => {};
+    try {
+      const { POST } = await import('../app/api/analyze/route');
+      const body = JSON.stringify({ image: 'aGVsbG8=' });
+      const request = new Request('http://localhost/api/analyze', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', 'content-length': String(body.length) },
+        body
+      });
+      const response = await POST(request as Parameters<typeof POST>[0]);
+
+      assert.equal(response.status, 500);
+      assert.deepEqual(await response.json(), { error: 'Rate limiting is not configured', code: 'missing_config' });
+    } finally {
+      console.error = error;
+    }
+  });
+});
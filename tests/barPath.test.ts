@@ -0,0 +1,90 @@
+/**
+ * Bar path tracking for Coachly
+ * Locates the bar in synthetic frames and checks per-rep paths against the deadlift and bench limits
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { BarPathPoint, checkBarPath, locateBar, summarizeBarPath } from '../lib/barPath';
+import { getExerciseDefinition } from '../lib/exerciseRegistry';
+import { processRoboflowResponse } from '../lib/roboflow';
+import { loadFixture } from './fixtures/loadFixture';
+
+const TORSO_PX = 190;
+
+/**
+ * A rep's path from sideways offsets in torso lengths, one point every 100 ms
+ */
+function pathFrom(offsets: number[]): BarPathPoint[] {
+  return offsets.map((offset, index) => ({
+    x: 640 + offset * TORSO_PX,
+    y: 500 - index * 20,
+    source: 'wrists',
+    timestamp: index * 100
+  }));
+}
+
+describe('bar path', () => {
+  it("falls back to the lifter's hands when no plate is detected", () => {
+    const pose = processRoboflowResponse(loadFixture('rounded-back-deadlift'));
+    const wrists = pose.keypoints.filter(kp => kp.class.endsWith('_wrist'));
+    const bar = locateBar(pose.keypoints, pose.plate);
+
+    assert.equal(pose.plate, undefined);
+    assert.equal(bar?.source, 'wrists');
+    assert.equal(bar?.x, (wrists[0].x + wrists[1].x) / 2);
+  });
+
+  it('uses the most confident plate the workflow detected', () => {
+    const response = loadFixture('rounded-back-deadlift') as {
+      outputs: Array<{ model_predictions: { predictions: Array<Record<string, unknown>> } }>;
+    };
+    const { predictions } = response.outputs[0].model_predictions;
+    // Plates come from an object detection step, so they have a box but no keypoints
+    const plate = { width: 90, height: 90, class: 'plate', class_id: 1, parent_id: 'image' };
+    predictions.push(
+      { ...plate, detection_id: 'plate-1', confidence: 0.62, x: 300, y: 500 },
+      { ...plate, detection_id: 'plate-2', confidence: 0.88, x: 700, y: 540 }
+    );
+    const pose = processRoboflowResponse(response);
+
+    assert.deepEqual(locateBar(pose.keypoints, pose.plate), { x: 700, y: 540, source: 'plate' });
+    assert.equal(pose.people?.length, 1);
+  });
+
+  it('measures deviation and drift in torso lengths', () => {
+    const summary = summarizeBarPath(pathFrom([0, 0.1, 0.3, 0.2, 0.05]), TORSO_PX);
+
+    assert.ok(summary);
+    assert.ok(Math.abs(summary.verticalDeviation - 0.3) < 1e-9);
+    assert.ok(Math.abs(summary.horizontalDrift - 0.05) < 1e-9);
+    assert.equal(summarizeBarPath(pathFrom([0, 0.1]), TORSO_PX), null);
+  });
+
+  it('flags a deadlift bar that swings away from the legs', () => {
+    const deadlift = getExerciseDefinition('deadlift');
+    assert.ok(deadlift);
+
+    const straight = summarizeBarPath(pathFrom([0, 0.05, 0.08, 0.04, 0.02]), TORSO_PX);
+    assert.ok(straight);
+    assert.deepEqual(checkBarPath(deadlift, straight), { issues: [], penalty: 0 });
+
+    const swinging = summarizeBarPath(pathFrom([0, 0.15, 0.35, 0.3, 0.2]), TORSO_PX);
+    assert.ok(swinging);
+    const { issues, penalty } = checkBarPath(deadlift, swinging);
+    assert.deepEqual(
+      issues.map(issue => issue.code),
+      ['deadlift.bar_path_wander', 'deadlift.bar_drift']
+    );
+    assert.ok(Math.abs(penalty - 0.4) < 1e-9);
+  });
+
+  it('allows the usual curve of a bench press', () => {
+    const bench = getExerciseDefinition('bench');
+    assert.ok(bench);
+
+    const curved = summarizeBarPath(pathFrom([0, 0.2, 0.4, 0.2, 0.05]), TORSO_PX);
+    assert.ok(curved);
+    assert.deepEqual(checkBarPath(bench, curved).issues, []);
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Camera distance for Coachly
+ * Checks that the same lift scores the same whether the lifter stands near the camera or far from it
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { ExerciseId } from '../lib/exerciseDefinitions';
+import type { PoseEstimate } from '../lib/poseProvider';
+import { analyzePoseEstimate } from '../lib/postureAnalysis';
+import { processRoboflowResponse } from '../lib/roboflow';
+import { loadFixture } from './fixtures/loadFixture';
+
+/**
+ * The same pose shrunk by `scale` around the middle of the frame and shifted by (dx, dy), as if the lifter
+ * stood further back and to one side. Only the keypoints change, the frame stays the same size
+ */
+function moveAway(pose: PoseEstimate, scale: number, dx = 0, dy = 0): PoseEstimate {
+  const centre = { x: (pose.imageSize?.width ?? 0) / 2, y: (pose.imageSize?.height ?? 0) / 2 };
+  return {
+    ...pose,
+    keypoints: pose.keypoints.map(kp => ({
+      ...kp,
+      x: centre.x + (kp.x - centre.x) * scale + dx,
+      y: centre.y + (kp.y - centre.y) * scale + dy
+    }))
+  };
+}
+
+/**
+ * What the analysis concluded, with measurements rounded past floating point noise
+ */
+function verdict(pose: PoseEstimate, exercise: ExerciseId) {
+  const result = analyzePoseEstimate(pose, exercise);
+  return {
+    isGoodPosture: result.isGoodPosture,
+    score: Math.round(result.score * 1e6) / 1e6,
+    issues: result.detectedIssues.map(issue => ({
+      code: issue.code,
+      severity: issue.severity,
+      measured: issue.measured === undefined ? undefined : Math.round(issue.measured * 1e6) / 1e6
+    }))
+  };
+}
+
+describe('camera distance', () => {
+  const cases: Array<[string, ExerciseId]> = [
+    ['good-squat', 'squat'],
+    ['rounded-back-deadlift', 'deadlift'],
+    ['front-squat-knees-caving', 'squat']
+  ];
+
+  for (const [fixture, exercise] of cases) {
+    it(`scores ${fixture} the same at 2 m and 4 m`, () => {
+      const near = processRoboflowResponse(loadFixture(fixture));
+      const expected = verdict(near, exercise);
+
+      // Twice as far away is half the size in the frame
+      assert.deepEqual(verdict(moveAway(near, 0.5), exercise), expected);
+      assert.deepEqual(verdict(moveAway(near, 0.5, -150, 60), exercise), expected);
+    });
+  }
+
+  it('still finds the issue when the lifter is far away', () => {
+    const far = moveAway(processRoboflowResponse(loadFixture('rounded-back-deadlift')), 0.5);
+    assert.deepEqual(
+      verdict(far, 'deadlift').issues.map(issue => issue.code),
+      ['deadlift.spine_rounded']
+    );
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Camera setup for Coachly
+ * Checks framing instructions for synthetic frames, and that analysis only arms once framing holds
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  CameraSetupCheck,
+  checkCameraSetup,
+  createCameraSetup,
+  READY_CHECKS,
+  updateCameraSetup
+} from '../lib/cameraSetup';
+import { getExerciseDefinition } from '../lib/exerciseRegistry';
+import type { PoseEstimate } from '../lib/poseProvider';
+import { processRoboflowResponse } from '../lib/roboflow';
+import { loadFixture } from './fixtures/loadFixture';
+
+const IMAGE_SIZE = { width: 1280, height: 720 };
+
+/**
+ * A lifter standing tall side-on, torsoPx tall in the torso, with their feet at (x, feetY)
+ */
+function standingSideOn(x: number, torsoPx: number, feetY = 620): PoseEstimate {
+  const at = (height: number) => feetY - height * torsoPx;
+  const points: Record<string, [number, number]> = {
+    nose: [x + 0.15 * torsoPx, at(2.9)],
+    shoulder: [x, at(2.4)],
+    elbow: [x, at(1.8)],
+    wrist: [x + 0.1 * torsoPx, at(1.3)],
+    hip: [x, at(1.4)],
+    knee: [x + 0.05 * torsoPx, at(0.7)],
+    ankle: [x, feetY]
+  };
+  const keypoints = Object.entries(points).flatMap(([joint, [px, py]]) =>
+    joint === 'nose'
+      ? [{ class: 'nose', confidence: 0.9, x: px, y: py }]
+      : [
+          { class: `left_${joint}`, confidence: 0.9, x: px, y: py },
+          { class: `right_${joint}`, confidence: 0.6, x: px - 6, y: py - 3 }
+        ]
+  );
+  return { keypoints, confidence: 0.9, imageSize: IMAGE_SIZE };
+}
+
+describe('camera setup', () => {
+  const squat = getExerciseDefinition('squat');
+  assert.ok(squat);
+
+  it('accepts a lifter standing side-on in the middle of the frame', () => {
+    const check = checkCameraSetup(standingSideOn(640, 160), squat, 'side');
+
+    assert.equal(check.status, 'ready');
+    assert.deepEqual(check.instructions, []);
+  });
+
+  it('asks a lifter filling the frame to step back', () => {
+    const check = checkCameraSetup(processRoboflowResponse(loadFixture('good-squat')), squat, 'side');
+
+    assert.equal(check.status, 'adjust');
+    assert.equal(check.framed, false);
+    assert.match(check.instructions[0], /^Step back about \d(\.5)? m/);
+  });
+
+  it('asks a lifter far away to step closer', () => {
+    const check = checkCameraSetup(standingSideOn(640, 60), squat, 'side');
+    assert.match(check.instructions[0], /^Step closer/);
+  });
+
+  it('points a lifter at the edge of the frame back to the middle', () => {
+    const check = checkCameraSetup(standingSideOn(1100, 160), squat, 'side');
+    // Right of the analyzed frame is the left of the mirrored preview
+    assert.deepEqual(check.instructions, ["Move about 1.5 m toward the middle, you're near the left of the preview"]);
+  });
+
+  it('asks for a turn when the camera angle is wrong', () => {
+    const pose = processRoboflowResponse(loadFixture('front-squat-knees-caving'));
+    const check = checkCameraSetup(pose, squat, 'side');
+
+    assert.equal(check.view, 'front');
+    assert.equal(check.angled, false);
+    assert.ok(check.instructions.includes('Turn about 90° so your side faces the camera'));
+    assert.equal(checkCameraSetup(pose, squat, 'front').angled, true);
+  });
+
+  it('names which way to turn', () => {
+    const sideOn = standingSideOn(640, 160);
+    const mirrored = { ...sideOn, keypoints: sideOn.keypoints.map(kp => ({ ...kp, x: 1280 - kp.x })) };
+
+    // Facing the right of the frame, the camera is on the lifter's right
+    assert.deepEqual(checkCameraSetup(sideOn, squat, 'front').instructions, [
+      'Turn about 90° to your right so you face the camera'
+    ]);
+    assert.deepEqual(checkCameraSetup(mirrored, squat, 'front').instructions, [
+      'Turn about 90° to your left so you face the camera'
+    ]);
+
+    // Front-on but looking toward the right of the frame, so carry on turning that way
+    const front = processRoboflowResponse(loadFixture('front-squat-knees-caving'));
+    const keypoints = front.keypoints.map(kp => (kp.class === 'nose' ? { ...kp, x: kp.x + 60 } : kp));
+    const check = checkCameraSetup({ ...front, keypoints }, squat, 'side');
+    assert.ok(check.instructions.includes('Turn about 90° to your left so your side faces the camera'));
+  });
+
+  it('asks to level a tilted camera', () => {
+    const pose = standingSideOn(640, 160);
+    // Rotate the frame 20° around the feet
+    const angle = (20 * Math.PI) / 180;
+    const keypoints = pose.keypoints.map(kp => ({
+      ...kp,
+      x: 640 + (kp.x - 640) * Math.cos(angle) - (kp.y - 620) * Math.sin(angle),
+      y: 620 + (kp.x - 640) * Math.sin(angle) + (kp.y - 620) * Math.cos(angle)
+    }));
+    const check = checkCameraSetup({ ...pose, keypoints }, squat, 'side');
+
+    assert.equal(check.level, false);
+    assert.match(check.instructions[check.instructions.length - 1], /level the phone .*about 20° off/);
+  });
+
+  it("doesn't ask to level the camera for a hip thrust's inclined torso", () => {
+    const hipThrust = getExerciseDefinition('hip_thrust');
+    assert.ok(hipThrust);
+
+    // Shoulders on the bench and hips down by the floor, facing the left of the frame
+    const points: Record<string, [number, number]> = {
+      shoulder: [420, 400],
+      elbow: [450, 470],
+      wrist: [520, 500],
+      hip: [580, 520],
+      knee: [720, 430],
+      ankle: [740, 600]
+    };
+    const keypoints = [
+      { class: 'nose', confidence: 0.9, x: 360, y: 370 },
+      ...Object.entries(points).flatMap(([joint, [x, y]]) => [
+        { class: `left_${joint}`, confidence: 0.9, x, y },
+        { class: `right_${joint}`, confidence: 0.6, x: x + 6, y: y - 3 }
+      ])
+    ];
+    const check = checkCameraSetup({ keypoints, confidence: 0.9, imageSize: IMAGE_SIZE }, hipThrust, 'side');
+
+    assert.equal(check.level, true);
+    assert.equal(check.status, 'ready');
+  });
+
+  it('only arms analysis after several good checks in a row', () => {
+    const ready = checkCameraSetup(standingSideOn(640, 160), squat, 'side');
+    const adjust: CameraSetupCheck = { ...ready, status: 'adjust', instructions: ['Step back about 1 m'] };
+
+    let state = createCameraSetup();
+    for (let i = 0; i < READY_CHECKS - 1; i++) {
+      state = updateCameraSetup(state, ready);
+    }
+    state = updateCameraSetup(state, adjust);
+    assert.deepEqual(state, { readyChecks: 0, isArmed: false });
+
+    for (let i = 0; i < READY_CHECKS; i++) {
+      state = updateCameraSetup(state, ready);
+    }
+    assert.equal(state.isArmed, true);
+    assert.equal(updateCameraSetup(state, adjust).isArmed, true);
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Exercise recognition for Coachly
+ * Checks that a lift is only named once the window shows it moving, and that old frames fall out of the window
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { addRecognitionFrame, recognizeExercise } from '../lib/exerciseRecognition';
+import type { KeypointFrame } from '../lib/repDetection';
+import { processRoboflowResponse } from '../lib/roboflow';
+import { KeypointData } from '../lib/techniqueAnalysis';
+import { loadFixture } from './fixtures/loadFixture';
+
+const IMAGE_SIZE = { width: 1280, height: 720 };
+
+/**
+ * A squatter side-on with the bar on their back, knees bent to the given angle and the torso leaning further
+ * forward the deeper they go
+ */
+function squatAt(kneeDegrees: number): KeypointData[] {
+  const bend = (kneeDegrees * Math.PI) / 180;
+  const lean = ((180 - kneeDegrees) * 0.4 * Math.PI) / 180;
+  const ankle = { x: 640, y: 620 };
+  const knee = { x: 640 - (180 - kneeDegrees) * 0.5, y: 500 };
+  const hip = { x: knee.x + Math.sin(bend) * 120, y: knee.y + Math.cos(bend) * 120 };
+  const shoulder = { x: hip.x - Math.sin(lean) * 160, y: hip.y - Math.cos(lean) * 160 };
+  const points: Record<string, { x: number; y: number }> = {
+    ankle,
+    knee,
+    hip,
+    shoulder,
+    elbow: { x: shoulder.x + 30, y: shoulder.y + 40 },
+    wrist: { x: shoulder.x + 5, y: shoulder.y + 5 }
+  };
+  return [
+    { class: 'nose', confidence: 0.9, x: shoulder.x - 40, y: shoulder.y - 50 },
+    ...Object.entries(points).flatMap(([joint, { x, y }]) => [
+      { class: `left_${joint}`, confidence: 0.9, x, y },
+      { class: `right_${joint}`, confidence: 0.6, x: x - 6, y: y - 3 }
+    ])
+  ];
+}
+
+function frames(keypoints: KeypointData[][]): KeypointFrame[] {
+  return keypoints.map((frame, index) => ({ timestamp: index * 200, keypoints: frame, imageSize: IMAGE_SIZE }));
+}
+
+const SQUATS = [170, 140, 110, 90, 110, 140, 170, 140, 110, 90, 110, 140, 170];
+
+describe('exercise recognition', () => {
+  it('recognizes squats', () => {
+    const recognition = recognizeExercise(frames(SQUATS.map(squatAt)));
+
+    assert.equal(recognition.exercise, 'squat');
+    assert.ok(recognition.confidence >= 0.4);
+  });
+
+  it("doesn't name a lift for someone standing still", () => {
+    const { keypoints } = processRoboflowResponse(loadFixture('good-squat'));
+    const recognition = recognizeExercise(frames(Array(12).fill(keypoints)));
+
+    assert.equal(recognition.exercise, 'unknown');
+    assert.equal(recognition.confidence, 0);
+  });
+
+  it('waits for enough frames to show a rep', () => {
+    assert.equal(recognizeExercise(frames(SQUATS.slice(0, 4).map(squatAt))).exercise, 'unknown');
+  });
+});
+
+describe('recognition window', () => {
+  it('drops frames older than the window', () => {
+    const window = frames(SQUATS.map(squatAt)).reduce<KeypointFrame[]>(
+      (window, frame) => addRecognitionFrame(window, frame, 1000),
+      []
+    );
+
+    assert.deepEqual(window.map(frame => frame.timestamp), [1400, 1600, 1800, 2000, 2200, 2400]);
+  });
+});
@@ -0,0 +1,32 @@
+/**
+ * Exercise registry for Coachly
+ * Checks that custom exercises saved to local storage are validated before they are analyzed
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { BUILT_IN_EXERCISES } from '../lib/exerciseDefinitions';
+import { listCustomExercises } from '../lib/exerciseRegistry';
+
+describe('custom exercises', () => {
+  it('drops stored definitions that are malformed', () => {
+    const valid = { ...BUILT_IN_EXERCISES[0], id: 'custom-box-squat', name: 'Box squat', builtIn: false };
+    const stored = [
+      valid,
+      { id: 'custom-half', name: 'Half an exercise' },
+      { ...valid, id: 'custom-bad-rule', rules: [{ ...valid.rules[0], metric: { kind: 'angle' } }] },
+      { ...valid, id: 'custom-bad-joint', analysisJoints: ['tail'] },
+      'custom-string'
+    ];
+    const items = new Map([['coachly.customExercises', JSON.stringify(stored)]]);
+    Object.assign(globalThis, { window: { localStorage: { getItem: (key: string) => items.get(key) ?? null } } });
+
+    const warn = console.warn;
+    console.warn = () => {};
+    try {
+      assert.deepEqual(listCustomExercises().map(exercise => exercise.id), ['custom-box-squat']);
+    } finally {
+      console.warn = warn;
+    }
+  });
+});
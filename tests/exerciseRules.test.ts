@@ -0,0 +1,76 @@
+/**
+ * Exercise rules for Coachly
+ * Checks that directional rules tell leaning back from leaning forward, and that rules skip what they can't measure
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { processRoboflowResponse } from '../lib/roboflow';
+import { analyzeTechnique, KeypointData } from '../lib/techniqueAnalysis';
+import { loadFixture } from './fixtures/loadFixture';
+
+const IMAGE_SIZE = { width: 1280, height: 720 };
+const TORSO_PX = 160;
+
+/**
+ * An overhead press locked out side-on, facing the right of the frame, with the torso leaning
+ * the given degrees forward of upright (negative leans back) and the arms in line with it
+ */
+function lockedOut(leanDegrees: number): KeypointData[] {
+  const lean = (leanDegrees * Math.PI) / 180;
+  const up = { x: Math.sin(lean), y: -Math.cos(lean) };
+  const hip = { x: 640, y: 400 };
+  const shoulder = { x: hip.x + up.x * TORSO_PX, y: hip.y + up.y * TORSO_PX };
+  const along = (distance: number) => ({ x: shoulder.x + up.x * distance, y: shoulder.y + up.y * distance });
+  const ear = along(0.3 * TORSO_PX);
+
+  const points: Record<string, { x: number; y: number }> = {
+    ankle: { x: 640, y: 620 },
+    toe: { x: 680, y: 620 },
+    knee: { x: 640, y: 510 },
+    hip,
+    shoulder,
+    elbow: along(0.6 * TORSO_PX),
+    wrist: along(1.2 * TORSO_PX),
+    ear
+  };
+  return [
+    { class: 'nose', confidence: 0.9, x: ear.x + 25, y: ear.y + 5 },
+    ...Object.entries(points).flatMap(([joint, { x, y }]) => [
+      { class: `left_${joint}`, confidence: 0.9, x, y },
+      { class: `right_${joint}`, confidence: 0.6, x: x - 6, y: y - 3 }
+    ])
+  ];
+}
+
+describe('directional rules', () => {
+  const codes = (leanDegrees: number) =>
+    analyzeTechnique(lockedOut(leanDegrees), 'overhead_press', { imageSize: IMAGE_SIZE }).issues.map(
+      issue => issue.code
+    );
+
+  it('flags leaning back on the overhead press', () => {
+    assert.ok(codes(-30).includes('overhead_press.leaning_back'));
+  });
+
+  it("doesn't call a forward lean leaning back", () => {
+    assert.ok(!codes(30).includes('overhead_press.leaning_back'));
+    assert.ok(!codes(0).includes('overhead_press.leaning_back'));
+  });
+});
+
+describe('unmeasurable rules', () => {
+  it('skips a height ratio whose span has collapsed', () => {
+    const pose = processRoboflowResponse(loadFixture('rounded-back-deadlift'));
+    // Knees smoothed onto the ankles leave no shin to compare the hips against
+    const ankles = Object.fromEntries(
+      pose.keypoints.filter(kp => kp.class.endsWith('_ankle')).map(kp => [kp.class.replace('ankle', 'knee'), kp.y])
+    );
+    const keypoints = pose.keypoints.map(kp => (kp.class in ankles ? { ...kp, y: ankles[kp.class] } : kp));
+    const result = analyzeTechnique(keypoints, 'deadlift', { imageSize: pose.imageSize });
+
+    assert.equal(result.phase, 'setup');
+    assert.ok(result.issues.every(issue => Number.isFinite(issue.measured ?? 0)));
+    assert.ok(!result.issues.some(issue => issue.code === 'deadlift.hips_high' || issue.code === 'deadlift.hips_low'));
+  });
+});
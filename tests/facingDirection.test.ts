@@ -0,0 +1,44 @@
+/**
+ * Facing direction for Coachly
+ * Checks that the lifter's facing direction follows the body rather than the frame, so directional checks
+ * hold either way round
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { processRoboflowResponse } from '../lib/roboflow';
+import { analyzeTechnique, determineFacingDirection, KeypointData } from '../lib/techniqueAnalysis';
+import { loadFixture } from './fixtures/loadFixture';
+
+/**
+ * The same keypoints as seen with the camera on the other side of the lifter
+ */
+function mirror(keypoints: KeypointData[], width: number): KeypointData[] {
+  return keypoints.map(kp => ({ ...kp, x: width - kp.x }));
+}
+
+describe('facing direction', () => {
+  const pose = processRoboflowResponse(loadFixture('rounded-back-deadlift'));
+  const width = pose.imageSize?.width ?? 0;
+
+  it('turns round when the lifter does', () => {
+    const facing = determineFacingDirection(pose.keypoints, 'standing', pose.imageSize);
+    const mirrored = determineFacingDirection(mirror(pose.keypoints, width), 'standing', pose.imageSize);
+
+    assert.notEqual(facing, 'unknown');
+    assert.equal(mirrored, facing === 'left' ? 'right' : 'left');
+  });
+
+  it("gives up when there's nothing to tell the front from the back", () => {
+    const torso = pose.keypoints.filter(kp => /_(shoulder|hip)$/.test(kp.class));
+    assert.equal(determineFacingDirection(torso, 'standing', pose.imageSize), 'unknown');
+  });
+
+  it('finds the same faults facing either way', () => {
+    const codes = (keypoints: KeypointData[]) =>
+      analyzeTechnique(keypoints, 'deadlift', { imageSize: pose.imageSize }).issues.map(issue => issue.code);
+
+    assert.deepEqual(codes(pose.keypoints), ['deadlift.spine_rounded']);
+    assert.deepEqual(codes(mirror(pose.keypoints, width)), ['deadlift.spine_rounded']);
+  });
+});
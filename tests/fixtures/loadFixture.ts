@@ -0,0 +1,16 @@
+/**
+ * Test fixtures for Coachly
+ * Loads the synthetic Roboflow workflow responses under tests/fixtures/roboflow
+ */
+
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+
+const ROBOFLOW_FIXTURES_DIR = join(process.cwd(), 'tests', 'fixtures', 'roboflow');
+
+/**
+ * Parse a workflow response by file name, without the .json extension
+ */
+export function loadFixture(name: string): unknown {
+  return JSON.parse(readFileSync(join(ROBOFLOW_FIXTURES_DIR, `${name}.json`), 'utf8'));
+}
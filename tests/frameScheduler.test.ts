@@ -0,0 +1,57 @@
+/**
+ * Adaptive frame scheduling for Coachly
+ * Checks that auto-analysis samples well under the server's rate limit, however much the lifter moves,
+ * and that slow or out-of-order responses don't pile up or overwrite newer results
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  beginRequest,
+  canStartRequest,
+  completeRequest,
+  createFrameScheduler,
+  failRequest,
+  scheduleNextFrame
+} from '../lib/frameScheduler';
+import { ANALYZE_RATE_LIMIT } from '../lib/rateLimit';
+
+describe('frame scheduling', () => {
+  it('leaves headroom under the rate limit while the lifter moves', () => {
+    const { delayMs } = scheduleNextFrame(createFrameScheduler(0), 1, 0);
+    const perWindow = ANALYZE_RATE_LIMIT.windowMs / delayMs;
+
+    // Retries and the odd manual analysis have to fit in what's left
+    assert.ok(perWindow <= ANALYZE_RATE_LIMIT.maxRequests * 0.75, `${perWindow} requests a window`);
+  });
+
+  it('slows down once the lifter rests', () => {
+    const moving = scheduleNextFrame(createFrameScheduler(0), 1, 0);
+    const resting = scheduleNextFrame(moving.state, 0, 5000);
+
+    assert.ok(resting.delayMs > moving.delayMs);
+  });
+});
+
+describe('requests in flight', () => {
+  it('holds off new requests while the backend is slow', () => {
+    const first = beginRequest(createFrameScheduler(0));
+    const second = beginRequest(first.state);
+
+    assert.equal(canStartRequest(first.state), true);
+    assert.equal(canStartRequest(second.state), false);
+    assert.equal(canStartRequest(failRequest(second.state)), true);
+  });
+
+  it('drops a response that arrives after a newer one', () => {
+    const first = beginRequest(createFrameScheduler(0));
+    const second = beginRequest(first.state);
+    const newer = completeRequest(second.state, second.requestId, 100, 300);
+    const older = completeRequest(newer.state, first.requestId, 0, 400);
+
+    assert.equal(newer.isStale, false);
+    assert.equal(older.isStale, true);
+    assert.equal(older.state.latestAppliedId, second.requestId);
+    assert.equal(older.state.inFlight, 0);
+  });
+});
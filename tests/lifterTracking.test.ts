@@ -0,0 +1,90 @@
+/**
+ * Lifter tracking for Coachly
+ * Follows the lifter through a synthetic multi-person frame, with and without a tap to lock onto someone
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { createLifterTracker, lockOntoPerson, trackLifter, unlockLifter } from '../lib/lifterTracking';
+import type { DetectedPerson, PoseEstimate } from '../lib/poseProvider';
+import { processRoboflowResponse } from '../lib/roboflow';
+import { loadFixture } from './fixtures/loadFixture';
+
+const LIFTER_ID = 'c1d2e3f4-a5b6-4c7d-8e9f-0a1b2c3d4e95';
+const BYSTANDER_ID = '9b7c3e21-4d5f-4a60-8e1b-2c3d4e5f6a74';
+
+const fixtureFrame = processRoboflowResponse(loadFixture('multiple-people'));
+
+function findPerson(id: string): DetectedPerson {
+  const person = fixtureFrame.people?.find(candidate => candidate.detectionId === id);
+  assert.ok(person);
+  return person;
+}
+
+/**
+ * Move a person across the frame, giving them a new detection id the way a backend does every frame
+ */
+function movePerson(person: DetectedPerson, dx: number, detectionId: string, scale = 1): DetectedPerson {
+  return {
+    ...person,
+    detectionId,
+    box: { ...person.box, x: person.box.x + dx, width: person.box.width * scale, height: person.box.height * scale },
+    keypoints: person.keypoints.map(kp => ({ ...kp, x: kp.x + dx }))
+  };
+}
+
+function frameWith(people: DetectedPerson[]): PoseEstimate {
+  return { ...fixtureFrame, people };
+}
+
+describe('lifter tracking', () => {
+  it('starts with the most prominent person', () => {
+    const { pose } = trackLifter(createLifterTracker(), fixtureFrame, 0);
+
+    assert.equal(pose.detectionId, LIFTER_ID);
+    assert.equal(pose.keypoints, findPerson(LIFTER_ID).keypoints);
+  });
+
+  it('keeps following the lifter when someone more prominent walks in front of the camera', () => {
+    const first = trackLifter(createLifterTracker(), fixtureFrame, 0);
+    const lifter = movePerson(findPerson(LIFTER_ID), 15, 'lifter-2');
+    const passerBy = movePerson(findPerson(BYSTANDER_ID), -700, 'passer-by', 2.5);
+    const second = trackLifter(first.state, frameWith([passerBy, lifter]), 250);
+
+    assert.equal(second.pose.detectionId, 'lifter-2');
+  });
+
+  it('waits for a lost lifter before switching to someone else', () => {
+    const first = trackLifter(createLifterTracker(), fixtureFrame, 0);
+    const bystanderOnly = frameWith([findPerson(BYSTANDER_ID)]);
+
+    const brieflyLost = trackLifter(first.state, bystanderOnly, 500);
+    assert.deepEqual(brieflyLost.pose.keypoints, []);
+    assert.equal(brieflyLost.pose.detectionId, undefined);
+
+    const longLost = trackLifter(brieflyLost.state, bystanderOnly, 2500);
+    assert.equal(longLost.pose.detectionId, BYSTANDER_ID);
+  });
+
+  it('locks onto the person that was tapped and ignores everyone else', () => {
+    const first = trackLifter(createLifterTracker(), fixtureFrame, 0);
+    const bystander = findPerson(BYSTANDER_ID);
+    const locked = lockOntoPerson(first.state, fixtureFrame.people ?? [], { x: bystander.box.x, y: bystander.box.y }, 100);
+    assert.equal(locked.isLocked, true);
+
+    const next = trackLifter(locked, fixtureFrame, 250);
+    assert.equal(next.pose.detectionId, BYSTANDER_ID);
+
+    // Even long after the locked person leaves, the lifter who is still in view isn't analyzed
+    const gone = trackLifter(next.state, frameWith([findPerson(LIFTER_ID)]), 10_000);
+    assert.deepEqual(gone.pose.keypoints, []);
+
+    const unlocked = trackLifter(unlockLifter(gone.state), frameWith([findPerson(LIFTER_ID)]), 12_000);
+    assert.equal(unlocked.pose.detectionId, LIFTER_ID);
+  });
+
+  it('ignores a tap where nobody is standing', () => {
+    const state = createLifterTracker();
+    assert.equal(lockOntoPerson(state, fixtureFrame.people ?? [], { x: 10, y: 10 }, 0), state);
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * Pose providers for Coachly
+ * Checks that a provider can be picked by id and that analysis only relies on the normalized pose estimate
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { getPoseProvider, PoseEstimate, PoseProviderId } from '../lib/poseProvider';
+import { analyzePoseEstimate } from '../lib/postureAnalysis';
+import { processRoboflowResponse } from '../lib/roboflow';
+import { loadFixture } from './fixtures/loadFixture';
+
+describe('pose providers', () => {
+  it('looks a provider up by id', () => {
+    assert.equal(getPoseProvider('local').id, 'local');
+    assert.equal(getPoseProvider('roboflow').id, 'roboflow');
+  });
+
+  it('falls back to Roboflow for an id it no longer knows', () => {
+    // e.g. a provider saved in settings by an older version
+    assert.equal(getPoseProvider('movenet' as PoseProviderId).id, 'roboflow');
+  });
+});
+
+describe('pose estimate analysis', () => {
+  const pose = processRoboflowResponse(loadFixture('good-squat'));
+
+  it("doesn't need the extras only some backends provide", () => {
+    // What the on-device backend returns for a lone lifter, without Roboflow's annotated image or plates
+    const bare: PoseEstimate = { keypoints: pose.keypoints, confidence: pose.confidence, imageSize: pose.imageSize };
+    const full = analyzePoseEstimate(pose, 'squat');
+    const result = analyzePoseEstimate(bare, 'squat');
+
+    assert.equal(result.isGoodPosture, full.isGoodPosture);
+    assert.equal(result.score, full.score);
+    assert.deepEqual(result.detectedIssues, full.detectedIssues);
+  });
+
+  it('flags a person the backend is unsure of', () => {
+    const result = analyzePoseEstimate({ ...pose, confidence: 0.4 }, 'squat');
+
+    assert.equal(result.isGoodPosture, false);
+    assert.ok(result.detectedIssues.some(issue => issue.code === 'general.low_detection_confidence'));
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * Pose streams for Coachly
+ * Checks that the verdict, issues and feedback for a stream of frames only cover issues that have lasted
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { analyzePoseStream, createPoseStream } from '../lib/postureAnalysis';
+import { processRoboflowResponse } from '../lib/roboflow';
+import { ISSUE_PERSISTENCE_FRAMES } from '../lib/temporalFilter';
+import { loadFixture } from './fixtures/loadFixture';
+
+describe('pose stream', () => {
+  const pose = processRoboflowResponse(loadFixture('rounded-back-deadlift'));
+
+  it('holds back poor form until it has lasted', () => {
+    let state = createPoseStream();
+    for (let frame = 1; frame <= ISSUE_PERSISTENCE_FRAMES; frame++) {
+      const next = analyzePoseStream(state, pose, frame * 100, 'deadlift');
+      state = next.state;
+
+      const isConfirmed = frame === ISSUE_PERSISTENCE_FRAMES;
+      assert.equal(next.result.isGoodPosture, !isConfirmed);
+      assert.deepEqual(
+        next.result.detectedIssues.map(issue => issue.code),
+        isConfirmed ? ['deadlift.spine_rounded'] : []
+      );
+    }
+  });
+
+  it('reports an empty frame straight away', () => {
+    const empty = processRoboflowResponse(loadFixture('no-person'));
+    const { result } = analyzePoseStream(createPoseStream(), empty, 0, 'squat');
+
+    assert.equal(result.isGoodPosture, false);
+    assert.ok(result.detectedIssues.some(issue => issue.code === 'general.missing_keypoints'));
+    assert.ok(
+      result.feedback.includes('Adjust your position to ensure all key body parts are visible in the camera.')
+    );
+  });
+
+  it('leaves issues that just appeared out of the feedback', () => {
+    let state = createPoseStream();
+    for (let frame = 1; frame < ISSUE_PERSISTENCE_FRAMES; frame++) {
+      state = analyzePoseStream(state, pose, frame * 100, 'deadlift').state;
+    }
+    // The lifter is only hard to make out on the last frame
+    const { result } = analyzePoseStream(
+      state,
+      { ...pose, confidence: 0.4 },
+      ISSUE_PERSISTENCE_FRAMES * 100,
+      'deadlift'
+    );
+
+    assert.equal(result.isGoodPosture, false);
+    assert.deepEqual(result.detectedIssues.map(issue => issue.code), ['deadlift.spine_rounded']);
+    assert.ok(result.feedback.includes('Focus on the highlighted areas for better form.'));
+    assert.ok(!result.feedback.includes("Make sure you're clearly visible in the camera frame."));
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Progress analytics for Coachly
+ * Checks how sessions are grouped into weeks and score trends, and how each issue's weekly trend is called
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { PostureAnalysisResult } from '../lib/postureAnalysis';
+import { buildIssueFrequencies, buildScoreTrends, getWeekStart } from '../lib/progressAnalytics';
+import type { SessionEntry, WorkoutSession } from '../lib/sessionStore';
+import type { TechniqueIssue } from '../lib/techniqueIssues';
+
+// Local dates, since weeks start at local midnight on Monday
+const MONDAY = new Date(2026, 9, 5).getTime();
+const LATER_THAT_WEEK = new Date(2026, 9, 11, 23, 30).getTime(); // Sunday night
+const NEXT_WEEK = new Date(2026, 9, 13, 9).getTime();
+
+function session(id: string, startTime: number, averageScore: number, entryCount = 5): WorkoutSession {
+  return { id, exercise: 'squat', startTime, endTime: startTime, entryCount, averageScore };
+}
+
+function entry(timestamp: number, codes: string[]): SessionEntry {
+  const detectedIssues = codes.map((code): TechniqueIssue => ({ code, severity: 'warning', joints: [], message: code }));
+  return { sessionId: 'session', timestamp, result: { detectedIssues } as PostureAnalysisResult };
+}
+
+describe('weeks', () => {
+  it('starts each week at midnight on Monday', () => {
+    assert.equal(getWeekStart(MONDAY), MONDAY);
+    assert.equal(getWeekStart(LATER_THAT_WEEK), MONDAY);
+    assert.equal(getWeekStart(NEXT_WEEK), new Date(2026, 9, 12).getTime());
+  });
+});
+
+describe('score trends', () => {
+  it('compares the newer half of the sessions with the older half', () => {
+    const [trend] = buildScoreTrends([
+      session('d', NEXT_WEEK, 0.9),
+      session('a', MONDAY, 0.5),
+      session('b', MONDAY + 1000, 0.6),
+      session('empty', MONDAY + 2000, 0, 0),
+      session('c', LATER_THAT_WEEK, 0.8)
+    ]);
+
+    assert.deepEqual(trend.points.map(point => point.sessionId), ['a', 'b', 'c', 'd']);
+    assert.ok(Math.abs((trend.change ?? 0) - 0.3) < 1e-9);
+  });
+
+  it('has no change to show for a single session', () => {
+    assert.equal(buildScoreTrends([session('a', MONDAY, 0.5)])[0].change, null);
+  });
+});
+
+describe('issue frequencies', () => {
+  const report = buildIssueFrequencies([
+    entry(MONDAY, ['squat.knees_caving', 'squat.knees_caving', 'squat.heels_rising']),
+    entry(MONDAY + 1000, ['squat.knees_caving']),
+    entry(NEXT_WEEK, ['squat.depth']),
+    entry(NEXT_WEEK + 1000, ['squat.knees_caving'])
+  ]);
+  const trend = (code: string) => report.issues.find(issue => issue.code === code);
+
+  it('counts an issue once per analysis', () => {
+    assert.deepEqual(report.weeks, [MONDAY, getWeekStart(NEXT_WEEK)]);
+    assert.deepEqual(trend('squat.knees_caving')?.weeks.map(week => week.count), [2, 1]);
+  });
+
+  it('calls out issues that appeared or went away this week', () => {
+    assert.equal(trend('squat.depth')?.trend, 'new');
+    assert.equal(trend('squat.heels_rising')?.trend, 'resolved');
+    assert.equal(trend('squat.knees_caving')?.trend, 'improving');
+  });
+
+  it('lists the most frequent issues this week first', () => {
+    assert.deepEqual(report.issues.slice(0, 2).map(issue => issue.code).sort(), ['squat.depth', 'squat.knees_caving']);
+    assert.equal(report.issues[2].code, 'squat.heels_rising');
+  });
+});
@@ -0,0 +1,38 @@
+/**
+ * Rate limiting for Coachly
+ * Checks which caller a request is counted against, so clients can't dodge the limit with their own headers
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { createRateLimiter, getClientId } from '../lib/rateLimit';
+
+describe('rate limiting', () => {
+  it('ignores addresses the client sends itself', () => {
+    const headers = new Headers({ 'x-forwarded-for': '203.0.113.7', 'x-real-ip': '203.0.113.8' });
+    assert.equal(getClientId(headers, {}), null);
+  });
+
+  it('uses the header the platform sets', () => {
+    const headers = new Headers({ 'x-forwarded-for': '203.0.113.7', 'x-real-ip': '198.51.100.4' });
+    assert.equal(getClientId(headers, { trustedHeader: 'x-real-ip' }), '198.51.100.4');
+  });
+
+  it('takes the X-Forwarded-For entry added by the outermost trusted proxy', () => {
+    // The client forged the first entry, then two trusted proxies appended the client's and each other's address
+    const headers = new Headers({ 'x-forwarded-for': '1.2.3.4, 198.51.100.4, 10.0.0.2' });
+
+    assert.equal(getClientId(headers, { trustedProxyHops: 2 }), '198.51.100.4');
+    assert.equal(getClientId(new Headers(), { trustedProxyHops: 2 }), null);
+  });
+
+  it('limits each client separately within a window', () => {
+    const checkRateLimit = createRateLimiter(2, 60_000);
+
+    assert.equal(checkRateLimit('a', 0).allowed, true);
+    assert.equal(checkRateLimit('a', 1).allowed, true);
+    assert.deepEqual(checkRateLimit('a', 2), { allowed: false, remaining: 0, retryAfterSeconds: 60 });
+    assert.equal(checkRateLimit('b', 3).allowed, true);
+    assert.equal(checkRateLimit('a', 60_000).allowed, true);
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Rep detection for Coachly
+ * Checks that a stream of knee angles is counted into reps, and that jitter around a phase threshold
+ * neither adds nor drops one
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { createRepTracker, RepTrackerState, updateRepTracker } from '../lib/repDetection';
+import { KeypointData } from '../lib/techniqueAnalysis';
+
+const IMAGE_SIZE = { width: 1280, height: 720 };
+
+/**
+ * A squatter side-on with the knee bent to the given angle, the left side facing the camera
+ */
+function squatAt(kneeDegrees: number): KeypointData[] {
+  const bend = (kneeDegrees * Math.PI) / 180;
+  const ankle = { x: 640, y: 620 };
+  const knee = { x: 640, y: 500 };
+  const hip = { x: knee.x + Math.sin(bend) * 120, y: knee.y + Math.cos(bend) * 120 };
+  const points: Record<string, { x: number; y: number }> = {
+    ankle,
+    knee,
+    hip,
+    shoulder: { x: hip.x - 20, y: hip.y - 160 }
+  };
+  return Object.entries(points).flatMap(([joint, { x, y }]) => [
+    { class: `left_${joint}`, confidence: 0.9, x, y },
+    { class: `right_${joint}`, confidence: 0.6, x: x - 6, y: y - 3 }
+  ]);
+}
+
+/**
+ * Feed one frame per angle, 100 ms apart
+ */
+function track(angles: number[]): RepTrackerState[] {
+  const states: RepTrackerState[] = [];
+  angles.reduce((state, angle, frame) => {
+    const next = updateRepTracker(state, { timestamp: frame * 100, keypoints: squatAt(angle), imageSize: IMAGE_SIZE });
+    states.push(next);
+    return next;
+  }, createRepTracker('squat'));
+  return states;
+}
+
+/**
+ * The tracker after the last frame
+ */
+function trackSet(angles: number[]): RepTrackerState {
+  return track(angles)[angles.length - 1];
+}
+
+const REP = [170, 150, 130, 100, 90, 100, 130, 150, 170];
+
+describe('rep detection', () => {
+  it('counts each trip from lockout to the bottom and back', () => {
+    const state = trackSet([...REP, ...REP, ...REP]);
+
+    assert.deepEqual(state.reps.map(rep => rep.index), [1, 2, 3]);
+    assert.equal(state.phase, 'lockout');
+    assert.ok(Math.abs(state.reps[0].bottomAngle - 90) < 0.5);
+  });
+
+  it("doesn't count a descent that stops short of the bottom", () => {
+    const state = trackSet([170, 150, 130, 120, 130, 150, 170]);
+
+    assert.equal(state.reps.length, 0);
+    assert.equal(state.phase, 'lockout');
+  });
+
+  it("doesn't start a rep on jitter just under lockout", () => {
+    // Squat's lockout is 160 degrees, so dips that stay within the hysteresis of it are still lockout
+    const states = track([170, 155, 165, 152, 168, 151, 170]);
+
+    assert.ok(states.every(state => state.phase === 'lockout' && state.repStartTime === null));
+    assert.equal(states[states.length - 1].reps.length, 0);
+  });
+
+  it('counts one rep for jitter around the bottom', () => {
+    // Squat's bottom is 110 degrees, and wobbling back and forth within the hysteresis of it stays at the bottom
+    const states = track([170, 130, 105, 115, 108, 118, 104, 119, 140, 170]);
+
+    assert.deepEqual(
+      states.map(state => state.phase),
+      ['lockout', 'eccentric', 'bottom', 'bottom', 'bottom', 'bottom', 'bottom', 'bottom', 'concentric', 'lockout']
+    );
+    const { reps } = states[states.length - 1];
+    assert.equal(reps.length, 1);
+    assert.ok(Math.abs(reps[0].bottomAngle - 104) < 0.5);
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Rep tempo and velocity for Coachly
+ * Times synthetic reps phase by phase and checks velocity loss across a set
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { formatTempo, getVelocityLoss, measureRepTempo, MotionSample, RepTempo } from '../lib/repTempo';
+
+const TORSO_PX = 200;
+
+/**
+ * Samples every 100 ms from a list of heights in torso lengths below the starting point
+ */
+function samplesFrom(depths: number[], startTime = 0): MotionSample[] {
+  return depths.map((depth, index) => ({
+    timestamp: startTime + index * 100,
+    y: 300 + depth * TORSO_PX,
+    scale: TORSO_PX
+  }));
+}
+
+function tempoWithVelocity(meanVelocity: number | null): RepTempo {
+  return { eccentricMs: 1000, pauseMs: 0, concentricMs: 1000, meanVelocity, peakVelocity: meanVelocity };
+}
+
+describe('rep tempo', () => {
+  it('times each phase of a paused rep', () => {
+    // Down over 1 s, held for 0.5 s, then up over 0.5 s
+    const depths = [0, 0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9, 1, 1, 1, 1, 1, 1, 0.8, 0.6, 0.4, 0.2, 0];
+    const tempo = measureRepTempo(0, 1000, 1500, 2000, samplesFrom(depths));
+
+    assert.equal(tempo.eccentricMs, 1000);
+    assert.equal(tempo.pauseMs, 500);
+    assert.equal(tempo.concentricMs, 500);
+    assert.equal(formatTempo(tempo), '1.0-0.5-0.5');
+  });
+
+  it('measures concentric speed in torso lengths per second', () => {
+    // Up one torso length in 0.5 s, fastest in the middle
+    const samples = samplesFrom([1, 1, 0.9, 0.6, 0.3, 0.1, 0], 900);
+    const tempo = measureRepTempo(0, 900, 1000, 1500, samples);
+
+    assert.ok(tempo.meanVelocity !== null && Math.abs(tempo.meanVelocity - 2) < 1e-9);
+    assert.ok(tempo.peakVelocity !== null && Math.abs(tempo.peakVelocity - 3) < 1e-9);
+  });
+
+  it('has no velocity when the lift was not followed', () => {
+    const tempo = measureRepTempo(0, 1000, 1000, 2000, []);
+
+    assert.equal(tempo.meanVelocity, null);
+    assert.equal(tempo.peakVelocity, null);
+    assert.equal(getVelocityLoss([], tempo), null);
+  });
+
+  it('compares each rep with the fastest one before it', () => {
+    const set = [tempoWithVelocity(0.8), tempoWithVelocity(1), tempoWithVelocity(null), undefined];
+
+    assert.equal(getVelocityLoss([], tempoWithVelocity(1)), 0);
+    assert.ok(Math.abs((getVelocityLoss(set, tempoWithVelocity(0.6)) ?? 0) - 0.4) < 1e-9);
+    assert.equal(getVelocityLoss(set, tempoWithVelocity(1.2)), 0);
+  });
+});
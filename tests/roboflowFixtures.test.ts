@@ -0,0 +1,129 @@
+/**
+ * Synthetic Roboflow responses for Coachly
+ * Replays hand-written workflow output through pose processing and technique analysis, so threshold changes can be
+ * checked without network access
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { ExerciseId } from '../lib/exerciseDefinitions';
+import { PoseBackendError } from '../lib/poseErrors';
+import { processRoboflowResponse } from '../lib/roboflow';
+import { analyzeTechnique } from '../lib/techniqueAnalysis';
+import { loadFixture } from './fixtures/loadFixture';
+
+/**
+ * Run a fixture through the same steps as a live frame
+ */
+function analyzeFixture(name: string, exercise: ExerciseId) {
+  const pose = processRoboflowResponse(loadFixture(name));
+  return { pose, analysis: analyzeTechnique(pose.keypoints, exercise, { imageSize: pose.imageSize }) };
+}
+
+function issueCodes(analysis: ReturnType<typeof analyzeTechnique>): string[] {
+  return analysis.issues.map(issue => issue.code);
+}
+
+describe('synthetic Roboflow responses', () => {
+  it('finds nothing wrong with a good squat at the bottom', () => {
+    const { pose, analysis } = analyzeFixture('good-squat', 'squat');
+
+    assert.equal(pose.keypoints.length, 17);
+    assert.deepEqual(pose.imageSize, { width: 1280, height: 720 });
+    assert.equal(typeof pose.visualizedImage, 'string');
+    assert.equal(analysis.sideProfile, 'left');
+    assert.equal(analysis.facing, 'right');
+    assert.equal(analysis.phase, 'bottom');
+    assert.deepEqual(issueCodes(analysis), []);
+    assert.equal(analysis.score, 1);
+  });
+
+  it('flags a rounded back in the deadlift setup', () => {
+    const { analysis } = analyzeFixture('rounded-back-deadlift', 'deadlift');
+
+    assert.equal(analysis.phase, 'setup');
+    assert.deepEqual(issueCodes(analysis), ['deadlift.spine_rounded']);
+    const [issue] = analysis.issues;
+    assert.equal(issue.severity, 'critical');
+    assert.ok(issue.measured !== undefined && issue.measured > 60);
+    assert.ok(Math.abs(analysis.score - 0.6) < 1e-9);
+  });
+
+  it('refuses to judge a squat when the ankles are hidden', () => {
+    const { pose, analysis } = analyzeFixture('missing-ankles', 'squat');
+
+    assert.equal(pose.keypoints.length, 17);
+    assert.deepEqual(issueCodes(analysis), ['squat.not_analyzable']);
+    assert.deepEqual(analysis.issues[0].joints, ['left_ankle']);
+    assert.equal(analysis.phase, undefined);
+    assert.ok(Math.abs(analysis.score - 0.3) < 1e-9);
+  });
+
+  it('gives an empty pose when nobody is in frame', () => {
+    const { pose, analysis } = analyzeFixture('no-person', 'squat');
+
+    assert.deepEqual(pose.keypoints, []);
+    assert.equal(pose.confidence, 0);
+    assert.equal(analysis.sideProfile, 'unknown');
+    assert.deepEqual(issueCodes(analysis), ['squat.not_analyzable']);
+  });
+
+  it('analyzes the lifter rather than whoever was detected first', () => {
+    const { pose, analysis } = analyzeFixture('multiple-people', 'squat');
+
+    assert.deepEqual(
+      pose.people?.map(person => person.detectionId),
+      ['9b7c3e21-4d5f-4a60-8e1b-2c3d4e5f6a74', 'c1d2e3f4-a5b6-4c7d-8e9f-0a1b2c3d4e95']
+    );
+    assert.equal(pose.detectionId, 'c1d2e3f4-a5b6-4c7d-8e9f-0a1b2c3d4e95');
+    assert.equal(pose.confidence, 0.91);
+    assert.equal(analysis.phase, 'bottom');
+    assert.deepEqual(issueCodes(analysis), []);
+  });
+});
+
+describe('workflow output validation', () => {
+  /**
+   * Assert that processing fails with a malformed_response error naming the bad field
+   */
+  function assertMalformed(response: unknown, field: string) {
+    assert.throws(
+      () => processRoboflowResponse(response),
+      (error: unknown) =>
+        error instanceof PoseBackendError && error.code === 'malformed_response' && error.message.includes(field)
+    );
+  }
+
+  it('rejects a response without outputs', () => {
+    assertMalformed({}, 'outputs');
+    assertMalformed(null, 'outputs');
+  });
+
+  it('rejects a response without model predictions', () => {
+    const response = loadFixture('good-squat') as { outputs: Array<Record<string, unknown>> };
+    delete response.outputs[0].model_predictions;
+    assertMalformed(response, 'outputs[0].model_predictions');
+  });
+
+  it('rejects an image without dimensions', () => {
+    const response = loadFixture('good-squat') as {
+      outputs: Array<{ model_predictions: { image: Record<string, unknown> } }>;
+    };
+    response.outputs[0].model_predictions.image.width = '1280';
+    assertMalformed(response, 'image');
+  });
+
+  it('names the keypoint that is malformed', () => {
+    const response = loadFixture('good-squat') as {
+      outputs: Array<{ model_predictions: { predictions: Array<{ keypoints: Array<Record<string, unknown>> }> } }>;
+    };
+    response.outputs[0].model_predictions.predictions[0].keypoints[5].x = null;
+    assertMalformed(response, 'predictions[0].keypoints[5]');
+  });
+
+  it('accepts a response without a visualization', () => {
+    const response = loadFixture('good-squat') as { outputs: Array<Record<string, unknown>> };
+    delete response.outputs[0].pose_skeleton_visualization;
+    assert.equal(processRoboflowResponse(response).visualizedImage, undefined);
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Session recording for Coachly
+ * Checks that a recorded session's stored analyses line up with its video for replay
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { analyzePoseEstimate } from '../lib/postureAnalysis';
+import { processRoboflowResponse } from '../lib/roboflow';
+import { isRecordingSupported } from '../lib/sessionRecorder';
+import type { SessionEntry, SessionRecording } from '../lib/sessionStore';
+import { buildRecordingTimeline, getEntryAtTime } from '../lib/videoAnalysis';
+import { loadFixture } from './fixtures/loadFixture';
+
+const START = Date.UTC(2026, 9, 12, 18);
+
+const recording: SessionRecording = {
+  sessionId: 'session',
+  startTime: START,
+  duration: 4000,
+  mimeType: 'video/webm',
+  video: new Blob()
+};
+
+const result = analyzePoseEstimate(processRoboflowResponse(loadFixture('good-squat')), 'squat');
+
+function entries(offsetsMs: number[]): SessionEntry[] {
+  return offsetsMs.map(offset => ({ sessionId: 'session', timestamp: START + offset, result }));
+}
+
+describe('recording timeline', () => {
+  it('places each analysis at its time into the video', () => {
+    const timeline = buildRecordingTimeline('squat', recording, entries([-500, 0, 400, 800, 1200, 4500]));
+
+    // Analyses from before the recording started or after it stopped have no frame to show on
+    assert.deepEqual(timeline.entries.map(entry => entry.time), [0, 0.4, 0.8, 1.2]);
+    assert.equal(timeline.duration, 4);
+    assert.equal(timeline.framesPerSecond, 2.5);
+    assert.equal(getEntryAtTime(timeline, 1)?.time, 0.8);
+  });
+
+  it('shows a lone analysis for no more than a second either side', () => {
+    const timeline = buildRecordingTimeline('squat', recording, entries([2000]));
+
+    assert.equal(timeline.framesPerSecond, 1);
+    assert.equal(getEntryAtTime(timeline, 2.9)?.time, 2);
+    assert.equal(getEntryAtTime(timeline, 3.1), undefined);
+  });
+});
+
+describe('recording support', () => {
+  it("doesn't offer recording without MediaRecorder", () => {
+    assert.equal(isRecordingSupported(), false);
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * Workout session history for Coachly
+ * Checks that history fails cleanly where storage isn't available, and tries again once it might be
+ */
+
+import assert from 'node:assert/strict';
+import { afterEach, describe, it } from 'node:test';
+import { listSessions, startSession } from '../lib/sessionStore';
+
+/**
+ * An IndexedDB whose every open fails the way a blocked private window does, counting the attempts
+ */
+function blockedIndexedDB() {
+  const blocked = {
+    opens: 0,
+    open() {
+      blocked.opens++;
+      const request: { error: Error; onerror?: () => void } = { error: new Error('The user denied permission') };
+      setTimeout(() => request.onerror?.());
+      return request;
+    }
+  };
+  return blocked;
+}
+
+describe('session storage', () => {
+  afterEach(() => {
+    delete (globalThis as { indexedDB?: unknown }).indexedDB;
+  });
+
+  it("rejects when there's no IndexedDB at all", async () => {
+    await assert.rejects(startSession('squat'), /IndexedDB is not available/);
+  });
+
+  it('tries to open the database again after it failed', async () => {
+    const indexedDB = blockedIndexedDB();
+    Object.assign(globalThis, { indexedDB });
+
+    await assert.rejects(listSessions(), /denied permission/);
+    await assert.rejects(listSessions(), /denied permission/);
+    assert.equal(indexedDB.opens, 2);
+  });
+});
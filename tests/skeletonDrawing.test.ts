@@ -0,0 +1,86 @@
+/**
+ * Skeleton drawing for Coachly
+ * Checks where joints land on the canvas, which are drawn as faults, and which joint angles are labelled
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { drawSkeleton } from '../lib/skeletonDrawing';
+import { KeypointData } from '../lib/techniqueAnalysis';
+
+interface Dot {
+  x: number;
+  y: number;
+  color: string;
+}
+
+/**
+ * A canvas whose 2D context only records the joints and labels drawn on it
+ */
+function recordingCanvas(width: number, height: number) {
+  const dots: Dot[] = [];
+  const labels: string[] = [];
+  const noop = () => {};
+  const context = {
+    fillStyle: '',
+    strokeStyle: '',
+    clearRect: noop,
+    setLineDash: noop,
+    strokeRect: noop,
+    beginPath: noop,
+    moveTo: noop,
+    lineTo: noop,
+    stroke: noop,
+    fill: noop,
+    fillRect: noop,
+    arc: (x: number, y: number) => dots.push({ x, y, color: context.fillStyle }),
+    measureText: (text: string) => ({ width: text.length * 8 }),
+    fillText: (text: string) => labels.push(text)
+  };
+  const canvas = { width, height, getContext: () => context } as unknown as HTMLCanvasElement;
+  return { canvas, dots, labels };
+}
+
+// A leg side-on with the knee bent at a right angle, plus a hand too blurry to trust
+const KEYPOINTS: KeypointData[] = [
+  { class: 'left_hip', confidence: 0.9, x: 400, y: 300 },
+  { class: 'left_knee', confidence: 0.9, x: 500, y: 300 },
+  { class: 'left_ankle', confidence: 0.9, x: 500, y: 400 },
+  { class: 'right_hip', confidence: 0.4, x: 395, y: 298 },
+  { class: 'left_wrist', confidence: 0.1, x: 300, y: 200 }
+];
+
+describe('skeleton drawing', () => {
+  const imageSize = { width: 1280, height: 720 };
+
+  it('places joints on the canvas as the video is scaled', () => {
+    const { canvas, dots } = recordingCanvas(640, 360);
+    drawSkeleton(canvas, KEYPOINTS, { imageSize });
+
+    assert.deepEqual(dots.map(({ x, y }) => [x, y]), [[200, 150], [250, 150], [250, 200], [197.5, 149]]);
+  });
+
+  it('flips joints for a mirrored preview', () => {
+    const { canvas, dots } = recordingCanvas(640, 360);
+    drawSkeleton(canvas, KEYPOINTS, { imageSize, mirrored: true });
+
+    assert.equal(dots[0].x, 440);
+  });
+
+  it('draws the joints of an issue as faults', () => {
+    const { canvas, dots } = recordingCanvas(640, 360);
+    const issue = { code: 'squat.knee_forward', severity: 'warning' as const, joints: ['left_knee'], message: '' };
+    drawSkeleton(canvas, KEYPOINTS, { imageSize, issues: [issue] });
+
+    // The hip comes first and is drawn as usual
+    const faults = dots.filter(dot => dot.color !== dots[0].color);
+    assert.deepEqual(faults.map(({ x, y }) => [x, y]), [[250, 150]]);
+  });
+
+  it('labels the angles it can measure on the visible side', () => {
+    const { canvas, labels } = recordingCanvas(640, 360);
+    drawSkeleton(canvas, KEYPOINTS, { imageSize });
+
+    assert.deepEqual(labels, ['90°']);
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Left/right symmetry analysis for Coachly
+ * Tells side-on from front-on recordings and checks a front-on squat and bench for uneven form
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { getExerciseDefinition } from '../lib/exerciseRegistry';
+import { processRoboflowResponse } from '../lib/roboflow';
+import { checkSymmetry, getCameraGuidance } from '../lib/symmetryAnalysis';
+import { analyzeTechnique, determineCameraView, KeypointData } from '../lib/techniqueAnalysis';
+import { loadFixture } from './fixtures/loadFixture';
+
+/**
+ * Move keypoints in a fixture frame, by their class
+ */
+function moveKeypoints(keypoints: KeypointData[], moves: Record<string, Partial<KeypointData>>): KeypointData[] {
+  return keypoints.map(kp => ({ ...kp, ...moves[kp.class] }));
+}
+
+describe('camera view', () => {
+  it('tells side-on recordings from front-on ones', () => {
+    for (const name of ['good-squat', 'rounded-back-deadlift']) {
+      const pose = processRoboflowResponse(loadFixture(name));
+      assert.equal(determineCameraView(pose.keypoints, pose.imageSize), 'side', name);
+    }
+    const front = processRoboflowResponse(loadFixture('front-squat-knees-caving'));
+    assert.equal(determineCameraView(front.keypoints, front.imageSize), 'front');
+  });
+
+  it('asks for the camera angle the other checks need', () => {
+    const squat = getExerciseDefinition('squat');
+    const bench = getExerciseDefinition('bench');
+    assert.ok(squat && bench);
+
+    assert.match(getCameraGuidance(squat, 'side'), /face the camera/);
+    assert.match(getCameraGuidance(squat, 'front'), /Turn side-on/);
+    assert.match(getCameraGuidance(bench, 'side'), /film from your feet/);
+  });
+});
+
+describe('symmetry checks', () => {
+  it('flags knees caving in on a front-on squat', () => {
+    const pose = processRoboflowResponse(loadFixture('front-squat-knees-caving'));
+    const result = analyzeTechnique(pose.keypoints, 'squat', { imageSize: pose.imageSize });
+
+    assert.equal(result.view, 'front');
+    assert.deepEqual(
+      result.issues.map(issue => issue.code),
+      ['squat.knee_valgus']
+    );
+    assert.equal(result.issues[0].severity, 'critical');
+    assert.ok(Math.abs(result.score - 0.7) < 1e-9);
+  });
+
+  it('passes knees pushed out over the feet', () => {
+    const pose = processRoboflowResponse(loadFixture('front-squat-knees-caving'));
+    const keypoints = moveKeypoints(pose.keypoints, { left_knee: { x: 770 }, right_knee: { x: 510 } });
+    const result = analyzeTechnique(keypoints, 'squat', { imageSize: pose.imageSize });
+
+    assert.deepEqual(result.issues, []);
+    assert.equal(result.score, 1);
+  });
+
+  it('flags a tilted bar on bench', () => {
+    const bench = getExerciseDefinition('bench');
+    assert.ok(bench);
+
+    // Keypoints in torso lengths, one hand a fifth of a torso lower than the other
+    const keypoints: KeypointData[] = [
+      { class: 'left_shoulder', confidence: 0.9, x: 1.5, y: 2 },
+      { class: 'right_shoulder', confidence: 0.9, x: 0.5, y: 2 },
+      { class: 'left_wrist', confidence: 0.9, x: 1.7, y: 1.2 },
+      { class: 'right_wrist', confidence: 0.9, x: 0.3, y: 1.4 }
+    ];
+    const { issues, penalty } = checkSymmetry(bench, keypoints);
+
+    assert.deepEqual(issues.map(issue => issue.code), ['bench.uneven_bar']);
+    assert.deepEqual(issues[0].joints, ['left_wrist', 'right_wrist']);
+    assert.equal(penalty, 0.25);
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * Technique issues for Coachly
+ * Checks that issues render their message templates, sort by severity, and come out of analysis with stable codes
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { analyzePoseEstimate } from '../lib/postureAnalysis';
+import { processRoboflowResponse } from '../lib/roboflow';
+import { compareIssueSeverity, formatIssueMessage, severityForPenalty, TechniqueIssue } from '../lib/techniqueIssues';
+import { loadFixture } from './fixtures/loadFixture';
+
+function issue(overrides: Partial<TechniqueIssue>): TechniqueIssue {
+  return { code: 'squat.knee_forward', severity: 'warning', joints: [], message: '', ...overrides };
+}
+
+describe('issue messages', () => {
+  it('fills in the measured value and threshold in their units', () => {
+    const message = 'Hips at {measured}, keep them under {threshold}';
+
+    assert.equal(
+      formatIssueMessage(issue({ message, measured: 47.6, threshold: 45, unit: 'degrees' })),
+      'Hips at 48°, keep them under 45°'
+    );
+    assert.equal(
+      formatIssueMessage(issue({ message, measured: 0.314, threshold: 0.25, unit: 'torso_lengths' })),
+      'Hips at 0.31, keep them under 0.25'
+    );
+  });
+
+  it("marks a value that wasn't measured", () => {
+    assert.equal(formatIssueMessage(issue({ message: 'Depth {measured}' })), 'Depth ?');
+  });
+});
+
+describe('issue severity', () => {
+  it('grows with the score penalty', () => {
+    assert.deepEqual([0.1, 0.2, 0.3].map(severityForPenalty), ['info', 'warning', 'critical']);
+  });
+
+  it('sorts the most severe first', () => {
+    const issues = [issue({ severity: 'info' }), issue({ severity: 'critical' }), issue({ severity: 'warning' })];
+    assert.deepEqual(issues.sort(compareIssueSeverity).map(issue => issue.severity), ['critical', 'warning', 'info']);
+  });
+});
+
+describe('analyzed issues', () => {
+  it('come with a code for their exercise and a message ready to show', () => {
+    const pose = processRoboflowResponse(loadFixture('rounded-back-deadlift'));
+    const { detectedIssues } = analyzePoseEstimate(pose, 'deadlift');
+
+    assert.ok(detectedIssues.length > 0);
+    for (const detected of detectedIssues) {
+      assert.match(detected.code, /^(deadlift|general)\.[a-z_]+$/);
+      assert.doesNotMatch(formatIssueMessage(detected), /[{}]/);
+    }
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Video file analysis for Coachly
+ * Checks when a video is sampled, how a playback time finds its analysis, and which failed frames stop the analysis
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { PoseBackendError } from '../lib/poseErrors';
+import type { PoseEstimate, PoseProvider } from '../lib/poseProvider';
+import { analyzePoseEstimate } from '../lib/postureAnalysis';
+import { processRoboflowResponse } from '../lib/roboflow';
+import { analyzeVideo, getEntryAtTime, getSampleTimes, VideoAnalysis } from '../lib/videoAnalysis';
+import { loadFixture } from './fixtures/loadFixture';
+
+const pose = processRoboflowResponse(loadFixture('good-squat'));
+
+/**
+ * A loaded video that seeks instantly
+ */
+class FakeVideo extends EventTarget {
+  readonly videoWidth = 1280;
+  readonly videoHeight = 720;
+  private time = 0;
+
+  constructor(readonly duration: number) {
+    super();
+  }
+
+  get currentTime() {
+    return this.time;
+  }
+
+  set currentTime(time: number) {
+    this.time = time;
+    setTimeout(() => this.dispatchEvent(new Event('seeked')));
+  }
+
+  pause() {}
+}
+
+function fakeVideo(duration: number): HTMLVideoElement {
+  return new FakeVideo(duration) as unknown as HTMLVideoElement;
+}
+
+/**
+ * A backend that finds the lifter in every frame except those it's told to fail
+ */
+function fakeProvider(failAt: (time: number) => Error | null): PoseProvider {
+  return {
+    id: 'local',
+    label: 'Test',
+    description: 'Test',
+    async estimatePose(video: HTMLVideoElement): Promise<PoseEstimate> {
+      const error = failAt(video.currentTime);
+      if (error) {
+        throw error;
+      }
+      return pose;
+    }
+  };
+}
+
+describe('video sampling', () => {
+  it('samples from the first frame to the last', () => {
+    assert.deepEqual(getSampleTimes(2.2, 2), [0, 0.5, 1, 1.5, 2]);
+  });
+
+  it("doesn't sample a video without a length", () => {
+    assert.deepEqual(getSampleTimes(NaN, 2), []);
+    assert.deepEqual(getSampleTimes(Infinity, 2), []);
+  });
+});
+
+describe('video timeline', () => {
+  const result = analyzePoseEstimate(pose, 'squat');
+  const analysis: VideoAnalysis = {
+    exercise: 'squat',
+    duration: 3,
+    framesPerSecond: 2,
+    entries: [0, 0.5, 2.5].map(time => ({ time, result })),
+    reps: [],
+    failedFrames: 0
+  };
+
+  it('shows the analysis sampled closest to the playback time', () => {
+    assert.equal(getEntryAtTime(analysis, 0.4)?.time, 0.5);
+    assert.equal(getEntryAtTime(analysis, 2.9)?.time, 2.5);
+  });
+
+  it('shows nothing where no frame was sampled nearby', () => {
+    assert.equal(getEntryAtTime(analysis, 1.6), undefined);
+  });
+});
+
+describe('video analysis', () => {
+  it('skips a frame the backend failed on and carries on', async () => {
+    const provider = fakeProvider(time => (time === 1 ? new Error('Bad frame') : null));
+    const error = console.error;
+    console.error = () => {};
+    try {
+      const analysis = await analyzeVideo(provider, fakeVideo(2), 'squat', { framesPerSecond: 2 });
+
+      assert.deepEqual(analysis.entries.map(entry => entry.time), [0, 0.5, 1.5, 2]);
+      assert.equal(analysis.failedFrames, 1);
+    } finally {
+      console.error = error;
+    }
+  });
+
+  it('stops when every frame would fail', async () => {
+    const provider = fakeProvider(() => new PoseBackendError('auth_failed', 'API key rejected'));
+
+    await assert.rejects(
+      analyzeVideo(provider, fakeVideo(2), 'squat', { framesPerSecond: 2 }),
+      (error: unknown) => error instanceof PoseBackendError && error.code === 'auth_failed'
+    );
+  });
+});
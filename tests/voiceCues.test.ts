@@ -0,0 +1,66 @@
+/**
+ * Spoken coaching cues for Coachly
+ * Checks which issue gets spoken, and that cues are spaced out and not repeated every frame
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { TechniqueIssue } from '../lib/techniqueIssues';
+import { createVoiceCueState, getIssueCue, selectVoiceCue } from '../lib/voiceCues';
+
+const KNEES: TechniqueIssue = {
+  code: 'squat.knees_caving',
+  severity: 'critical',
+  joints: ['left_knee', 'right_knee'],
+  cue: 'Knees out',
+  message: 'Knees caving inward'
+};
+const CHEST: TechniqueIssue = {
+  code: 'squat.forward_lean',
+  severity: 'warning',
+  joints: ['left_hip', 'left_shoulder'],
+  message: 'Leaning forward {measured} - Chest up'
+};
+const HIDDEN: TechniqueIssue = {
+  code: 'general.missing_keypoints',
+  severity: 'critical',
+  joints: [],
+  message: 'Some critical body parts are not visible - Step into the frame'
+};
+
+describe('issue cues', () => {
+  it("uses the rule's cue, or the instruction after the dash", () => {
+    assert.equal(getIssueCue(KNEES), 'Knees out');
+    assert.equal(getIssueCue(CHEST), 'Chest up');
+  });
+
+  it("doesn't interrupt a set over detection problems", () => {
+    assert.equal(getIssueCue(HIDDEN), null);
+  });
+
+  it("won't speak an unfilled template", () => {
+    assert.equal(getIssueCue({ ...CHEST, message: 'Leaning forward {measured}' }), null);
+  });
+});
+
+describe('cue selection', () => {
+  it('speaks the most severe issue first', () => {
+    assert.equal(selectVoiceCue(createVoiceCueState(), [CHEST, HIDDEN, KNEES], 0).cue, 'Knees out');
+  });
+
+  it('waits between cues, then moves on to one not said recently', () => {
+    const first = selectVoiceCue(createVoiceCueState(), [KNEES, CHEST], 0);
+    const tooSoon = selectVoiceCue(first.state, [KNEES, CHEST], 1000);
+    const later = selectVoiceCue(first.state, [KNEES, CHEST], 3000);
+
+    assert.equal(tooSoon.cue, null);
+    assert.equal(later.cue, 'Chest up');
+  });
+
+  it('repeats a cue once it has been a while', () => {
+    const first = selectVoiceCue(createVoiceCueState(), [KNEES], 0);
+
+    assert.equal(selectVoiceCue(first.state, [KNEES], 5000).cue, null);
+    assert.equal(selectVoiceCue(first.state, [KNEES], 9000).cue, 'Knees out');
+  });
+});